@@ -0,0 +1,555 @@
+import * as THREE from 'three'
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { MapControls } from 'three/examples/jsm/controls/MapControls.js'
+import { FlyControls } from 'three/examples/jsm/controls/FlyControls.js'
+
+export type CameraProjectionType = 'perspective' | 'orthographic'
+export type CameraControlModeType = 'orbit' | 'fly' | 'map'
+export type CameraViewType = 'top' | 'bottom' | 'front' | 'back' | 'left' | 'right' | 'iso'
+
+export interface CameraControllerOptionsType {
+  domElement: HTMLElement
+  width: number
+  height: number
+  projection?: CameraProjectionType
+  controlMode?: CameraControlModeType
+  fov?: number
+  near?: number
+  far?: number
+  flySpeed?: number
+}
+
+export interface CameraControllerEventMap {
+  change: { camera: THREE.PerspectiveCamera | THREE.OrthographicCamera } // 相机或控制器被替换时触发
+  transitionend: object // 相机过渡动画结束时触发
+  update: object // 相机位置、朝向、缩放或视口尺寸变化时触发，包括交互与过渡动画
+}
+
+/**
+ * 视点，可直接 JSON 序列化
+ *
+ * @param name        视点名称
+ * @param projection  投影方式
+ * @param position    相机位置
+ * @param target      观察目标
+ * @param zoom        相机缩放
+ * @param fov         透视相机的垂直视角（度）
+ * @param viewHeight  目标处画面的可视高度（可选），正交视点按它恢复缩放，
+ *                    因为正交相机 zoom 为 1 时的视口高度取决于切换投影时的相机距离
+ */
+export interface ViewpointType {
+  name?: string
+  projection: CameraProjectionType
+  position: [number, number, number]
+  target: [number, number, number]
+  zoom: number
+  fov: number
+  viewHeight?: number
+}
+
+export interface CameraTransitionOptionsType {
+  animate?: boolean // 是否平滑过渡，默认 true
+  duration?: number // 过渡时长（毫秒），默认 600
+}
+
+export interface CameraFitOptionsType extends CameraTransitionOptionsType {
+  padding?: number // 包围球半径的放大倍数，默认 1.2
+  view?: CameraViewType // 同时切换到标准视图，默认保持当前观察方向
+}
+
+type ControlsType = OrbitControls | FlyControls
+// 两种控制器的事件类型不同，只监听共有的 change 事件
+type ControlsDispatcherType = THREE.EventDispatcher<{ change: object }>
+
+interface CameraStateType {
+  position: THREE.Vector3
+  target: THREE.Vector3
+  zoom: number
+  fov: number
+}
+
+interface TransitionType {
+  from: CameraStateType
+  to: CameraStateType
+  start: number
+  duration: number
+}
+
+const VIEW_DIRECTIONS: Record<CameraViewType, THREE.Vector3> = {
+  top: new THREE.Vector3(0, 1, 0),
+  bottom: new THREE.Vector3(0, -1, 0),
+  front: new THREE.Vector3(0, 0, 1),
+  back: new THREE.Vector3(0, 0, -1),
+  left: new THREE.Vector3(-1, 0, 0),
+  right: new THREE.Vector3(1, 0, 0),
+  iso: new THREE.Vector3(1, 1, 1).normalize(),
+}
+
+function easeInOutCubic(t: number) {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
+
+/**
+ * CameraController 相机与交互控制类
+ *
+ * 管理透视 / 正交两个相机以及当前的交互控制器，由 Viewer 创建，也可单独使用。
+ *
+ * 主要功能：
+ * - 运行时切换透视 / 正交投影，切换时保持观察目标与画面大小基本不变
+ * - 运行时切换控制方式：orbit 环绕、fly 飞行（WASD 移动，拖拽转向）、map 俯视地图（只平移、缩放）
+ * - 标准视图（top / bottom / front / back / left / right / iso）
+ * - fitToObject / fitToBoundingBox 让物体充满画面
+ * - 相机位置、目标、缩放的平滑过渡动画
+ * - 保存、恢复命名视点，视点可 JSON 序列化
+ * - 相机发生任何变化时触发 update 事件，Viewer 的按需渲染据此决定是否渲染
+ *
+ * 构造参数 CameraControllerOptionsType:
+ * @param domElement   监听交互事件的 DOM 元素，一般为渲染器的 canvas
+ * @param width        画布宽度（像素）
+ * @param height       画布高度（像素）
+ * @param projection   初始投影方式，默认 perspective
+ * @param controlMode  初始控制方式，默认 orbit
+ * @param fov          透视相机的垂直视角（度），默认 75
+ * @param near         近裁剪面，默认 0.1
+ * @param far          远裁剪面，默认 1000
+ * @param flySpeed     fly 模式下每秒移动的世界单位，默认 10
+ */
+export default class CameraController extends THREE.EventDispatcher<CameraControllerEventMap> {
+  private perspective: THREE.PerspectiveCamera
+  private orthographic: THREE.OrthographicCamera
+  private camera: THREE.PerspectiveCamera | THREE.OrthographicCamera
+  private controls: ControlsType | null = null
+  private projection: CameraProjectionType
+  private controlMode: CameraControlModeType
+  private target = new THREE.Vector3() // 观察目标，fly 模式下随相机移动
+  private frustumHeight = 1 // 正交相机 zoom 为 1 时的视口高度（世界单位）
+  private aspect: number
+  private transition: TransitionType | null = null
+  private viewpoints = new Map<string, ViewpointType>()
+  private clock = new THREE.Clock()
+
+  constructor(private options: CameraControllerOptionsType) {
+    super()
+    const { width, height } = this.options
+    const near = this.options.near ?? 0.1
+    const far = this.options.far ?? 1000
+    this.aspect = width / height
+    this.perspective = new THREE.PerspectiveCamera(this.options.fov ?? 75, this.aspect, near, far)
+    this.orthographic = new THREE.OrthographicCamera(-0.5, 0.5, 0.5, -0.5, near, far)
+
+    this.projection = this.options.projection ?? 'perspective'
+    this.controlMode = this.options.controlMode ?? 'orbit'
+    this.camera = this.projection === 'perspective' ? this.perspective : this.orthographic
+
+    this.setPosition(new THREE.Vector3(10, 10, 10), new THREE.Vector3())
+    this.createControls()
+    if (this.controlMode === 'map') this.setView('top', { animate: false })
+  }
+
+  public getCamera() {
+    return this.camera
+  }
+
+  public getControls() {
+    return this.controls
+  }
+
+  public getProjection() {
+    return this.projection
+  }
+
+  public getControlMode() {
+    return this.controlMode
+  }
+
+  public getTarget() {
+    return this.target.clone()
+  }
+
+  public isTransitioning() {
+    return this.transition !== null
+  }
+
+  /**
+   * 更新画布尺寸
+   */
+  public setSize(width: number, height: number) {
+    this.aspect = width / height
+    this.perspective.aspect = this.aspect
+    this.perspective.updateProjectionMatrix()
+    this.updateFrustum()
+    this.dispatchEvent({ type: 'update' })
+  }
+
+  /**
+   * 设置相机位置与观察目标
+   */
+  public setPosition(position: THREE.Vector3Like, target: THREE.Vector3Like = this.target) {
+    this.target.copy(target)
+    this.camera.position.copy(position)
+    this.camera.lookAt(this.target)
+    if (this.controls instanceof OrbitControls) this.controls.target.copy(this.target)
+    if (this.projection === 'orthographic') this.syncFrustumToDistance()
+    this.dispatchEvent({ type: 'update' })
+  }
+
+  /**
+   * 目标处画面的可视高度（世界单位），相当于缩放程度，可用于在多个视口之间同步缩放
+   */
+  public getViewHeight() {
+    if (this.projection === 'orthographic') return this.frustumHeight / this.orthographic.zoom
+    const distance = this.camera.position.distanceTo(this.target)
+    const halfFov = THREE.MathUtils.degToRad(this.perspective.fov) / 2
+    return (2 * distance * Math.tan(halfFov)) / this.perspective.zoom
+  }
+
+  /**
+   * 设置目标处画面的可视高度，透视相机沿视线移动，正交相机修改 zoom
+   */
+  public setViewHeight(height: number) {
+    if (!(height > 0)) return
+
+    if (this.projection === 'orthographic') {
+      this.orthographic.zoom = this.frustumHeight / height
+      this.orthographic.updateProjectionMatrix()
+    } else {
+      const halfFov = THREE.MathUtils.degToRad(this.perspective.fov) / 2
+      const direction = this.camera.position.clone().sub(this.target).normalize()
+      this.camera.position
+        .copy(this.target)
+        .addScaledVector(direction, (height * this.perspective.zoom) / 2 / Math.tan(halfFov))
+    }
+    this.dispatchEvent({ type: 'update' })
+  }
+
+  /**
+   * 切换投影方式，切换后画面中目标处的物体大小保持不变
+   */
+  public setProjection(projection: CameraProjectionType) {
+    if (projection === this.projection) return
+    this.cancelTransition()
+
+    const from = this.camera
+    const distance = from.position.distanceTo(this.target)
+    const halfFov = THREE.MathUtils.degToRad(this.perspective.fov) / 2
+
+    if (projection === 'orthographic') {
+      this.frustumHeight = (2 * distance * Math.tan(halfFov)) / this.perspective.zoom
+      this.orthographic.zoom = 1
+      this.orthographic.position.copy(from.position)
+      this.orthographic.quaternion.copy(from.quaternion)
+      this.camera = this.orthographic
+      this.updateFrustum()
+    } else {
+      // 按正交相机当前的可视高度反推透视相机到目标的距离
+      const height = this.frustumHeight / this.orthographic.zoom
+      const direction = from.position.clone().sub(this.target).normalize()
+      this.perspective.zoom = 1
+      this.perspective.position
+        .copy(this.target)
+        .addScaledVector(direction, height / 2 / Math.tan(halfFov))
+      this.perspective.quaternion.copy(from.quaternion)
+      this.perspective.updateProjectionMatrix()
+      this.camera = this.perspective
+    }
+
+    this.projection = projection
+    this.createControls()
+  }
+
+  /**
+   * 切换控制方式，map 模式会先切换到俯视图
+   */
+  public setControlMode(mode: CameraControlModeType) {
+    if (mode === this.controlMode) return
+    this.cancelTransition()
+    this.controlMode = mode
+    this.createControls()
+    if (mode === 'map') this.setView('top')
+  }
+
+  /**
+   * 切换到标准视图，保持观察目标与距离不变
+   */
+  public setView(view: CameraViewType, options: CameraTransitionOptionsType = {}) {
+    const distance = this.camera.position.distanceTo(this.target)
+    const to = this.getState()
+    to.position.copy(this.target).addScaledVector(this.getViewDirection(view), distance)
+    this.transitionTo(to, options)
+  }
+
+  /**
+   * 调整相机使物体充满画面
+   */
+  public fitToObject(object: THREE.Object3D, options: CameraFitOptionsType = {}) {
+    const box = new THREE.Box3().setFromObject(object)
+    if (box.isEmpty()) return
+    this.fitToBoundingBox(box, options)
+  }
+
+  /**
+   * 调整相机使包围盒充满画面，默认保持当前观察方向
+   */
+  public fitToBoundingBox(box: THREE.Box3, options: CameraFitOptionsType = {}) {
+    if (box.isEmpty()) return
+
+    const sphere = box.getBoundingSphere(new THREE.Sphere())
+    const radius = Math.max(sphere.radius, 1e-6) * (options.padding ?? 1.2)
+    const direction = options.view
+      ? this.getViewDirection(options.view)
+      : this.camera.position.clone().sub(this.target).normalize()
+
+    const to = this.getState()
+    to.target.copy(sphere.center)
+
+    if (this.projection === 'perspective') {
+      // 水平、垂直视角中较小的一个决定能容纳的包围球大小
+      const vertical = THREE.MathUtils.degToRad(this.perspective.fov) / 2
+      const horizontal = Math.atan(Math.tan(vertical) * this.aspect)
+      const distance = radius / Math.sin(Math.min(vertical, horizontal))
+      to.position.copy(sphere.center).addScaledVector(direction, distance)
+      to.zoom = 1
+    } else {
+      const distance = Math.max(this.camera.position.distanceTo(this.target), radius * 2)
+      to.position.copy(sphere.center).addScaledVector(direction, distance)
+      to.zoom = Math.min(this.frustumHeight, this.frustumHeight * this.aspect) / (radius * 2)
+    }
+
+    this.transitionTo(to, options)
+  }
+
+  /**
+   * 当前视点
+   */
+  public getViewpoint(name?: string): ViewpointType {
+    return {
+      ...(name === undefined ? {} : { name }),
+      projection: this.projection,
+      position: this.camera.position.toArray(),
+      target: this.target.toArray(),
+      zoom: this.camera.zoom,
+      fov: this.perspective.fov,
+      viewHeight: this.getViewHeight(),
+    }
+  }
+
+  /**
+   * 以指定名称保存当前视点，同名视点会被覆盖
+   */
+  public saveViewpoint(name: string) {
+    const viewpoint = this.getViewpoint(name)
+    this.viewpoints.set(name, viewpoint)
+    return viewpoint
+  }
+
+  /**
+   * 恢复视点，可传入已保存的视点名称或视点对象
+   */
+  public restoreViewpoint(
+    viewpoint: string | ViewpointType,
+    options: CameraTransitionOptionsType = {},
+  ) {
+    const target = typeof viewpoint === 'string' ? this.viewpoints.get(viewpoint) : viewpoint
+    if (!target) return false
+
+    this.setProjection(target.projection)
+    const { viewHeight = 0 } = target
+    const zoom =
+      target.projection === 'orthographic' && viewHeight > 0
+        ? this.frustumHeight / viewHeight
+        : target.zoom
+    this.transitionTo(
+      {
+        position: new THREE.Vector3().fromArray(target.position),
+        target: new THREE.Vector3().fromArray(target.target),
+        zoom,
+        fov: target.fov,
+      },
+      options,
+    )
+    return true
+  }
+
+  public removeViewpoint(name: string) {
+    return this.viewpoints.delete(name)
+  }
+
+  public getViewpoints() {
+    return [...this.viewpoints.values()]
+  }
+
+  /**
+   * 导入视点列表，可传入 JSON 字符串或数组，同名视点会被覆盖
+   */
+  public loadViewpoints(viewpoints: string | ViewpointType[]) {
+    const list: ViewpointType[] =
+      typeof viewpoints === 'string' ? JSON.parse(viewpoints) : viewpoints
+    list.forEach((viewpoint, i) => {
+      const name = viewpoint.name ?? `viewpoint-${i + 1}`
+      this.viewpoints.set(name, { ...viewpoint, name })
+    })
+  }
+
+  public toJSON() {
+    return this.getViewpoints()
+  }
+
+  /**
+   * 每帧调用，推进过渡动画并更新控制器
+   */
+  public update() {
+    const delta = this.clock.getDelta()
+
+    if (this.transition) {
+      const { from, to, start, duration } = this.transition
+      const t = Math.min((performance.now() - start) / duration, 1)
+      const k = easeInOutCubic(t)
+      this.applyState({
+        position: from.position.clone().lerp(to.position, k),
+        target: from.target.clone().lerp(to.target, k),
+        zoom: THREE.MathUtils.lerp(from.zoom, to.zoom, k),
+        fov: THREE.MathUtils.lerp(from.fov, to.fov, k),
+      })
+      if (t >= 1) this.finishTransition()
+      return
+    }
+
+    if (this.controls instanceof FlyControls) {
+      // 飞行模式下目标跟随相机，保持原有距离
+      const distance = this.camera.position.distanceTo(this.target)
+      this.controls.update(delta)
+      this.camera.getWorldDirection(this.target)
+      this.target.multiplyScalar(distance).add(this.camera.position)
+    } else {
+      this.controls?.update()
+      if (this.controls) this.target.copy(this.controls.target)
+    }
+  }
+
+  public dispose() {
+    this.transition = null
+    this.disposeControls()
+    this.viewpoints.clear()
+  }
+
+  private getState(): CameraStateType {
+    return {
+      position: this.camera.position.clone(),
+      target: this.target.clone(),
+      zoom: this.camera.zoom,
+      fov: this.perspective.fov,
+    }
+  }
+
+  private applyState(state: CameraStateType) {
+    this.target.copy(state.target)
+    this.camera.position.copy(state.position)
+    this.camera.zoom = state.zoom
+    this.perspective.fov = state.fov
+    this.camera.lookAt(this.target)
+    this.camera.updateProjectionMatrix()
+    if (this.controls instanceof OrbitControls) this.controls.target.copy(this.target)
+    this.dispatchEvent({ type: 'update' })
+  }
+
+  private transitionTo(to: CameraStateType, options: CameraTransitionOptionsType) {
+    const duration = options.duration ?? 600
+    if (options.animate === false || duration <= 0) {
+      this.cancelTransition()
+      this.applyState(to)
+      this.dispatchEvent({ type: 'transitionend' })
+      return
+    }
+
+    this.transition = { from: this.getState(), to, start: performance.now(), duration }
+    // 过渡期间禁用交互，避免与动画互相覆盖
+    if (this.controls) this.controls.enabled = false
+    // 唤醒按需渲染中空闲的渲染循环，之后由 update 逐帧推进
+    this.dispatchEvent({ type: 'update' })
+  }
+
+  private finishTransition() {
+    this.transition = null
+    if (this.controls) this.controls.enabled = true
+    this.dispatchEvent({ type: 'transitionend' })
+  }
+
+  private cancelTransition() {
+    if (!this.transition) return
+    this.applyState(this.transition.to)
+    this.transition = null
+    if (this.controls) this.controls.enabled = true
+  }
+
+  /**
+   * 按当前相机与控制方式重新创建控制器
+   */
+  private createControls() {
+    this.disposeControls()
+    const { domElement } = this.options
+
+    if (this.controlMode === 'fly') {
+      const controls = new FlyControls(this.camera, domElement)
+      controls.movementSpeed = this.options.flySpeed ?? 10
+      controls.rollSpeed = 0.5
+      controls.dragToLook = true
+      this.controls = controls
+    } else if (this.controlMode === 'map') {
+      const controls = new MapControls(this.camera, domElement)
+      controls.enableRotate = false
+      controls.target.copy(this.target)
+      controls.update()
+      this.controls = controls
+    } else {
+      const controls = new OrbitControls(this.camera, domElement)
+      // 构造时会按默认目标（原点）调整一次相机朝向，需要同步目标后重新更新
+      controls.target.copy(this.target)
+      controls.update()
+      this.controls = controls
+    }
+
+    // 交互、阻尼与飞行移动都会触发控制器的 change
+    ;(this.controls as ControlsDispatcherType).addEventListener('change', this.onControlsChange)
+
+    this.clock.getDelta()
+    this.dispatchEvent({ type: 'change', camera: this.camera })
+    this.dispatchEvent({ type: 'update' })
+  }
+
+  private onControlsChange = () => {
+    this.dispatchEvent({ type: 'update' })
+  }
+
+  private disposeControls() {
+    const controls = this.controls as ControlsDispatcherType | null
+    controls?.removeEventListener('change', this.onControlsChange)
+    this.controls?.dispose()
+    this.controls = null
+  }
+
+  private getViewDirection(view: CameraViewType) {
+    const direction = VIEW_DIRECTIONS[view].clone()
+    // 正上、正下方观察时视线与 up 平行，稍作偏移使 lookAt 与 OrbitControls 保持北向朝上
+    if (view === 'top' || view === 'bottom') direction.z = 1e-4
+    return direction.normalize()
+  }
+
+  /**
+   * 正交相机的视口高度与当前到目标的距离保持一致
+   */
+  private syncFrustumToDistance() {
+    const distance = this.camera.position.distanceTo(this.target)
+    const halfFov = THREE.MathUtils.degToRad(this.perspective.fov) / 2
+    this.frustumHeight = 2 * distance * Math.tan(halfFov)
+    this.updateFrustum()
+  }
+
+  private updateFrustum() {
+    const halfHeight = this.frustumHeight / 2
+    this.orthographic.top = halfHeight
+    this.orthographic.bottom = -halfHeight
+    this.orthographic.left = -halfHeight * this.aspect
+    this.orthographic.right = halfHeight * this.aspect
+    this.orthographic.updateProjectionMatrix()
+  }
+}
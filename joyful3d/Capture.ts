@@ -0,0 +1,442 @@
+import * as THREE from 'three'
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js'
+import { createZip, type ZipEntryType } from './zip'
+import type { ViewpointType } from './CameraController'
+import type PostProcessing from './postprocessing/PostProcessing'
+
+export type CaptureImageFormatType = 'png' | 'jpeg'
+
+export interface CaptureImageOptionsType {
+  format?: CaptureImageFormatType // 图片格式，默认 png
+  quality?: number // jpeg 质量 0-1，默认 0.92
+  transparent?: boolean // 是否输出透明背景（jpeg 不支持透明），默认 false
+}
+
+export interface CaptureRenderOptionsType extends CaptureImageOptionsType {
+  width: number // 输出宽度（像素）
+  height: number // 输出高度（像素）
+  tileSize?: number // 分块渲染的最大块尺寸，默认取 4096 与 GPU 最大纹理尺寸中较小的一个
+}
+
+export interface CaptureRecordOptionsType extends CaptureImageOptionsType {
+  output?: 'webm' | 'frames' // webm 视频，或打包为 zip 的逐帧图片，默认 webm
+  duration?: number // 时长（毫秒），默认 4000
+  fps?: number // 帧率，默认 30
+  width?: number // frames 输出的宽度（像素），默认为画布尺寸；webm 始终使用画布尺寸
+  height?: number // frames 输出的高度（像素）
+  bitrate?: number // webm 码率（bit/s），默认 8000000
+  onProgress?: (progress: number) => void // 进度回调，0-1
+}
+
+export interface CaptureTurntableOptionsType extends CaptureRecordOptionsType {
+  target?: THREE.Vector3Like // 旋转中心，默认为当前相机的观察目标
+  axis?: THREE.Vector3Like // 旋转轴，默认 y 轴
+  turns?: number // 圈数，负数为反方向，默认 1
+}
+
+/**
+ * 相机路径的关键帧，可直接使用 CameraController 保存的视点
+ */
+export type CaptureKeyframeType =
+  | ViewpointType
+  | { position: THREE.Vector3Like; target: THREE.Vector3Like }
+
+export interface CaptureContextType {
+  getScene(): THREE.Scene | undefined
+  getCamera(): THREE.PerspectiveCamera | THREE.OrthographicCamera | null
+  getRenderer(): THREE.WebGLRenderer | null
+  getPostProcessing(): PostProcessing | null // 开启后处理时截图与录制同样经过后处理
+  getTarget(): THREE.Vector3 // 当前相机的观察目标
+  beforeRender(): void // 触发渲染前的更新（beforeRender 事件等）
+  pause(): void // 暂停 Viewer 的渲染循环
+  resume(): void
+}
+
+interface CameraPoseType {
+  position: THREE.Vector3
+  target: THREE.Vector3
+}
+
+const MIME_TYPES: Record<CaptureImageFormatType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+}
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+function canvasToBlob(canvas: HTMLCanvasElement, options: CaptureImageOptionsType) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Capture: failed to encode image'))),
+      MIME_TYPES[options.format ?? 'png'],
+      options.quality ?? 0.92,
+    )
+  })
+}
+
+function toVector3(value: THREE.Vector3Like | [number, number, number]) {
+  return Array.isArray(value)
+    ? new THREE.Vector3().fromArray(value)
+    : new THREE.Vector3().copy(value)
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Capture 截图与录制类
+ *
+ * 由 Viewer 创建（viewer.getCapture()），使用 Viewer 的渲染器输出图片与视频，所有结果均为 Blob。
+ *
+ * 主要功能：
+ * - snapshot：按当前画布尺寸截图（png / jpeg）
+ * - render：离屏渲染任意分辨率的图片，超出 GPU 限制时自动分块渲染再拼接
+ * - 透明背景：临时去掉场景背景，利用渲染器的 alpha 通道输出透明图片
+ * - recordTurntable：绕目标旋转一圈录制；recordPath：沿关键帧组成的相机路径录制
+ * - 录制结果为 webm 视频，或打包为 zip 的逐帧图片
+ * - 录制期间暂停 Viewer 的渲染循环与交互，结束后恢复相机
+ * - 开启了后处理（EDL、SSAO、描边、FXAA）时按相同的效果输出，与画面一致
+ *
+ * @param context  访问 Viewer 场景、相机、渲染器的接口
+ */
+export default class Capture {
+  private recording = false
+  private cancelled = false
+
+  constructor(private context: CaptureContextType) {}
+
+  public isRecording() {
+    return this.recording
+  }
+
+  /**
+   * 取消正在进行的录制，录制的 Promise 会以错误结束
+   */
+  public cancel() {
+    if (this.recording) this.cancelled = true
+  }
+
+  /**
+   * 按当前画布尺寸截图
+   */
+  public async snapshot(options: CaptureImageOptionsType = {}) {
+    const { renderer } = this.getRenderContext()
+
+    // WebGL 画布在合成后会被清空，渲染后需在同一个任务中读取
+    this.context.beforeRender()
+    this.withBackground(options.transparent, () => this.renderFrame())
+    return canvasToBlob(renderer.domElement, options)
+  }
+
+  /**
+   * 离屏渲染指定分辨率的图片，宽高比与画布不同时按新的宽高比渲染
+   */
+  public async render(options: CaptureRenderOptionsType) {
+    this.context.beforeRender()
+    const canvas = this.renderToCanvas(options.width, options.height, options)
+    return canvasToBlob(canvas, options)
+  }
+
+  /**
+   * 绕目标旋转录制
+   */
+  public recordTurntable(options: CaptureTurntableOptionsType = {}) {
+    const camera = this.getRenderContext().camera
+    const target = options.target ? toVector3(options.target) : this.context.getTarget()
+    const axis = toVector3(options.axis ?? { x: 0, y: 1, z: 0 }).normalize()
+    const offset = camera.position.clone().sub(target)
+    const turns = options.turns ?? 1
+
+    return this.record(options, true, (t) => ({
+      position: offset
+        .clone()
+        .applyAxisAngle(axis, t * turns * Math.PI * 2)
+        .add(target),
+      target,
+    }))
+  }
+
+  /**
+   * 沿关键帧组成的相机路径录制，位置与目标分别按 Catmull-Rom 曲线平滑插值
+   */
+  public recordPath(keyframes: CaptureKeyframeType[], options: CaptureRecordOptionsType = {}) {
+    if (keyframes.length < 2) {
+      return Promise.reject(new Error('Capture: camera path needs at least 2 keyframes'))
+    }
+
+    const positions = new THREE.CatmullRomCurve3(
+      keyframes.map((keyframe) => toVector3(keyframe.position)),
+      false,
+      'centripetal',
+    )
+    const targets = new THREE.CatmullRomCurve3(
+      keyframes.map((keyframe) => toVector3(keyframe.target)),
+      false,
+      'centripetal',
+    )
+
+    return this.record(options, false, (t) => ({
+      position: positions.getPoint(t),
+      target: targets.getPoint(t),
+    }))
+  }
+
+  public dispose() {
+    this.cancel()
+  }
+
+  private getRenderContext() {
+    const scene = this.context.getScene()
+    const camera = this.context.getCamera()
+    const renderer = this.context.getRenderer()
+    if (!scene || !camera || !renderer) throw new Error('Capture: viewer is disposed')
+    return { scene, camera, renderer }
+  }
+
+  /**
+   * 按画布尺寸渲染一帧到画布，开启后处理时经过 PostProcessing
+   */
+  private renderFrame() {
+    const { scene, camera, renderer } = this.getRenderContext()
+    const postProcessing = this.context.getPostProcessing()
+    if (postProcessing?.isActive()) postProcessing.render()
+    else renderer.render(scene, camera)
+  }
+
+  /**
+   * 透明背景时临时去掉场景背景并把清屏颜色设为全透明
+   */
+  private withBackground<T>(transparent: boolean | undefined, callback: () => T) {
+    const { scene, renderer } = this.getRenderContext()
+    if (!transparent) return callback()
+
+    const background = scene.background
+    const clearColor = renderer.getClearColor(new THREE.Color())
+    const clearAlpha = renderer.getClearAlpha()
+    scene.background = null
+    renderer.setClearColor(0x000000, 0)
+    try {
+      return callback()
+    } finally {
+      scene.background = background
+      renderer.setClearColor(clearColor, clearAlpha)
+    }
+  }
+
+  /**
+   * 分块渲染到离屏目标，再拼接到 2D 画布上
+   *
+   * 渲染到离屏目标时 three.js 不做色调映射与 sRGB 转换，结果是线性颜色；
+   * 先渲染到 HalfFloat 目标，再经 OutputPass 转换到 sRGB 后读取，与屏幕上的画面一致。
+   * 开启后处理时由 PostProcessing 按分块尺寸渲染，其中已包含 OutputPass
+   */
+  private renderToCanvas(width: number, height: number, options: CaptureRenderOptionsType) {
+    const { scene, camera, renderer } = this.getRenderContext()
+    const postProcessing = this.context.getPostProcessing()
+    width = Math.round(width)
+    height = Math.round(height)
+    const tileSize = Math.min(options.tileSize ?? 4096, renderer.capabilities.maxTextureSize)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d')!
+
+    const target = new THREE.WebGLRenderTarget(1, 1, { samples: 4, type: THREE.HalfFloatType })
+    const output = new THREE.WebGLRenderTarget(1, 1)
+    const outputPass = new OutputPass()
+    const previousTarget = renderer.getRenderTarget()
+    const restoreCamera = this.setCameraAspect(camera, width / height)
+
+    try {
+      this.withBackground(options.transparent, () => {
+        for (let y = 0; y < height; y += tileSize) {
+          for (let x = 0; x < width; x += tileSize) {
+            const w = Math.min(tileSize, width - x)
+            const h = Math.min(tileSize, height - y)
+            target.setSize(w, h)
+            output.setSize(w, h)
+            camera.setViewOffset(width, height, x, y, w, h)
+
+            if (postProcessing?.isActive()) {
+              postProcessing.renderTo(output)
+            } else {
+              renderer.setRenderTarget(target)
+              renderer.render(scene, camera)
+              outputPass.render(renderer, output, target, 0, false)
+            }
+
+            const pixels = new Uint8Array(w * h * 4)
+            renderer.readRenderTargetPixels(output, 0, 0, w, h, pixels)
+            const image = context.createImageData(w, h)
+            // WebGL 的行顺序自下而上，需要上下翻转
+            for (let row = 0; row < h; row++) {
+              const source = (h - 1 - row) * w * 4
+              image.data.set(pixels.subarray(source, source + w * 4), row * w * 4)
+            }
+            context.putImageData(image, x, y)
+          }
+        }
+      })
+    } finally {
+      renderer.setRenderTarget(previousTarget)
+      restoreCamera()
+      target.dispose()
+      output.dispose()
+      outputPass.dispose()
+    }
+
+    return canvas
+  }
+
+  /**
+   * 临时修改相机的宽高比，返回恢复函数
+   */
+  private setCameraAspect(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    aspect: number,
+  ) {
+    if (camera instanceof THREE.PerspectiveCamera) {
+      const previous = camera.aspect
+      camera.aspect = aspect
+      camera.updateProjectionMatrix()
+      return () => {
+        camera.clearViewOffset()
+        camera.aspect = previous
+        camera.updateProjectionMatrix()
+      }
+    }
+
+    const { left, right } = camera
+    const halfWidth = ((camera.top - camera.bottom) / 2) * aspect
+    const center = (left + right) / 2
+    camera.left = center - halfWidth
+    camera.right = center + halfWidth
+    camera.updateProjectionMatrix()
+    return () => {
+      camera.clearViewOffset()
+      camera.left = left
+      camera.right = right
+      camera.updateProjectionMatrix()
+    }
+  }
+
+  /**
+   * 逐帧设置相机并录制
+   *
+   * @param options  录制配置
+   * @param loop     是否为循环路径，循环时最后一帧不与第一帧重复
+   * @param getPose  按 0-1 的进度返回相机位置与观察目标
+   */
+  private async record(
+    options: CaptureRecordOptionsType,
+    loop: boolean,
+    getPose: (t: number) => CameraPoseType,
+  ) {
+    if (this.recording) throw new Error('Capture: already recording')
+
+    const { camera } = this.getRenderContext()
+    const fps = options.fps ?? 30
+    const frames = Math.max(Math.round(((options.duration ?? 4000) / 1000) * fps), 1)
+    const position = camera.position.clone()
+    const quaternion = camera.quaternion.clone()
+
+    this.recording = true
+    this.cancelled = false
+    this.context.pause()
+
+    try {
+      const setFrame = (frame: number) => {
+        if (this.cancelled) throw new Error('Capture: recording cancelled')
+        const pose = getPose(loop ? frame / frames : frame / Math.max(frames - 1, 1))
+        camera.position.copy(pose.position)
+        camera.lookAt(pose.target)
+        camera.updateMatrixWorld()
+        this.context.beforeRender()
+        options.onProgress?.((frame + 1) / frames)
+      }
+
+      return options.output === 'frames'
+        ? await this.recordFrames(frames, setFrame, options)
+        : await this.recordVideo(frames, fps, setFrame, options)
+    } finally {
+      camera.position.copy(position)
+      camera.quaternion.copy(quaternion)
+      this.recording = false
+      this.cancelled = false
+      this.context.resume()
+    }
+  }
+
+  private async recordFrames(
+    frames: number,
+    setFrame: (frame: number) => void,
+    options: CaptureRecordOptionsType,
+  ) {
+    const { renderer } = this.getRenderContext()
+    const size = renderer.getDrawingBufferSize(new THREE.Vector2())
+    const width = options.width ?? size.x
+    const height = options.height ?? size.y
+    const extension = options.format === 'jpeg' ? 'jpg' : 'png'
+    const digits = Math.max(String(frames - 1).length, 5)
+    const entries: ZipEntryType[] = []
+
+    for (let frame = 0; frame < frames; frame++) {
+      setFrame(frame)
+      const canvas = this.renderToCanvas(width, height, { ...options, width, height })
+      const blob = await canvasToBlob(canvas, options)
+      entries.push({
+        name: `frame-${String(frame).padStart(digits, '0')}.${extension}`,
+        data: new Uint8Array(await blob.arrayBuffer()),
+      })
+    }
+
+    return createZip(entries)
+  }
+
+  /**
+   * 通过 MediaRecorder 录制画布，每渲染一帧手动提交一次，按帧率实时进行
+   */
+  private async recordVideo(
+    frames: number,
+    fps: number,
+    setFrame: (frame: number) => void,
+    options: CaptureRecordOptionsType,
+  ) {
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error('Capture: MediaRecorder is not supported')
+    }
+    const mimeType = VIDEO_TYPES.find((type) => MediaRecorder.isTypeSupported(type))
+    if (!mimeType) throw new Error('Capture: webm recording is not supported')
+
+    const { renderer } = this.getRenderContext()
+    const stream = renderer.domElement.captureStream(0)
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.bitrate ?? 8000000,
+    })
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()))
+
+    recorder.start()
+    try {
+      for (let frame = 0; frame < frames; frame++) {
+        setFrame(frame)
+        this.withBackground(options.transparent, () => this.renderFrame())
+        track.requestFrame()
+        await wait(1000 / fps)
+      }
+    } finally {
+      recorder.stop()
+      stream.getTracks().forEach((item) => item.stop())
+      await stopped
+    }
+
+    return new Blob(chunks, { type: mimeType })
+  }
+}
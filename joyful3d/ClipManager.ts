@@ -0,0 +1,324 @@
+import * as THREE from 'three'
+import ClipVolume from './ClipVolume'
+import type { ClipVolumeOptionsType, ClipVolumeStateType } from './ClipVolume'
+
+/**
+ * 裁剪方式：inside 只显示内部，outside 只显示外部，highlight 显示全部并高亮内部
+ */
+export type ClipModeType = 'inside' | 'outside' | 'highlight'
+
+export interface ClipManagerOptionsType {
+  scene?: THREE.Scene
+  mode?: ClipModeType
+  highlightColor?: THREE.ColorRepresentation
+}
+
+export interface ClipManagerEventMap {
+  add: { volume: ClipVolume } // 新建裁剪体时触发
+  remove: { volume: ClipVolume } // 删除裁剪体时触发
+  change: { mode: ClipModeType; volume: ClipVolume | null } // 裁剪方式、高亮颜色或裁剪体（volume）变化时触发
+}
+
+/**
+ * 可序列化的裁剪状态
+ */
+export interface ClipStateType {
+  mode: ClipModeType
+  highlightColor: string
+  volumes: ClipVolumeStateType[]
+}
+
+export const CLIP_MAX_BOXES = 8
+export const CLIP_MAX_PLANES = 8
+
+const CLIP_MODES: Record<ClipModeType, number> = { inside: 1, outside: 2, highlight: 3 }
+
+const CLIP_PARS_VERTEX = /* glsl */ `
+#define CLIP_MAX_BOXES ${CLIP_MAX_BOXES}
+#define CLIP_MAX_PLANES ${CLIP_MAX_PLANES}
+uniform int clipMode; // 0: 不裁剪, 1: 只显示内部, 2: 只显示外部, 3: 高亮内部
+uniform int clipBoxCount;
+uniform mat4 clipBoxes[CLIP_MAX_BOXES]; // 世界坐标到单位立方体的变换
+uniform int clipPlaneCount;
+uniform vec4 clipPlanes[CLIP_MAX_PLANES]; // n·p + constant > 0 为外侧
+uniform vec3 clipHighlightColor;
+
+bool isInsideClipVolume(vec3 p) {
+  for (int i = 0; i < CLIP_MAX_PLANES; i++) {
+    if (i >= clipPlaneCount) break;
+    if (dot(clipPlanes[i].xyz, p) + clipPlanes[i].w > 0.0) return false;
+  }
+  if (clipBoxCount == 0) return true;
+  for (int i = 0; i < CLIP_MAX_BOXES; i++) {
+    if (i >= clipBoxCount) break;
+    vec3 local = (clipBoxes[i] * vec4(p, 1.0)).xyz;
+    if (all(lessThanEqual(abs(local), vec3(0.5)))) return true;
+  }
+  return false;
+}
+`
+
+// 放在 main 的末尾，此时颜色（包括色带）已经计算完毕
+const CLIP_VERTEX = /* glsl */ `
+if (clipMode != 0) {
+  bool clipInside = isInsideClipVolume((modelMatrix * vec4(position, 1.0)).xyz);
+  if ((clipMode == 1 && !clipInside) || (clipMode == 2 && clipInside)) {
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0); // 移出裁剪空间，该点不会被绘制
+  }
+  #if defined( USE_COLOR_ALPHA ) || defined( USE_COLOR )
+  if (clipMode == 3 && clipInside) vColor.rgb = mix(vColor.rgb, clipHighlightColor, 0.7);
+  #endif
+}
+`
+
+/**
+ * ClipManager 裁剪管理类
+ *
+ * 管理若干裁剪盒与裁剪平面，在着色器中按点的世界坐标裁剪或高亮点云，由 Viewer 创建，
+ * 通过 viewer.getClipping() 获取。
+ *
+ * 内部区域为所有启用的裁剪平面背面的交集，再与所有启用的裁剪盒的并集求交（没有裁剪盒时不限制）。
+ *
+ * 主要功能：
+ * - 添加、删除轴对齐或任意朝向的裁剪盒（最多 8 个）与裁剪平面（最多 8 个）
+ * - inside / outside / highlight 三种裁剪方式，切换时只更新 uniform
+ * - 通过 patch 注入 PointsMaterial 或 ShaderMaterial（如 Points 的 alpha 材质），
+ *   update 时自动注入场景中所有点云的材质
+ * - 裁剪体的位置、朝向、尺寸每帧同步到 uniform，可直接用 TransformControls 拖动
+ * - 支持通过 toJSON / fromJSON 保存和恢复
+ *
+ * 构造参数 ClipManagerOptionsType:
+ * @param scene           THREE.Scene 实例，裁剪体的边框会添加到该场景
+ * @param mode            裁剪方式，默认 inside
+ * @param highlightColor  highlight 方式下内部点的颜色，默认 #ff6600
+ */
+export default class ClipManager extends THREE.EventDispatcher<ClipManagerEventMap> {
+  private volumes: ClipVolume[] = []
+  private mode: ClipModeType
+  private patched = new WeakSet<THREE.Material>()
+  private group = new THREE.Group()
+  private listeners = new Map<ClipVolume, () => void>()
+
+  public uniforms = {
+    clipMode: { value: 0 },
+    clipBoxCount: { value: 0 },
+    clipBoxes: { value: Array.from({ length: CLIP_MAX_BOXES }, () => new THREE.Matrix4()) },
+    clipPlaneCount: { value: 0 },
+    clipPlanes: { value: Array.from({ length: CLIP_MAX_PLANES }, () => new THREE.Vector4()) },
+    clipHighlightColor: { value: new THREE.Color(0xff6600) },
+  }
+
+  constructor(private options: ClipManagerOptionsType = {}) {
+    super()
+    this.mode = this.options.mode ?? 'inside'
+    if (this.options.highlightColor !== undefined) {
+      this.uniforms.clipHighlightColor.value.set(this.options.highlightColor)
+    }
+    this.group.name = 'clipping'
+    this.options.scene?.add(this.group)
+  }
+
+  /**
+   * 添加裁剪盒
+   */
+  public addBox(options: Omit<ClipVolumeOptionsType, 'type'> = {}) {
+    if (this.count('box') >= CLIP_MAX_BOXES) {
+      throw new Error(`ClipManager: at most ${CLIP_MAX_BOXES} clip boxes are supported`)
+    }
+    return this.add(new ClipVolume({ ...options, type: 'box' }))
+  }
+
+  /**
+   * 添加裁剪平面
+   */
+  public addPlane(options: Omit<ClipVolumeOptionsType, 'type'> = {}) {
+    if (this.count('plane') >= CLIP_MAX_PLANES) {
+      throw new Error(`ClipManager: at most ${CLIP_MAX_PLANES} clip planes are supported`)
+    }
+    return this.add(new ClipVolume({ ...options, type: 'plane' }))
+  }
+
+  public get(name: string) {
+    return this.volumes.find((volume) => volume.name === name) ?? null
+  }
+
+  public getVolumes() {
+    return [...this.volumes]
+  }
+
+  /**
+   * 删除并释放裁剪体
+   */
+  public remove(target: ClipVolume | string) {
+    const volume = typeof target === 'string' ? this.get(target) : target
+    if (!volume || !this.volumes.includes(volume)) return false
+
+    this.volumes.splice(this.volumes.indexOf(volume), 1)
+    volume.removeEventListener('change', this.listeners.get(volume)!)
+    this.listeners.delete(volume)
+    volume.dispose()
+    this.dispatchEvent({ type: 'remove', volume })
+    return true
+  }
+
+  public clear() {
+    ;[...this.volumes].forEach((volume) => this.remove(volume))
+  }
+
+  public getMode() {
+    return this.mode
+  }
+
+  public setMode(mode: ClipModeType) {
+    if (mode === this.mode) return
+    this.mode = mode
+    this.dispatchEvent({ type: 'change', mode, volume: null })
+  }
+
+  public setHighlightColor(color: THREE.ColorRepresentation) {
+    this.uniforms.clipHighlightColor.value.set(color)
+    this.dispatchEvent({ type: 'change', mode: this.mode, volume: null })
+  }
+
+  /**
+   * 世界坐标系中的点是否在内部区域，没有启用的裁剪体时返回 true
+   */
+  public containsPoint(point: THREE.Vector3Like) {
+    const enabled = this.volumes.filter((volume) => volume.isEnabled())
+    const planes = enabled.filter((volume) => volume.type === 'plane')
+    const boxes = enabled.filter((volume) => volume.type === 'box')
+    return (
+      planes.every((plane) => plane.containsPoint(point)) &&
+      (boxes.length === 0 || boxes.some((box) => box.containsPoint(point)))
+    )
+  }
+
+  /**
+   * 创建按当前裁剪方式判断点是否可见的函数，用于批量判断（如框选时跳过被裁掉的点）
+   *
+   * 没有启用的裁剪体或为 highlight 方式时所有点都可见，返回 null
+   */
+  public createPointFilter() {
+    const enabled = this.volumes.filter((volume) => volume.isEnabled())
+    if (enabled.length === 0 || this.mode === 'highlight') return null
+
+    const boxes = enabled.filter((v) => v.type === 'box').map((v) => v.getInverseMatrix())
+    const planes = enabled.filter((v) => v.type === 'plane').map((v) => v.getPlane())
+    const inside = this.mode === 'inside'
+    const local = new THREE.Vector3()
+
+    return (point: THREE.Vector3Like) => {
+      const contained =
+        planes.every((p) => p.x * point.x + p.y * point.y + p.z * point.z + p.w <= 0) &&
+        (boxes.length === 0 ||
+          boxes.some((matrix) => {
+            local.copy(point).applyMatrix4(matrix)
+            return Math.abs(local.x) <= 0.5 && Math.abs(local.y) <= 0.5 && Math.abs(local.z) <= 0.5
+          }))
+      return contained === inside
+    }
+  }
+
+  /**
+   * 向材质注入裁剪代码，重复调用不会重复注入
+   *
+   * 注入的代码位于顶点着色器 main 的末尾，依赖 modelMatrix 与 position，
+   * 因此只支持 PointsMaterial 与 ShaderMaterial，不支持 RawShaderMaterial
+   */
+  public patch(material: THREE.Material) {
+    if (this.patched.has(material)) return
+    this.patched.add(material)
+
+    const onBeforeCompile = material.onBeforeCompile
+    const customProgramCacheKey = material.customProgramCacheKey
+
+    material.onBeforeCompile = (shader, renderer) => {
+      onBeforeCompile.call(material, shader, renderer)
+      Object.assign(shader.uniforms, this.uniforms)
+
+      shader.vertexShader = shader.vertexShader
+        .replace(/void\s+main\s*\(\s*\)\s*\{/, (main) => `${CLIP_PARS_VERTEX}\n${main}`)
+        .replace(/\}\s*$/, `${CLIP_VERTEX}\n}`)
+    }
+    // 区分注入前后的着色器程序，避免与未注入的同类材质共用缓存
+    material.customProgramCacheKey = () => `${customProgramCacheKey.call(material)}|clipping`
+    material.needsUpdate = true
+  }
+
+  /**
+   * 注入场景中所有点云的材质，并把裁剪体同步到 uniform，每帧渲染前调用
+   */
+  public update(scene?: THREE.Object3D) {
+    const boxes: ClipVolume[] = []
+    const planes: ClipVolume[] = []
+    this.volumes.forEach((volume) => {
+      if (!volume.isEnabled()) return
+      if (volume.type === 'box') boxes.push(volume)
+      else planes.push(volume)
+    })
+
+    const active = boxes.length > 0 || planes.length > 0
+    this.uniforms.clipMode.value = active ? CLIP_MODES[this.mode] : 0
+    if (!active) return
+
+    scene?.traverse((object) => {
+      if (!(object instanceof THREE.Points)) return
+      const materials = Array.isArray(object.material) ? object.material : [object.material]
+      materials.forEach((material) => {
+        const supported =
+          material instanceof THREE.PointsMaterial ||
+          (material instanceof THREE.ShaderMaterial &&
+            !(material instanceof THREE.RawShaderMaterial))
+        if (supported) this.patch(material)
+      })
+    })
+
+    boxes.forEach((box, i) => box.getInverseMatrix(this.uniforms.clipBoxes.value[i]))
+    planes.forEach((plane, i) => plane.getPlane(this.uniforms.clipPlanes.value[i]))
+    this.uniforms.clipBoxCount.value = boxes.length
+    this.uniforms.clipPlaneCount.value = planes.length
+  }
+
+  public toJSON(): ClipStateType {
+    return {
+      mode: this.mode,
+      highlightColor: `#${this.uniforms.clipHighlightColor.value.getHexString()}`,
+      volumes: this.volumes.map((volume) => volume.toJSON()),
+    }
+  }
+
+  /**
+   * 恢复裁剪状态，会先删除现有的裁剪体
+   */
+  public fromJSON(json: Partial<ClipStateType>) {
+    if (json.mode) this.setMode(json.mode)
+    if (json.highlightColor) this.setHighlightColor(json.highlightColor)
+    if (!json.volumes) return
+
+    this.clear()
+    json.volumes.forEach((state) => {
+      const options = { name: state.name }
+      const volume = state.type === 'box' ? this.addBox(options) : this.addPlane(options)
+      volume.fromJSON(state)
+    })
+  }
+
+  public dispose() {
+    this.clear()
+    this.group.removeFromParent()
+  }
+
+  private add(volume: ClipVolume) {
+    const listener = () => this.dispatchEvent({ type: 'change', mode: this.mode, volume })
+    volume.addEventListener('change', listener)
+    this.listeners.set(volume, listener)
+    this.volumes.push(volume)
+    this.group.add(volume.getObject())
+    this.dispatchEvent({ type: 'add', volume })
+    return volume
+  }
+
+  private count(type: ClipVolume['type']) {
+    return this.volumes.filter((volume) => volume.type === type).length
+  }
+}
@@ -0,0 +1,248 @@
+import * as THREE from 'three'
+
+export type ClipVolumeKindType = 'box' | 'plane'
+
+export interface ClipVolumeOptionsType {
+  type: ClipVolumeKindType
+  name?: string
+  position?: THREE.Vector3Like
+  rotation?: THREE.Vector3Like
+  normal?: THREE.Vector3Like
+  size?: THREE.Vector3Like
+  enabled?: boolean
+  color?: THREE.ColorRepresentation
+}
+
+export interface ClipVolumeEventMap {
+  change: object // 通过方法修改变换、启用或显示状态时触发，直接修改 getObject() 的变换不会触发
+}
+
+/**
+ * 可序列化的裁剪体状态
+ */
+export interface ClipVolumeStateType {
+  type: ClipVolumeKindType
+  name: string
+  position: [number, number, number]
+  quaternion: [number, number, number, number]
+  size: [number, number, number]
+  enabled: boolean
+  visible: boolean
+}
+
+const PLANE_NORMAL = new THREE.Vector3(0, 0, 1) // 平面在局部坐标系中的法线
+const MIN_SIZE = 1e-6 // 避免缩放为 0 导致矩阵不可逆
+
+let volumeId = 0
+
+function createBoxGeometry() {
+  return new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1))
+}
+
+/**
+ * 平面的边框与法线，位于局部 XY 平面，法线沿 +Z
+ */
+function createPlaneGeometry() {
+  // prettier-ignore
+  const vertices = [
+    -0.5, -0.5, 0, 0.5, -0.5, 0,
+    0.5, -0.5, 0, 0.5, 0.5, 0,
+    0.5, 0.5, 0, -0.5, 0.5, 0,
+    -0.5, 0.5, 0, -0.5, -0.5, 0,
+    0, 0, 0, 0, 0, 0.5,
+  ]
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3))
+  return geometry
+}
+
+/**
+ * ClipVolume 裁剪体类
+ *
+ * 裁剪盒或裁剪平面，由 ClipManager 创建，通过 viewer.addClipBox / viewer.addClipPlane 获取。
+ * 裁剪体本身是场景中的一个 THREE.Group，位置、旋转、缩放即裁剪体的变换，
+ * 可直接交给 TransformControls 拖动（见 useTransformControls）。
+ *
+ * 主要功能：
+ * - 裁剪盒：中心为 position，尺寸为 size（即 Group 的缩放），可旋转为任意朝向
+ * - 裁剪平面：经过 position，法线为局部 +Z 方向，法线指向外侧，平面背面为内部
+ * - 显示 / 隐藏边框，启用 / 停用裁剪
+ * - 判断世界坐标系中的点是否在裁剪体内部，与着色器中的判断一致
+ * - 支持通过 toJSON / fromJSON 保存和恢复
+ * - 修改后触发 change 事件，ClipManager 据此请求 Viewer 渲染
+ *
+ * 构造参数 ClipVolumeOptionsType:
+ * @param type      box 或 plane
+ * @param name      名称，默认自动生成
+ * @param position  裁剪盒中心或平面经过的点，默认原点
+ * @param rotation  欧拉角（弧度），默认不旋转
+ * @param normal    平面法线，设置后忽略 rotation
+ * @param size      裁剪盒尺寸，平面时为边框的显示尺寸，默认 1
+ * @param enabled   是否参与裁剪，默认 true
+ * @param color     边框颜色，默认 #ffaa00
+ */
+export default class ClipVolume extends THREE.EventDispatcher<ClipVolumeEventMap> {
+  public readonly type: ClipVolumeKindType
+  public readonly name: string
+
+  private group = new THREE.Group()
+  private helper: THREE.LineSegments
+  private enabled: boolean
+
+  constructor(private options: ClipVolumeOptionsType) {
+    super()
+    this.type = this.options.type
+    this.name = this.options.name || `${this.type}-${++volumeId}`
+    this.enabled = this.options.enabled ?? true
+
+    this.helper = new THREE.LineSegments(
+      this.type === 'box' ? createBoxGeometry() : createPlaneGeometry(),
+      new THREE.LineBasicMaterial({ color: this.options.color ?? 0xffaa00 }),
+    )
+    this.helper.raycast = () => {} // 边框不参与拾取
+    this.group.name = this.name
+    this.group.add(this.helper)
+
+    if (this.options.position) this.setPosition(this.options.position)
+    if (this.options.rotation) this.setRotation(this.options.rotation)
+    if (this.options.normal) this.setNormal(this.options.normal)
+    if (this.options.size) this.setSize(this.options.size)
+  }
+
+  public getObject() {
+    return this.group
+  }
+
+  public setPosition(position: THREE.Vector3Like) {
+    this.group.position.copy(position)
+    this.dispatchEvent({ type: 'change' })
+  }
+
+  public getPosition() {
+    return this.group.position.clone()
+  }
+
+  /**
+   * 设置朝向，欧拉角（弧度）
+   */
+  public setRotation(rotation: THREE.Vector3Like) {
+    this.group.rotation.set(rotation.x, rotation.y, rotation.z)
+    this.dispatchEvent({ type: 'change' })
+  }
+
+  /**
+   * 设置平面法线（世界坐标系，不考虑父节点的旋转）
+   */
+  public setNormal(normal: THREE.Vector3Like) {
+    const direction = new THREE.Vector3().copy(normal).normalize()
+    this.group.quaternion.setFromUnitVectors(PLANE_NORMAL, direction)
+    this.dispatchEvent({ type: 'change' })
+  }
+
+  /**
+   * 世界坐标系中的法线，裁剪盒时为局部 +Z 方向
+   */
+  public getNormal() {
+    const quaternion = this.group.getWorldQuaternion(new THREE.Quaternion())
+    return PLANE_NORMAL.clone().applyQuaternion(quaternion)
+  }
+
+  /**
+   * 设置尺寸，尺寸即 Group 的缩放
+   */
+  public setSize(size: THREE.Vector3Like) {
+    this.group.scale.set(
+      Math.max(Math.abs(size.x), MIN_SIZE),
+      Math.max(Math.abs(size.y), MIN_SIZE),
+      Math.max(Math.abs(size.z), MIN_SIZE),
+    )
+    this.dispatchEvent({ type: 'change' })
+  }
+
+  public getSize() {
+    return this.group.scale.clone()
+  }
+
+  public isEnabled() {
+    return this.enabled
+  }
+
+  public setEnabled(enabled: boolean) {
+    this.enabled = enabled
+    this.dispatchEvent({ type: 'change' })
+  }
+
+  /**
+   * 显示 / 隐藏边框，不影响裁剪
+   */
+  public setVisible(visible: boolean) {
+    this.group.visible = visible
+    this.dispatchEvent({ type: 'change' })
+  }
+
+  public isVisible() {
+    return this.group.visible
+  }
+
+  /**
+   * 世界坐标系到裁剪盒单位立方体（-0.5 ~ 0.5）的变换矩阵
+   */
+  public getInverseMatrix(target = new THREE.Matrix4()) {
+    this.group.updateWorldMatrix(true, false)
+    return target.copy(this.group.matrixWorld).invert()
+  }
+
+  /**
+   * 世界坐标系中的平面，(nx, ny, nz, constant)，点 p 满足 n·p + constant > 0 时位于外侧
+   */
+  public getPlane(target = new THREE.Vector4()) {
+    this.group.updateWorldMatrix(true, false)
+    const normal = this.getNormal()
+    const position = new THREE.Vector3().setFromMatrixPosition(this.group.matrixWorld)
+    return target.set(normal.x, normal.y, normal.z, -normal.dot(position))
+  }
+
+  /**
+   * 世界坐标系中的点是否在裁剪体内部
+   */
+  public containsPoint(point: THREE.Vector3Like) {
+    if (this.type === 'plane') {
+      const plane = this.getPlane()
+      return plane.x * point.x + plane.y * point.y + plane.z * point.z + plane.w <= 0
+    }
+
+    const local = new THREE.Vector3().copy(point).applyMatrix4(this.getInverseMatrix())
+    return Math.abs(local.x) <= 0.5 && Math.abs(local.y) <= 0.5 && Math.abs(local.z) <= 0.5
+  }
+
+  public toJSON(): ClipVolumeStateType {
+    const { position, quaternion, scale } = this.group
+    return {
+      type: this.type,
+      name: this.name,
+      position: position.toArray(),
+      quaternion: quaternion.toArray() as [number, number, number, number],
+      size: scale.toArray(),
+      enabled: this.enabled,
+      visible: this.group.visible,
+    }
+  }
+
+  /**
+   * 恢复变换与显示状态，type 与 name 不可修改
+   */
+  public fromJSON(state: Partial<ClipVolumeStateType>) {
+    if (state.position) this.group.position.fromArray(state.position)
+    if (state.quaternion) this.group.quaternion.fromArray(state.quaternion)
+    if (state.position || state.quaternion) this.dispatchEvent({ type: 'change' })
+    if (state.size) this.setSize(new THREE.Vector3().fromArray(state.size))
+    if (state.enabled !== undefined) this.setEnabled(state.enabled)
+    if (state.visible !== undefined) this.setVisible(state.visible)
+  }
+
+  public dispose() {
+    this.group.removeFromParent()
+    this.helper.geometry.dispose()
+    ;(this.helper.material as THREE.Material).dispose()
+  }
+}
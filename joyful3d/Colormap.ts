@@ -0,0 +1,228 @@
+import * as THREE from 'three'
+
+export type ColormapType = 'viridis' | 'jet' | 'turbo' | 'grayscale'
+
+/**
+ * 色带控制点：[位置(0-1), sRGB 颜色]
+ */
+export type ColormapStops = [number, THREE.ColorRepresentation][]
+
+export interface ColormapOptionsType {
+  colormap?: ColormapType | ColormapStops
+  range?: [number, number]
+  clamp?: boolean
+}
+
+const LUT_SIZE = 256
+
+const COLORMAP_STOPS: Record<Exclude<ColormapType, 'turbo'>, ColormapStops> = {
+  viridis: [
+    [0, '#440154'],
+    [0.125, '#472d7b'],
+    [0.25, '#3b528b'],
+    [0.375, '#2c728e'],
+    [0.5, '#21918c'],
+    [0.625, '#28ae80'],
+    [0.75, '#5ec962'],
+    [0.875, '#addc30'],
+    [1, '#fde725'],
+  ],
+  jet: [
+    [0, '#00007f'],
+    [0.125, '#0000ff'],
+    [0.375, '#00ffff'],
+    [0.625, '#ffff00'],
+    [0.875, '#ff0000'],
+    [1, '#7f0000'],
+  ],
+  grayscale: [
+    [0, '#000000'],
+    [1, '#ffffff'],
+  ],
+}
+
+/**
+ * turbo 色带使用 Google 给出的多项式近似，结果为 sRGB
+ */
+function turbo(t: number): [number, number, number] {
+  const poly = (c: number[]) => c[0] + t * (c[1] + t * (c[2] + t * (c[3] + t * (c[4] + t * c[5]))))
+
+  return [
+    poly([0.13572138, 4.6153926, -42.66032258, 132.13108234, -152.94239396, 59.28637943]),
+    poly([0.09140261, 2.19418839, 4.84296658, -14.18503333, 4.27729857, 2.82956604]),
+    poly([0.1066733, 12.64194608, -60.58204836, 110.36276771, -89.90310912, 27.34824973]),
+  ]
+}
+
+function sampleStops(stops: ColormapStops, t: number, target: THREE.Color) {
+  if (t <= stops[0][0]) return target.set(stops[0][1])
+
+  for (let i = 1; i < stops.length; i++) {
+    const [t1, c1] = stops[i]
+    if (t > t1) continue
+
+    const [t0, c0] = stops[i - 1]
+    const alpha = t1 > t0 ? (t - t0) / (t1 - t0) : 0
+    return target.set(c0).lerp(new THREE.Color(c1), alpha)
+  }
+
+  return target.set(stops[stops.length - 1][1])
+}
+
+/**
+ * 生成色带查找表，每个颜色占 4 个字节（RGBA），颜色为线性空间
+ *
+ * 顶点颜色按线性空间参与计算，因此 LUT 同样存储线性值；也可在 Worker 中用于 CPU 着色
+ */
+export function createColormapLUT(colormap: ColormapType | ColormapStops, size = LUT_SIZE) {
+  const data = new Uint8Array(size * 4)
+  const color = new THREE.Color()
+
+  for (let i = 0; i < size; i++) {
+    const t = i / (size - 1)
+    if (colormap === 'turbo') {
+      const [r, g, b] = turbo(t)
+      color.setRGB(r, g, b, THREE.SRGBColorSpace)
+    } else {
+      sampleStops(typeof colormap === 'string' ? COLORMAP_STOPS[colormap] : colormap, t, color)
+    }
+
+    data[i * 4] = THREE.MathUtils.clamp(color.r, 0, 1) * 255
+    data[i * 4 + 1] = THREE.MathUtils.clamp(color.g, 0, 1) * 255
+    data[i * 4 + 2] = THREE.MathUtils.clamp(color.b, 0, 1) * 255
+    data[i * 4 + 3] = 255
+  }
+
+  return data
+}
+
+const COLORMAP_PARS_VERTEX = /* glsl */ `
+uniform int colormapMode; // 0: rgb, 1: 沿轴向高度, 2: scalar 属性
+uniform vec3 colormapAxis;
+uniform vec2 colormapRange;
+uniform bool colormapClamp;
+uniform sampler2D colormapTexture;
+attribute float scalar;
+varying float vColormapOutside;
+`
+
+const COLORMAP_VERTEX = /* glsl */ `
+vColormapOutside = 0.0;
+if (colormapMode != 0) {
+  float value = colormapMode == 1 ? dot(position, colormapAxis) : scalar;
+  float t = (value - colormapRange.x) / max(colormapRange.y - colormapRange.x, 1e-6);
+  if (!colormapClamp && (t < 0.0 || t > 1.0)) vColormapOutside = 1.0;
+  vColor.rgb = texture2D(colormapTexture, vec2(clamp(t, 0.0, 1.0), 0.5)).rgb;
+}
+`
+
+const COLORMAP_PARS_FRAGMENT = /* glsl */ `
+varying float vColormapOutside;
+`
+
+const COLORMAP_FRAGMENT = /* glsl */ `
+if (vColormapOutside > 0.5) discard;
+`
+
+/**
+ * Colormap 标量色带类
+ *
+ * 通过查找表纹理（LUT）将高度或标量属性映射为颜色，颜色计算在着色器中完成。
+ *
+ * 主要功能：
+ * - 内置 viridis / jet / turbo / grayscale 色带，也支持自定义控制点
+ * - 支持设置数值范围，以及超出范围时截断（clamp）或隐藏
+ * - 修改色带、范围只会更新 uniform，不会重写颜色缓冲区
+ * - 通过 patch 方法注入 PointsMaterial 或使用颜色 chunk 的 ShaderMaterial
+ *
+ * 构造参数 ColormapOptionsType:
+ * @param colormap  色带名称或控制点，默认 viridis
+ * @param range     数值范围 [min, max]，默认 [0, 1]
+ * @param clamp     超出范围时是否截断到两端颜色，false 时隐藏超出范围的点，默认 true
+ */
+export default class Colormap {
+  private texture: THREE.DataTexture
+
+  public uniforms = {
+    colormapMode: { value: 0 },
+    colormapAxis: { value: new THREE.Vector3(0, 1, 0) },
+    colormapRange: { value: new THREE.Vector2(0, 1) },
+    colormapClamp: { value: true },
+    colormapTexture: { value: null as THREE.Texture | null },
+  }
+
+  constructor(options: ColormapOptionsType = {}) {
+    this.texture = new THREE.DataTexture(new Uint8Array(LUT_SIZE * 4), LUT_SIZE, 1)
+    this.texture.magFilter = THREE.LinearFilter
+    this.texture.minFilter = THREE.LinearFilter
+    this.uniforms.colormapTexture.value = this.texture
+
+    this.setColormap(options.colormap || 'viridis')
+    if (options.range) this.setRange(options.range[0], options.range[1])
+    if (options.clamp !== undefined) this.setClamp(options.clamp)
+  }
+
+  /**
+   * 设置色带，只更新 LUT 纹理
+   */
+  public setColormap(colormap: ColormapType | ColormapStops) {
+    ;(this.texture.image.data as Uint8Array).set(createColormapLUT(colormap))
+    this.texture.needsUpdate = true
+  }
+
+  public setRange(min: number, max: number) {
+    this.uniforms.colormapRange.value.set(min, max)
+  }
+
+  public getRange(): [number, number] {
+    const { x, y } = this.uniforms.colormapRange.value
+    return [x, y]
+  }
+
+  public setClamp(clamp: boolean) {
+    this.uniforms.colormapClamp.value = clamp
+  }
+
+  /**
+   * 设置着色模式
+   *
+   * @param mode  rgb 使用顶点颜色，height 使用坐标在 axis 上的投影，scalar 使用 scalar 顶点属性
+   * @param axis  height 模式下的方向，会被归一化
+   */
+  public setMode(mode: 'rgb' | 'height' | 'scalar', axis?: THREE.Vector3Like) {
+    this.uniforms.colormapMode.value = mode === 'rgb' ? 0 : mode === 'height' ? 1 : 2
+    if (axis) this.uniforms.colormapAxis.value.copy(axis).normalize()
+  }
+
+  /**
+   * 向材质注入色带着色代码
+   *
+   * 材质的着色器需要包含 color_pars_vertex / color_vertex / color_pars_fragment 这几个 chunk，
+   * PointsMaterial 自带，ShaderMaterial 需自行 include
+   */
+  public patch(material: THREE.Material) {
+    const onBeforeCompile = material.onBeforeCompile
+
+    material.onBeforeCompile = (shader, renderer) => {
+      onBeforeCompile.call(material, shader, renderer)
+      Object.assign(shader.uniforms, this.uniforms)
+
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <color_pars_vertex>',
+          `#include <color_pars_vertex>\n${COLORMAP_PARS_VERTEX}`,
+        )
+        .replace('#include <color_vertex>', `#include <color_vertex>\n${COLORMAP_VERTEX}`)
+      shader.fragmentShader = shader.fragmentShader
+        .replace(
+          '#include <color_pars_fragment>',
+          `#include <color_pars_fragment>\n${COLORMAP_PARS_FRAGMENT}`,
+        )
+        .replace(/void\s+main\s*\(\s*\)\s*\{/, (main) => `${main}\n${COLORMAP_FRAGMENT}`)
+    }
+  }
+
+  public dispose() {
+    this.texture.dispose()
+  }
+}
@@ -0,0 +1,380 @@
+import * as THREE from 'three'
+import Sprite from './Sprite'
+import type Viewer from './Viewer'
+import type { SpriteOptionsType, SpriteStateType } from './Sprite'
+
+export interface LabelManagerOptionsType {
+  viewer?: Viewer
+  scene?: THREE.Scene
+  declutter?: boolean
+  occlusion?: boolean
+  occluders?: THREE.Object3D[]
+  occlusionInterval?: number
+  maxVisible?: number
+  margin?: number
+  fadeDuration?: number
+}
+
+export interface LabelOptionsType {
+  priority?: number
+  alwaysVisible?: boolean // 不参与避让、遮挡与数量限制
+}
+
+/**
+ * 可序列化的标签状态，其中的 visible 由管理器计算，恢复时忽略
+ */
+export interface LabelStateType extends SpriteStateType {
+  priority: number
+  alwaysVisible: boolean
+}
+
+interface LabelItemType {
+  sprite: Sprite
+  priority: number
+  alwaysVisible: boolean
+  opacity: number // 当前透明度，0-1
+  occluded: boolean
+}
+
+interface RectType {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * LabelManager 标签管理类
+ *
+ * 统一管理场景中的 Sprite 标签，每帧把标签投影到屏幕空间，按优先级避让重叠的标签。
+ *
+ * 主要功能：
+ * - 按优先级（相同时按距离由近到远）放置标签，与已放置的标签重叠时隐藏
+ * - 可选的遮挡检测：被 occluders 中的网格挡住的标签会被隐藏，检测分摊到多帧执行
+ * - 限制同时显示的标签数量
+ * - 标签显示、隐藏时淡入淡出
+ * - 可作为对象加入图层，图层的透明度与淡入淡出的透明度相乘
+ * - 传入 viewer 时自动加入场景并每帧更新，否则需手动调用 update
+ * - 按需渲染时，淡入淡出与遮挡检测完成前会持续请求渲染
+ * - 支持通过 toJSON / fromJSON 保存和恢复所有标签
+ *
+ * 构造参数 LabelManagerOptionsType:
+ * @param viewer             Viewer 实例（可选）
+ * @param scene              THREE.Scene 实例（可选），未传入 viewer 时使用
+ * @param declutter          是否避让重叠的标签，默认 true
+ * @param occlusion          是否隐藏被遮挡的标签，默认 false
+ * @param occluders          参与遮挡检测的物体，默认为场景中的所有网格（Mesh）
+ * @param occlusionInterval  每个标签遮挡检测的间隔帧数，默认 10
+ * @param maxVisible         同时显示的最大标签数，默认不限
+ * @param margin             标签之间的最小间距（像素），默认 4
+ * @param fadeDuration       淡入淡出的时长（毫秒），默认 200
+ */
+export default class LabelManager {
+  private group = new THREE.Group()
+  private labels = new Map<Sprite, LabelItemType>()
+  private raycaster = new THREE.Raycaster()
+  private size = new THREE.Vector2()
+  private cameraPosition = new THREE.Vector3()
+  private labelPosition = new THREE.Vector3()
+  private cameraMatrix = new THREE.Matrix4()
+  private frame = 0
+  private lastTime = 0
+  private opacity = 1 // 整体透明度，如所在图层的透明度
+  private settled = true // 上一次 update 后所有标签是否已到达目标透明度、遮挡检测是否已完成
+  private occlusionFrames = 0 // 完成一轮遮挡检测还需的帧数，相机移动或标签变化后重新计数
+
+  private declutter: boolean
+  private occlusion: boolean
+  private occlusionInterval: number
+  private maxVisible: number
+  private margin: number
+  private fadeDuration: number
+
+  constructor(private options: LabelManagerOptionsType = {}) {
+    this.declutter = this.options.declutter ?? true
+    this.occlusion = this.options.occlusion ?? false
+    this.occlusionInterval = Math.max(this.options.occlusionInterval ?? 10, 1)
+    this.maxVisible = this.options.maxVisible ?? Infinity
+    this.margin = this.options.margin ?? 4
+    this.fadeDuration = this.options.fadeDuration ?? 200
+
+    const scene = this.options.viewer?.getScene() ?? this.options.scene
+    scene?.add(this.group)
+
+    this.options.viewer?.addEventListener('beforeRender', this.onBeforeRender)
+  }
+
+  private onBeforeRender = () => {
+    const camera = this.options.viewer?.getCamera()
+    const renderer = this.options.viewer?.getRenderer()
+    if (camera && renderer) this.update(camera, renderer)
+  }
+
+  public getObject() {
+    return this.group
+  }
+
+  /**
+   * 创建标签并交由管理器管理
+   */
+  public create(options: Omit<SpriteOptionsType, 'scene'> & LabelOptionsType) {
+    const sprite = new Sprite(options)
+    this.add(sprite, options)
+    return sprite
+  }
+
+  /**
+   * 管理已有的标签，标签会被移动到管理器的分组中
+   */
+  public add(sprite: Sprite, options: LabelOptionsType = {}) {
+    // 标签不参与拾取
+    this.group.add(sprite.getSprite())
+    sprite.getSprite().raycast = () => {}
+    this.labels.set(sprite, {
+      sprite,
+      priority: options.priority ?? 0,
+      alwaysVisible: options.alwaysVisible ?? false,
+      opacity: 0,
+      occluded: false,
+    })
+    this.setLabelOpacity(sprite, 0)
+    this.invalidate()
+  }
+
+  /**
+   * 移除并释放标签
+   */
+  public remove(sprite: Sprite) {
+    if (!this.labels.delete(sprite)) return
+    sprite.dispose()
+    this.invalidate()
+  }
+
+  public setPriority(sprite: Sprite, priority: number) {
+    const label = this.labels.get(sprite)
+    if (label) label.priority = priority
+    this.invalidate()
+  }
+
+  public getLabels() {
+    return [...this.labels.keys()]
+  }
+
+  /**
+   * 当前正在显示（包括淡出中）的标签
+   */
+  public getVisibleLabels() {
+    return [...this.labels.values()]
+      .filter((label) => label.sprite.getSprite().visible)
+      .map((label) => label.sprite)
+  }
+
+  public setMaxVisible(maxVisible: number) {
+    this.maxVisible = maxVisible
+    this.invalidate()
+  }
+
+  public setOcclusion(occlusion: boolean, occluders?: THREE.Object3D[]) {
+    this.occlusion = occlusion
+    if (occluders) this.options.occluders = occluders
+    if (!occlusion) this.labels.forEach((label) => (label.occluded = false))
+    this.invalidate()
+  }
+
+  /**
+   * 设置所有标签的整体透明度，与淡入淡出以及标签自身的透明度相乘；加入图层后由 Layer.setOpacity 调用
+   */
+  public setOpacity(opacity: number) {
+    this.opacity = opacity
+    this.labels.forEach((label) => this.setLabelOpacity(label.sprite, label.opacity))
+    this.options.viewer?.requestRender()
+  }
+
+  public getOpacity() {
+    return this.opacity
+  }
+
+  public setDeclutter(declutter: boolean) {
+    this.declutter = declutter
+    this.invalidate()
+  }
+
+  /**
+   * 计算每个标签的可见性并推进淡入淡出
+   *
+   * @param camera    当前相机
+   * @param renderer  渲染器，用于获取画布尺寸
+   */
+  public update(camera: THREE.Camera, renderer: THREE.WebGLRenderer) {
+    const now = performance.now()
+    // 空闲一段时间后的第一帧不推进淡入淡出，避免直接跳到目标透明度
+    const delta = this.lastTime && !this.settled ? now - this.lastTime : 0
+    this.lastTime = now
+    this.frame++
+
+    renderer.getSize(this.size)
+    const { x: width, y: height } = this.size
+    camera.updateMatrixWorld()
+    this.group.updateMatrixWorld()
+
+    if (!this.cameraMatrix.equals(camera.matrixWorld)) {
+      this.cameraMatrix.copy(camera.matrixWorld)
+      this.occlusionFrames = this.occlusionInterval
+    }
+    if (this.occlusion) this.updateOcclusion(camera)
+
+    const candidates = [...this.labels.values()]
+      .map((label) => ({ label, rect: label.sprite.getScreenRect(camera, width, height) }))
+      .filter(({ rect }) => rect !== null)
+      .sort(
+        (a, b) =>
+          Number(b.label.alwaysVisible) - Number(a.label.alwaysVisible) ||
+          b.label.priority - a.label.priority ||
+          a.rect!.depth - b.rect!.depth,
+      )
+
+    const visible = new Set<LabelItemType>()
+    const placed: RectType[] = []
+    let count = 0
+
+    for (const { label, rect } of candidates) {
+      if (label.alwaysVisible) {
+        visible.add(label)
+        continue
+      }
+      if (count >= this.maxVisible || label.occluded) continue
+      if (!this.isOnScreen(rect!, width, height)) continue
+      if (this.declutter && placed.some((other) => this.overlaps(rect!, other))) continue
+
+      visible.add(label)
+      placed.push(rect!)
+      count++
+    }
+
+    const step = this.fadeDuration > 0 ? delta / this.fadeDuration : 1
+    let fading = false
+    this.labels.forEach((label) => {
+      const target = visible.has(label) ? 1 : 0
+      label.opacity =
+        target > label.opacity
+          ? Math.min(label.opacity + step, target)
+          : Math.max(label.opacity - step, target)
+      if (label.opacity !== target) fading = true
+      this.setLabelOpacity(label.sprite, label.opacity)
+    })
+
+    if (this.occlusionFrames > 0) this.occlusionFrames--
+    this.settled = !fading && !(this.occlusion && this.occlusionFrames > 0)
+    // 按需渲染时淡入淡出与分帧的遮挡检测需要后续的帧继续推进
+    if (!this.settled) this.options.viewer?.requestRender()
+  }
+
+  /**
+   * 移除并释放所有标签
+   */
+  public clear() {
+    this.labels.forEach((label) => label.sprite.dispose())
+    this.labels.clear()
+    this.invalidate()
+  }
+
+  public toJSON(): LabelStateType[] {
+    return [...this.labels.values()].map(({ sprite, priority, alwaysVisible }) => ({
+      ...sprite.toJSON(),
+      priority,
+      alwaysVisible,
+    }))
+  }
+
+  /**
+   * 从 JSON 恢复标签，会先清空已有的标签
+   */
+  public fromJSON(json: LabelStateType[]) {
+    this.clear()
+    json.forEach((label) => {
+      const [x, y, z] = label.position
+      this.create({
+        ...label.style,
+        text: label.text,
+        position: { x, y, z },
+        anchor: label.anchor,
+        offset: label.offset,
+        sizeMode: label.sizeMode,
+        scale: label.scale,
+        depthTest: label.depthTest,
+        priority: label.priority,
+        alwaysVisible: label.alwaysVisible,
+      })
+    })
+  }
+
+  public dispose() {
+    this.options.viewer?.removeEventListener('beforeRender', this.onBeforeRender)
+    this.clear()
+    this.group.removeFromParent()
+  }
+
+  /**
+   * 标签或显示规则变化后重新做一轮遮挡检测，并请求渲染以更新可见性
+   */
+  private invalidate() {
+    this.occlusionFrames = this.occlusionInterval
+    this.options.viewer?.requestRender()
+  }
+
+  /**
+   * 设置标签淡入淡出的透明度，Sprite 自身的透明度（如所在图层的透明度）不会被覆盖
+   */
+  private setLabelOpacity(sprite: Sprite, opacity: number) {
+    const object = sprite.getSprite()
+    object.material.opacity = opacity * sprite.getOpacity() * this.opacity
+    object.visible = opacity > 0
+  }
+
+  private isOnScreen(rect: RectType, width: number, height: number) {
+    return rect.x + rect.width > 0 && rect.y + rect.height > 0 && rect.x < width && rect.y < height
+  }
+
+  private overlaps(a: RectType, b: RectType) {
+    const margin = this.margin
+    return (
+      a.x < b.x + b.width + margin &&
+      b.x < a.x + a.width + margin &&
+      a.y < b.y + b.height + margin &&
+      b.y < a.y + a.height + margin
+    )
+  }
+
+  /**
+   * 从相机向标签发射射线检测遮挡，每帧只检测一部分标签
+   */
+  private updateOcclusion(camera: THREE.Camera) {
+    // 默认的遮挡物已展开为网格列表，无需递归
+    const recursive = !!this.options.occluders
+    const occluders = this.options.occluders ?? this.getDefaultOccluders()
+    camera.getWorldPosition(this.cameraPosition)
+    this.raycaster.camera = camera
+
+    let index = 0
+    this.labels.forEach((label) => {
+      if ((index++ + this.frame) % this.occlusionInterval !== 0) return
+
+      label.sprite.getSprite().getWorldPosition(this.labelPosition)
+      const direction = this.labelPosition.clone().sub(this.cameraPosition)
+      const distance = direction.length()
+      this.raycaster.set(this.cameraPosition, direction.normalize())
+      this.raycaster.far = distance * 0.999
+
+      label.occluded = this.raycaster.intersectObjects(occluders, recursive).length > 0
+    })
+  }
+
+  private getDefaultOccluders() {
+    const scene = this.options.viewer?.getScene() ?? this.options.scene
+    const meshes: THREE.Object3D[] = []
+    scene?.traverseVisible((object) => {
+      if ((object as THREE.Mesh).isMesh) meshes.push(object)
+    })
+    return meshes
+  }
+}
@@ -0,0 +1,298 @@
+import * as THREE from 'three'
+import Points from './Points'
+import Sprite from './Sprite'
+
+/**
+ * 可加入图层的对象：THREE.Object3D、Points、Sprite，或提供 getObject 的封装类（如 PointAccumulator、LabelManager）
+ */
+export type LayerItemType =
+  | THREE.Object3D
+  | Points
+  | Sprite
+  | { getObject(): THREE.Object3D; dispose?(): void }
+
+export type LayerPropertyType = 'visible' | 'opacity' | 'pointSize' | 'renderOrder' | 'items'
+
+export interface LayerOptionsType {
+  name: string
+  visible?: boolean
+  opacity?: number
+  pointSize?: number | null
+  renderOrder?: number
+}
+
+export interface LayerEventMap {
+  change: { property: LayerPropertyType }
+}
+
+/**
+ * 可序列化的图层状态，不包含图层中的对象
+ */
+export interface LayerStateType {
+  name: string
+  visible: boolean
+  opacity: number
+  pointSize: number | null
+  renderOrder: number
+  count: number
+}
+
+interface MaterialStateType {
+  opacity: number
+  transparent: boolean
+}
+
+/**
+ * 取出图层对象对应的 THREE.Object3D
+ */
+export function getLayerItemObject(item: LayerItemType): THREE.Object3D {
+  if (item instanceof THREE.Object3D) return item
+  if (item instanceof Points) return item.getPoint()
+  if (item instanceof Sprite) return item.getSprite()
+  return item.getObject()
+}
+
+function getMaterials(object: THREE.Object3D) {
+  const materials: THREE.Material[] = []
+  object.traverse((child) => {
+    const material = (child as THREE.Mesh).material
+    if (Array.isArray(material)) materials.push(...material)
+    else if (material) materials.push(material)
+  })
+  return materials
+}
+
+/**
+ * 释放对象及其子对象的几何体与材质
+ */
+function disposeObject(object: THREE.Object3D) {
+  object.removeFromParent()
+  object.traverse((child) => (child as THREE.Mesh).geometry?.dispose())
+  getMaterials(object).forEach((material) => material.dispose())
+}
+
+/**
+ * Layer 图层类
+ *
+ * 一组对象的容器，对象统一放在同一个 THREE.Group 中，可整体显示、隐藏、调整透明度与点大小。
+ *
+ * 主要功能：
+ * - 容纳 Points、Sprite、辅助线以及任意 THREE.Object3D
+ * - 显示 / 隐藏、透明度、点大小，新加入的对象会沿用图层当前的设置
+ * - 渲染顺序（Group.renderOrder），一般通过 LayerManager.moveLayer 调整
+ * - 按图层释放资源
+ * - 属性变化时触发 change 事件
+ *
+ * 构造参数 LayerOptionsType:
+ * @param name         图层名称，在 LayerManager 中唯一
+ * @param visible      是否显示，默认 true
+ * @param opacity      透明度，与对象自身的透明度相乘，默认 1
+ * @param pointSize    点大小，null 时保持对象自身的点大小，默认 null
+ * @param renderOrder  渲染顺序，默认 0
+ */
+export default class Layer extends THREE.EventDispatcher<LayerEventMap> {
+  public readonly name: string
+
+  private group = new THREE.Group()
+  private items = new Map<LayerItemType, THREE.Object3D>()
+  private materials = new WeakMap<THREE.Material, MaterialStateType>() // 材质的原始透明度
+  private opacity: number
+  private pointSize: number | null
+
+  constructor(private options: LayerOptionsType) {
+    super()
+    this.name = this.options.name
+    this.group.name = this.name
+    this.group.visible = this.options.visible ?? true
+    this.group.renderOrder = this.options.renderOrder ?? 0
+    this.opacity = this.options.opacity ?? 1
+    this.pointSize = this.options.pointSize ?? null
+  }
+
+  public getObject() {
+    return this.group
+  }
+
+  /**
+   * 图层中的对象，按加入顺序排列
+   */
+  public getItems() {
+    return [...this.items.keys()]
+  }
+
+  public getCount() {
+    return this.items.size
+  }
+
+  public has(item: LayerItemType) {
+    return this.items.has(item)
+  }
+
+  /**
+   * 加入对象，已在其他父节点下的对象会被移动到图层中
+   */
+  public add(item: LayerItemType) {
+    if (this.items.has(item)) return item
+
+    const object = getLayerItemObject(item)
+    this.group.add(object)
+    this.items.set(item, object)
+    if (this.opacity !== 1) this.applyOpacity(item, object)
+    if (this.pointSize !== null) this.applyPointSize(item, object)
+
+    this.dispatchEvent({ type: 'change', property: 'items' })
+    return item
+  }
+
+  /**
+   * 移除对象
+   *
+   * @param item     要移除的对象
+   * @param dispose  是否同时释放对象，默认 false
+   */
+  public remove(item: LayerItemType, dispose = false) {
+    const object = this.items.get(item)
+    if (!object) return false
+
+    this.items.delete(item)
+    if (dispose) {
+      this.disposeItem(item, object)
+    } else {
+      if (this.opacity !== 1) this.applyOpacity(item, object, 1)
+      object.removeFromParent()
+    }
+
+    this.dispatchEvent({ type: 'change', property: 'items' })
+    return true
+  }
+
+  public isVisible() {
+    return this.group.visible
+  }
+
+  public setVisible(visible: boolean) {
+    if (visible === this.group.visible) return
+    this.group.visible = visible
+    this.dispatchEvent({ type: 'change', property: 'visible' })
+  }
+
+  public getOpacity() {
+    return this.opacity
+  }
+
+  /**
+   * 设置透明度，提供 setOpacity 的对象直接调用，否则修改其材质的 opacity
+   */
+  public setOpacity(opacity: number) {
+    opacity = THREE.MathUtils.clamp(opacity, 0, 1)
+    if (opacity === this.opacity) return
+    this.opacity = opacity
+    this.items.forEach((object, item) => this.applyOpacity(item, object))
+    this.dispatchEvent({ type: 'change', property: 'opacity' })
+  }
+
+  public getPointSize() {
+    return this.pointSize
+  }
+
+  /**
+   * 设置图层中点云的点大小，提供 setPointSize 的对象直接调用，否则修改 PointsMaterial 的 size
+   */
+  public setPointSize(size: number) {
+    if (size === this.pointSize) return
+    this.pointSize = size
+    this.items.forEach((object, item) => this.applyPointSize(item, object))
+    this.dispatchEvent({ type: 'change', property: 'pointSize' })
+  }
+
+  public getRenderOrder() {
+    return this.group.renderOrder
+  }
+
+  /**
+   * 设置渲染顺序，数值大的图层后渲染，图层内的对象作为一个整体参与排序
+   */
+  public setRenderOrder(renderOrder: number) {
+    if (renderOrder === this.group.renderOrder) return
+    this.group.renderOrder = renderOrder
+    this.dispatchEvent({ type: 'change', property: 'renderOrder' })
+  }
+
+  public toJSON(): LayerStateType {
+    return {
+      name: this.name,
+      visible: this.group.visible,
+      opacity: this.opacity,
+      pointSize: this.pointSize,
+      renderOrder: this.group.renderOrder,
+      count: this.items.size,
+    }
+  }
+
+  /**
+   * 恢复图层状态，未传入的字段保持不变，不会恢复图层中的对象
+   */
+  public fromJSON(state: Partial<LayerStateType>) {
+    if (state.visible !== undefined) this.setVisible(state.visible)
+    if (state.opacity !== undefined) this.setOpacity(state.opacity)
+    if (state.pointSize !== undefined && state.pointSize !== null) {
+      this.setPointSize(state.pointSize)
+    }
+    if (state.renderOrder !== undefined) this.setRenderOrder(state.renderOrder)
+  }
+
+  /**
+   * 释放图层中的所有对象，并从场景中移除
+   */
+  public dispose() {
+    this.items.forEach((object, item) => this.disposeItem(item, object))
+    this.items.clear()
+    this.group.removeFromParent()
+  }
+
+  private disposeItem(item: LayerItemType, object: THREE.Object3D) {
+    if (!(item instanceof THREE.Object3D) && item.dispose) {
+      item.dispose()
+      object.removeFromParent()
+    } else {
+      disposeObject(object)
+    }
+  }
+
+  private applyOpacity(item: LayerItemType, object: THREE.Object3D, opacity = this.opacity) {
+    if ('setOpacity' in item && typeof item.setOpacity === 'function') {
+      item.setOpacity(opacity)
+      return
+    }
+
+    getMaterials(object).forEach((material) => {
+      let original = this.materials.get(material)
+      if (!original) {
+        original = { opacity: material.opacity, transparent: material.transparent }
+        this.materials.set(material, original)
+      }
+      const transparent = original.transparent || opacity < 1
+      material.opacity = original.opacity * opacity
+      // transparent 变化会切换渲染队列与着色器，需要重新编译
+      if (material.transparent !== transparent) {
+        material.transparent = transparent
+        material.needsUpdate = true
+      }
+    })
+  }
+
+  private applyPointSize(item: LayerItemType, object: THREE.Object3D) {
+    if (this.pointSize === null) return
+    if ('setPointSize' in item && typeof item.setPointSize === 'function') {
+      item.setPointSize(this.pointSize)
+      return
+    }
+
+    getMaterials(object).forEach((material) => {
+      if (material instanceof THREE.PointsMaterial) material.size = this.pointSize!
+      else if (material instanceof THREE.ShaderMaterial && material.uniforms.pointSize) {
+        material.uniforms.pointSize.value = this.pointSize
+      }
+    })
+  }
+}
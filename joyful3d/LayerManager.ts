@@ -0,0 +1,153 @@
+import * as THREE from 'three'
+import Layer from './Layer'
+import type {
+  LayerItemType,
+  LayerOptionsType,
+  LayerPropertyType,
+  LayerStateType,
+  LayerEventMap,
+} from './Layer'
+
+export interface LayerManagerOptionsType {
+  scene?: THREE.Scene
+}
+
+export interface LayerManagerEventMap {
+  add: { layer: Layer } // 新建图层时触发
+  remove: { layer: Layer } // 删除图层时触发
+  change: { layer: Layer; property: LayerPropertyType | 'order' } // 图层属性、对象或顺序变化时触发
+}
+
+/**
+ * LayerManager 图层管理类
+ *
+ * 按名称管理若干 Layer，图层的排列顺序即渲染顺序，由 Viewer 创建，通过 viewer.getLayers() 获取。
+ *
+ * 主要功能：
+ * - 创建、查找、删除图层，删除时释放图层中的对象
+ * - 调整图层顺序，排在后面的图层后渲染（覆盖在前面的图层之上）
+ * - 查找对象所在的图层
+ * - 图层增删、属性变化、顺序变化时触发 add / remove / change 事件，便于界面渲染图层树
+ * - 支持通过 toJSON / fromJSON 保存和恢复各图层的显示状态
+ *
+ * 构造参数 LayerManagerOptionsType:
+ * @param scene  THREE.Scene 实例，图层会自动添加到该场景
+ */
+export default class LayerManager extends THREE.EventDispatcher<LayerManagerEventMap> {
+  private layers: Layer[] = []
+  private listeners = new Map<Layer, (event: LayerEventMap['change']) => void>()
+
+  constructor(private options: LayerManagerOptionsType = {}) {
+    super()
+  }
+
+  /**
+   * 新建图层，追加到最后（最上层）
+   */
+  public create(name: string, options: Omit<LayerOptionsType, 'name'> = {}) {
+    if (this.get(name)) throw new Error(`LayerManager: layer "${name}" already exists`)
+
+    const layer = new Layer({ renderOrder: this.layers.length, ...options, name })
+    const listener = ({ property }: LayerEventMap['change']) =>
+      this.dispatchEvent({ type: 'change', layer, property })
+    layer.addEventListener('change', listener)
+    this.listeners.set(layer, listener)
+    this.layers.push(layer)
+    this.options.scene?.add(layer.getObject())
+
+    this.dispatchEvent({ type: 'add', layer })
+    return layer
+  }
+
+  public get(name: string) {
+    return this.layers.find((layer) => layer.name === name) ?? null
+  }
+
+  /**
+   * 所有图层，按渲染顺序排列（最后一个在最上层）
+   */
+  public getLayers() {
+    return [...this.layers]
+  }
+
+  /**
+   * 查找对象所在的图层
+   */
+  public findLayer(item: LayerItemType) {
+    return this.layers.find((layer) => layer.has(item)) ?? null
+  }
+
+  /**
+   * 删除图层并释放其中的对象
+   */
+  public remove(target: Layer | string) {
+    const layer = typeof target === 'string' ? this.get(target) : target
+    if (!layer || !this.layers.includes(layer)) return false
+
+    this.layers.splice(this.layers.indexOf(layer), 1)
+    layer.removeEventListener('change', this.listeners.get(layer)!)
+    this.listeners.delete(layer)
+    layer.dispose()
+    this.dispatchEvent({ type: 'remove', layer })
+    this.updateOrder()
+    return true
+  }
+
+  /**
+   * 把图层移动到指定位置，index 越大越靠上
+   */
+  public moveLayer(target: Layer | string, index: number) {
+    const layer = typeof target === 'string' ? this.get(target) : target
+    if (!layer || !this.layers.includes(layer)) return
+
+    index = THREE.MathUtils.clamp(Math.round(index), 0, this.layers.length - 1)
+    this.layers.splice(this.layers.indexOf(layer), 1)
+    this.layers.splice(index, 0, layer)
+    this.updateOrder()
+    this.dispatchEvent({ type: 'change', layer, property: 'order' })
+  }
+
+  /**
+   * 按名称列表重新排列图层，未列出的图层保持原有的相对顺序排在最后
+   */
+  public setOrder(names: string[]) {
+    const ordered = names.map((name) => this.get(name)).filter((layer) => layer !== null)
+    const rest = this.layers.filter((layer) => !ordered.includes(layer))
+    this.layers = [...new Set([...ordered, ...rest])]
+    this.updateOrder()
+    this.layers.forEach((layer) => this.dispatchEvent({ type: 'change', layer, property: 'order' }))
+  }
+
+  /**
+   * 各图层的状态，按渲染顺序排列
+   */
+  public toJSON(): LayerStateType[] {
+    return this.layers.map((layer) => layer.toJSON())
+  }
+
+  /**
+   * 恢复各图层的显示状态与顺序，只作用于已存在的同名图层
+   */
+  public fromJSON(json: LayerStateType[]) {
+    json.forEach((state) => this.get(state.name)?.fromJSON(state))
+    this.setOrder(json.map((state) => state.name))
+  }
+
+  /**
+   * 删除并释放所有图层
+   */
+  public clear() {
+    ;[...this.layers].forEach((layer) => this.remove(layer))
+  }
+
+  public dispose() {
+    this.clear()
+  }
+
+  /**
+   * 按排列顺序更新各图层的 renderOrder
+   */
+  private updateOrder() {
+    this.layers.forEach((layer, index) => layer.setRenderOrder(index))
+  }
+}
@@ -0,0 +1,215 @@
+import * as THREE from 'three'
+import Measurement from './Measurement'
+import type Viewer from './Viewer'
+import type { ViewerEventMap } from './Viewer'
+import type {
+  MeasureType,
+  MeasurePlaneType,
+  MeasurementJSONType,
+  MeasurementOptionsType,
+} from './Measurement'
+
+export interface MeasureToolOptionsType {
+  viewer: Viewer
+  plane?: MeasurePlaneType
+  color?: THREE.ColorRepresentation
+  unit?: string
+  precision?: number
+}
+
+export interface MeasureToolEventMap {
+  add: { measurement: Measurement }
+  change: { measurement: Measurement }
+  remove: { measurement: Measurement }
+}
+
+/**
+ * MeasureTool 测量工具类
+ *
+ * 基于 Viewer 的拾取事件，通过鼠标点击在场景中创建测量，并统一管理所有测量。
+ *
+ * 主要功能：
+ * - 交互式创建距离、折线长度、投影面积、夹角测量
+ * - 距离与夹角在点数足够时自动完成，折线与面积双击完成，Esc 取消
+ * - 支持通过代码添加、修改、删除测量
+ * - 支持将所有测量序列化为 JSON 并恢复
+ * - 通过 addEventListener 监听 add / change / remove 事件，事件触发时同时请求 Viewer 渲染
+ *
+ * 构造参数 MeasureToolOptionsType:
+ * @param viewer     Viewer 实例，需开启 picking
+ * @param plane      面积测量的投影平面，默认 xz
+ * @param color      连线颜色，默认 #ffcc00
+ * @param unit       长度单位，默认 m
+ * @param precision  保留的小数位数，默认 2
+ */
+export default class MeasureTool extends THREE.EventDispatcher<MeasureToolEventMap> {
+  private viewer: Viewer
+  private measurements = new Map<string, Measurement>()
+  private current: Measurement | null = null
+
+  constructor(private options: MeasureToolOptionsType) {
+    super()
+    this.viewer = this.options.viewer
+    if (!this.viewer.getPicker()) {
+      throw new Error('MeasureTool: viewer picking is not enabled')
+    }
+
+    this.viewer.addEventListener('click', this.onClick)
+    this.viewer.getRenderer()?.domElement.addEventListener('dblclick', this.onDoubleClick)
+    window.addEventListener('keydown', this.onKeyDown)
+
+    // 连线与标签无法被 Viewer 自动检测，每次增删改后请求渲染
+    this.addEventListener('add', this.viewer.requestRender)
+    this.addEventListener('change', this.viewer.requestRender)
+    this.addEventListener('remove', this.viewer.requestRender)
+  }
+
+  private onClick = (event: ViewerEventMap['click']) => {
+    if (!this.current || !event.pick) return
+
+    if (this.current.addPoint(event.pick.position)) {
+      this.dispatchEvent({ type: 'change', measurement: this.current })
+    }
+    if (this.current.isFull()) this.finish()
+  }
+
+  private onDoubleClick = () => {
+    if (this.current) this.finish()
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') this.cancel()
+  }
+
+  /**
+   * 开始交互式测量，之后每次点击拾取到的位置都会作为测量点
+   */
+  public start(type: MeasureType) {
+    this.cancel()
+    this.current = this.create({ type })
+    return this.current
+  }
+
+  /**
+   * 结束当前的交互式测量，点数不足时视为取消
+   */
+  public finish() {
+    const current = this.current
+    this.current = null
+    if (!current) return null
+
+    if (!current.isComplete()) {
+      this.remove(current)
+      return null
+    }
+    return current
+  }
+
+  /**
+   * 取消并删除当前的交互式测量
+   */
+  public cancel() {
+    if (this.current) this.remove(this.current)
+    this.current = null
+  }
+
+  public isActive() {
+    return this.current !== null
+  }
+
+  /**
+   * 通过代码添加一个测量
+   */
+  public add(
+    type: MeasureType,
+    points: THREE.Vector3Like[],
+    options: { id?: string; plane?: MeasurePlaneType } = {},
+  ) {
+    return this.create({ type, points, ...options })
+  }
+
+  /**
+   * 修改测量中的某个点
+   */
+  public setPoint(id: string, index: number, point: THREE.Vector3Like) {
+    const measurement = this.measurements.get(id)
+    if (!measurement) return
+
+    measurement.setPoint(index, point)
+    this.dispatchEvent({ type: 'change', measurement })
+  }
+
+  /**
+   * 删除测量中的某个点
+   */
+  public removePoint(id: string, index: number) {
+    const measurement = this.measurements.get(id)
+    if (!measurement) return
+
+    measurement.removePoint(index)
+    this.dispatchEvent({ type: 'change', measurement })
+  }
+
+  public get(id: string) {
+    return this.measurements.get(id)
+  }
+
+  public getMeasurements() {
+    return [...this.measurements.values()]
+  }
+
+  public remove(target: Measurement | string) {
+    const measurement = typeof target === 'string' ? this.measurements.get(target) : target
+    if (!measurement || !this.measurements.has(measurement.id)) return
+
+    if (measurement === this.current) this.current = null
+    this.measurements.delete(measurement.id)
+    measurement.dispose()
+    this.dispatchEvent({ type: 'remove', measurement })
+  }
+
+  public clear() {
+    this.getMeasurements().forEach((measurement) => this.remove(measurement))
+  }
+
+  /**
+   * 序列化所有已完成的测量
+   */
+  public toJSON(): MeasurementJSONType[] {
+    return this.getMeasurements()
+      .filter((measurement) => measurement !== this.current)
+      .map((measurement) => measurement.toJSON())
+  }
+
+  /**
+   * 从 JSON 恢复测量，会先清空已有的测量
+   */
+  public fromJSON(json: MeasurementJSONType[]) {
+    this.clear()
+    json.forEach(({ id, type, points, plane }) =>
+      this.create({ id, type, plane, points: points.map(([x, y, z]) => ({ x, y, z })) }),
+    )
+  }
+
+  public dispose() {
+    this.clear()
+    this.viewer.removeEventListener('click', this.onClick)
+    this.viewer.getRenderer()?.domElement.removeEventListener('dblclick', this.onDoubleClick)
+    window.removeEventListener('keydown', this.onKeyDown)
+  }
+
+  private create(options: Pick<MeasurementOptionsType, 'type' | 'points' | 'id' | 'plane'>) {
+    const measurement = new Measurement({
+      ...options,
+      scene: this.viewer.getScene(),
+      plane: options.plane ?? this.options.plane,
+      color: this.options.color,
+      unit: this.options.unit,
+      precision: this.options.precision,
+    })
+
+    this.measurements.set(measurement.id, measurement)
+    this.dispatchEvent({ type: 'add', measurement })
+    return measurement
+  }
+}
@@ -0,0 +1,306 @@
+import * as THREE from 'three'
+import Sprite from './Sprite'
+
+export type MeasureType = 'distance' | 'polyline' | 'area' | 'angle'
+
+export type MeasurePlaneType = 'xy' | 'xz' | 'yz'
+
+export interface MeasurementJSONType {
+  id: string
+  type: MeasureType
+  points: [number, number, number][]
+  plane?: MeasurePlaneType
+}
+
+export interface MeasurementOptionsType {
+  type: MeasureType
+  points?: THREE.Vector3Like[]
+  scene?: THREE.Scene
+  id?: string
+  plane?: MeasurePlaneType
+  color?: THREE.ColorRepresentation
+  unit?: string
+  precision?: number
+}
+
+// 各类型测量所需的最少点数与最多点数
+const POINT_LIMITS: Record<MeasureType, [number, number]> = {
+  distance: [2, 2],
+  polyline: [2, Infinity],
+  area: [3, Infinity],
+  angle: [3, 3],
+}
+
+const PLANE_AXES: Record<MeasurePlaneType, ['x' | 'y' | 'z', 'x' | 'y' | 'z']> = {
+  xy: ['x', 'y'],
+  xz: ['x', 'z'],
+  yz: ['y', 'z'],
+}
+
+/**
+ * Measurement 测量类
+ *
+ * 表示一次测量，由若干个点、连线以及显示测量值的 Sprite 标签组成。
+ *
+ * 主要功能：
+ * - 支持两点距离、折线长度、投影面积、三点夹角四种测量
+ * - 支持增加、修改、删除测量点，修改后自动重绘连线与标签
+ * - 支持序列化为 JSON
+ *
+ * 构造参数 MeasurementOptionsType:
+ * @param type       测量类型 distance / polyline / area / angle
+ * @param points     初始测量点（可选）
+ * @param scene      THREE.Scene 实例，测量会自动添加到该场景
+ * @param id         测量 id（可选），默认自动生成
+ * @param plane      面积测量的投影平面，默认 xz
+ * @param color      连线颜色，默认 #ffcc00
+ * @param unit       长度单位，默认 m
+ * @param precision  保留的小数位数，默认 2
+ */
+export default class Measurement {
+  public readonly id: string
+  public readonly type: MeasureType
+
+  private points: THREE.Vector3[] = []
+  private plane: MeasurePlaneType
+  private unit: string
+  private precision: number
+
+  private scene: THREE.Scene | undefined
+  private group = new THREE.Group()
+  private line: THREE.Line
+  private vertices: THREE.Points
+  private label: Sprite | null = null
+
+  constructor(private options: MeasurementOptionsType) {
+    this.id = this.options.id || THREE.MathUtils.generateUUID()
+    this.type = this.options.type
+    this.plane = this.options.plane || 'xz'
+    this.unit = this.options.unit ?? 'm'
+    this.precision = this.options.precision ?? 2
+    this.scene = this.options.scene
+
+    const color = this.options.color ?? 0xffcc00
+    const lineMaterial = new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+    this.line =
+      this.type === 'area'
+        ? new THREE.LineLoop(new THREE.BufferGeometry(), lineMaterial)
+        : new THREE.Line(new THREE.BufferGeometry(), lineMaterial)
+
+    this.vertices = new THREE.Points(
+      new THREE.BufferGeometry(),
+      new THREE.PointsMaterial({
+        color,
+        size: 8,
+        sizeAttenuation: false,
+        depthTest: false,
+        transparent: true,
+      }),
+    )
+
+    // 测量辅助图形始终绘制在最上层，且不参与拾取
+    this.line.renderOrder = this.vertices.renderOrder = 999
+    this.line.raycast = this.vertices.raycast = () => {}
+    this.group.add(this.line, this.vertices)
+    this.scene?.add(this.group)
+
+    this.options.points?.forEach((point) => this.points.push(new THREE.Vector3().copy(point)))
+    this.update()
+  }
+
+  public getObject() {
+    return this.group
+  }
+
+  public getPoints() {
+    return this.points.map((point) => point.clone())
+  }
+
+  /**
+   * 点数是否满足该类型测量的要求
+   */
+  public isComplete() {
+    return this.points.length >= POINT_LIMITS[this.type][0]
+  }
+
+  /**
+   * 是否还能继续添加点
+   */
+  public isFull() {
+    return this.points.length >= POINT_LIMITS[this.type][1]
+  }
+
+  /**
+   * 追加测量点，超出该类型最大点数或与上一个点重合时返回 false
+   */
+  public addPoint(point: THREE.Vector3Like) {
+    const last = this.points[this.points.length - 1]
+    if (this.isFull() || (last && last.distanceToSquared(point) < 1e-12)) return false
+
+    this.points.push(new THREE.Vector3().copy(point))
+    this.update()
+    return true
+  }
+
+  public setPoint(index: number, point: THREE.Vector3Like) {
+    if (!this.points[index]) return
+
+    this.points[index].copy(point)
+    this.update()
+  }
+
+  public insertPoint(index: number, point: THREE.Vector3Like) {
+    if (this.isFull()) return
+
+    this.points.splice(index, 0, new THREE.Vector3().copy(point))
+    this.update()
+  }
+
+  public removePoint(index: number) {
+    if (!this.points[index]) return
+
+    this.points.splice(index, 1)
+    this.update()
+  }
+
+  /**
+   * 测量值：距离与长度为长度单位，面积为平方单位，角度为度；点数不足时为 0
+   */
+  public getValue() {
+    if (!this.isComplete()) return 0
+
+    switch (this.type) {
+      case 'distance':
+      case 'polyline':
+        return this.getLength()
+      case 'area':
+        return this.getArea()
+      case 'angle':
+        return this.getAngle()
+    }
+  }
+
+  /**
+   * 标签上显示的文本
+   */
+  public getText() {
+    const value = this.getValue().toFixed(this.precision)
+
+    switch (this.type) {
+      case 'distance':
+      case 'polyline':
+        return `${value} ${this.unit}`
+      case 'area':
+        return `${value} ${this.unit}²`
+      case 'angle':
+        return `${value}°`
+    }
+  }
+
+  public toJSON(): MeasurementJSONType {
+    return {
+      id: this.id,
+      type: this.type,
+      points: this.points.map((point) => point.toArray()),
+      ...(this.type === 'area' ? { plane: this.plane } : {}),
+    }
+  }
+
+  public dispose() {
+    this.label?.dispose()
+    this.label = null
+
+    this.group.removeFromParent()
+    this.line.geometry.dispose()
+    ;(this.line.material as THREE.Material).dispose()
+    this.vertices.geometry.dispose()
+    ;(this.vertices.material as THREE.Material).dispose()
+  }
+
+  private getLength() {
+    let length = 0
+    for (let i = 1; i < this.points.length; i++) {
+      length += this.points[i].distanceTo(this.points[i - 1])
+    }
+    return length
+  }
+
+  /**
+   * 多边形投影到指定平面后的面积（鞋带公式）
+   */
+  private getArea() {
+    const [u, v] = PLANE_AXES[this.plane]
+    let sum = 0
+    for (let i = 0; i < this.points.length; i++) {
+      const a = this.points[i]
+      const b = this.points[(i + 1) % this.points.length]
+      sum += a[u] * b[v] - b[u] * a[v]
+    }
+    return Math.abs(sum) / 2
+  }
+
+  /**
+   * 以第二个点为顶点的夹角
+   */
+  private getAngle() {
+    const [a, b, c] = this.points
+    const ba = new THREE.Vector3().subVectors(a, b)
+    const bc = new THREE.Vector3().subVectors(c, b)
+    return THREE.MathUtils.radToDeg(ba.angleTo(bc))
+  }
+
+  /**
+   * 标签位置：距离取中点，折线取终点，面积取中心，角度取顶点
+   */
+  private getLabelPosition() {
+    const points = this.points
+    switch (this.type) {
+      case 'distance':
+        return new THREE.Vector3().addVectors(points[0], points[1]).multiplyScalar(0.5)
+      case 'polyline':
+        return points[points.length - 1].clone()
+      case 'area':
+        return points
+          .reduce((sum, point) => sum.add(point), new THREE.Vector3())
+          .divideScalar(points.length)
+      case 'angle':
+        return points[1].clone()
+    }
+  }
+
+  private update() {
+    // 点数会变化，setFromPoints 无法扩容已有缓冲区，因此每次重建几何体
+    this.line.geometry.dispose()
+    this.line.geometry = new THREE.BufferGeometry().setFromPoints(this.points)
+    this.vertices.geometry.dispose()
+    this.vertices.geometry = new THREE.BufferGeometry().setFromPoints(this.points)
+
+    if (!this.isComplete()) {
+      if (this.label) this.label.getSprite().visible = false
+      return
+    }
+
+    if (this.label) {
+      this.label.setText(this.getText())
+      this.label.setPosition(this.getLabelPosition())
+      this.label.getSprite().visible = true
+      return
+    }
+
+    this.label = new Sprite({
+      text: this.getText(),
+      position: this.getLabelPosition(),
+      sizeMode: 'screen',
+      fontSize: 14,
+      color: '#ffffff',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      borderRadius: 4,
+      padding: [4, 8],
+      anchor: [0.5, 0],
+      offset: [0, 8],
+      depthTest: false,
+    })
+    this.label.getSprite().renderOrder = 1000
+    this.group.add(this.label.getSprite())
+  }
+}
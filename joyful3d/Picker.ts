@@ -0,0 +1,501 @@
+import * as THREE from 'three'
+import PointMaterial, {
+  POINT_SIZE_PARS_VERTEX,
+  createPointSizeUniforms,
+  type PointSizeUniformsType,
+} from './PointMaterial'
+import type ClipManager from './ClipManager'
+
+export interface PickerOptionsType {
+  gpu?: boolean // 是否对 Points 使用 GPU ID 缓冲拾取，适用于百万级点云
+  hover?: boolean // 是否触发 hover 事件，默认 true
+  highlight?: boolean // 是否绘制拾取点的高亮标记，默认 true
+  highlightColor?: THREE.ColorRepresentation // 高亮标记颜色，默认 #ffff00
+  highlightSize?: number // 高亮标记大小（像素），默认 12
+  threshold?: number // 拾取半径相对点大小的倍数，默认 1
+}
+
+/**
+ * 拾取结果
+ *
+ * @param object      命中的对象
+ * @param index       命中的点索引（Points / Line），Mesh 为 null
+ * @param faceIndex   命中的三角面索引（Mesh），其他为 null
+ * @param position    命中位置（世界坐标），点云为该点的实际坐标
+ * @param distance    与相机的距离
+ * @param attributes  命中点的顶点属性（不含 position），单通道属性为数值，多通道为数组
+ */
+export interface PickResultType {
+  object: THREE.Object3D
+  index: number | null
+  faceIndex: number | null
+  position: THREE.Vector3
+  distance: number
+  attributes: Record<string, number | number[]>
+}
+
+export interface PickEventType {
+  pick: PickResultType | null
+  originalEvent: PointerEvent
+}
+
+export interface PickerContextType {
+  getScene(): THREE.Scene | undefined
+  getCamera(): THREE.Camera | null
+  getRenderer(): THREE.WebGLRenderer | null
+  getPickables(): THREE.Object3D[]
+  getClipping(): ClipManager | null // 被裁剪体隐藏的点不参与拾取
+  requestUpdate(): void // 请求在下一帧调用 update，按需渲染时渲染循环可能处于空闲
+  dispatch(type: 'hover' | 'click', event: PickEventType): void
+}
+
+const CLICK_TOLERANCE = 4 // 按下与抬起之间移动超过该像素数视为拖拽，不触发 click
+
+// POINT_MATERIAL 时与 PointMaterial 使用相同的点大小计算
+const ID_VERTEX_SHADER = /* glsl */ `
+#ifdef POINT_MATERIAL
+${POINT_SIZE_PARS_VERTEX}
+#else
+uniform float pointSize;
+uniform bool sizeAttenuation;
+uniform float scale;
+#endif
+flat varying int vIndex;
+
+void main() {
+  vIndex = gl_VertexID;
+  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  #ifdef POINT_MATERIAL
+  gl_PointSize = getPointSize(mvPosition);
+  #else
+  gl_PointSize = sizeAttenuation ? pointSize * (scale / -mvPosition.z) : pointSize;
+  #endif
+}
+`
+
+const ID_FRAGMENT_SHADER = /* glsl */ `
+uniform float objectId;
+flat varying int vIndex;
+
+void main() {
+  // 低 24 位存储点索引 + 1，alpha 通道存储对象序号 + 1，0 表示未命中
+  int id = vIndex + 1;
+  gl_FragColor = vec4(
+    float(id & 255) / 255.0,
+    float((id >> 8) & 255) / 255.0,
+    float((id >> 16) & 255) / 255.0,
+    objectId / 255.0
+  );
+}
+`
+
+/**
+ * 读取点大小（世界单位），兼容 PointMaterial、PointsMaterial 与带 pointSize uniform 的 ShaderMaterial
+ *
+ * PointMaterial 的点大小可能以像素为单位，按对象中心与相机的距离换算
+ */
+function getPointSize(points: THREE.Points, camera: THREE.Camera, height: number) {
+  const material = points.material
+  const target = Array.isArray(material) ? material[0] : material
+  if (target instanceof PointMaterial) {
+    if (!points.geometry.boundingSphere) points.geometry.computeBoundingSphere()
+    const center = points.geometry.boundingSphere!.center.clone().applyMatrix4(points.matrixWorld)
+    const distance = camera.getWorldPosition(new THREE.Vector3()).distanceTo(center)
+    return target.getWorldSize(camera, distance, height)
+  }
+  if (target instanceof THREE.PointsMaterial) return target.size
+  if (target instanceof THREE.ShaderMaterial) return target.uniforms.pointSize?.value ?? 1
+  return 1
+}
+
+/**
+ * Picker 拾取类
+ *
+ * 为 Viewer 提供鼠标拾取能力，支持点云、线和网格，由 Viewer 在开启 picking 时创建。
+ *
+ * 主要功能：
+ * - 基于 Raycaster 拾取，点云的拾取半径随点大小缩放
+ * - 可选 GPU ID 缓冲拾取，适用于百万级点云
+ * - 触发 hover / click 事件，携带点索引、世界坐标与顶点属性
+ * - 可在拾取到的点上绘制高亮标记
+ * - 被裁剪体（inside / outside 方式）隐藏的点不会被拾取
+ *
+ * 构造参数 PickerOptionsType:
+ * @param gpu             是否对 Points 使用 GPU 拾取，默认 false
+ * @param hover           是否触发 hover 事件，默认 true
+ * @param highlight       是否绘制高亮标记，默认 true
+ * @param highlightColor  高亮标记颜色，默认 #ffff00
+ * @param highlightSize   高亮标记大小（像素），默认 12
+ * @param threshold       拾取半径相对点大小的倍数，默认 1
+ */
+export default class Picker {
+  private raycaster = new THREE.Raycaster()
+  private pointer = new THREE.Vector2()
+  private marker: THREE.Points
+  private downPosition: THREE.Vector2 | null = null
+  private pendingHover: PointerEvent | null = null
+  private hovered: PickResultType | null = null
+
+  private idTarget: THREE.WebGLRenderTarget | null = null
+  private idMaterials = new Map<THREE.Object3D, THREE.ShaderMaterial>()
+  private occluderMaterial: THREE.MeshBasicMaterial | null = null
+
+  constructor(
+    private context: PickerContextType,
+    private options: PickerOptionsType = {},
+  ) {
+    this.marker = this.createMarker()
+    this.marker.visible = false
+    this.context.getScene()?.add(this.marker)
+
+    const canvas = this.context.getRenderer()?.domElement
+    canvas?.addEventListener('pointerdown', this.onPointerDown)
+    canvas?.addEventListener('pointerup', this.onPointerUp)
+    canvas?.addEventListener('pointermove', this.onPointerMove)
+    canvas?.addEventListener('pointerleave', this.onPointerLeave)
+  }
+
+  private createMarker() {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0], 3))
+
+    const material = new THREE.PointsMaterial({
+      color: this.options.highlightColor ?? 0xffff00,
+      size: this.options.highlightSize ?? 12,
+      sizeAttenuation: false,
+      depthTest: false,
+      transparent: true,
+    })
+
+    const marker = new THREE.Points(geometry, material)
+    marker.renderOrder = Infinity
+    marker.raycast = () => {}
+    return marker
+  }
+
+  private onPointerDown = (event: PointerEvent) => {
+    this.downPosition = new THREE.Vector2(event.clientX, event.clientY)
+  }
+
+  private onPointerUp = (event: PointerEvent) => {
+    if (!this.downPosition) return
+
+    const moved = this.downPosition.distanceTo(new THREE.Vector2(event.clientX, event.clientY))
+    this.downPosition = null
+    if (moved > CLICK_TOLERANCE) return
+
+    const pick = this.pickEvent(event)
+    this.setHighlight(pick)
+    this.context.dispatch('click', { pick, originalEvent: event })
+  }
+
+  private onPointerMove = (event: PointerEvent) => {
+    if (this.options.hover === false) return
+    // 拖拽相机时不做 hover 拾取
+    if (this.downPosition) return
+    this.pendingHover = event
+    this.context.requestUpdate()
+  }
+
+  private onPointerLeave = (event: PointerEvent) => {
+    this.pendingHover = null
+    if (!this.hovered) return
+
+    this.hovered = null
+    this.setHighlight(null)
+    this.context.dispatch('hover', { pick: null, originalEvent: event })
+  }
+
+  /**
+   * 每帧由 Viewer 调用，处理最近一次鼠标移动，避免每个 pointermove 都做一次拾取
+   */
+  public update() {
+    const event = this.pendingHover
+    if (!event) return
+    this.pendingHover = null
+
+    const pick = this.pickEvent(event)
+    const same =
+      pick?.object === this.hovered?.object &&
+      pick?.index === this.hovered?.index &&
+      pick?.faceIndex === this.hovered?.faceIndex
+    if (same) return
+
+    this.hovered = pick
+    this.setHighlight(pick)
+    this.context.dispatch('hover', { pick, originalEvent: event })
+  }
+
+  private pickEvent(event: PointerEvent) {
+    const canvas = this.context.getRenderer()?.domElement
+    if (!canvas) return null
+
+    const rect = canvas.getBoundingClientRect()
+    return this.pick(event.clientX - rect.left, event.clientY - rect.top)
+  }
+
+  /**
+   * 拾取画布上指定位置（CSS 像素，相对画布左上角）最近的对象
+   */
+  public pick(x: number, y: number): PickResultType | null {
+    const camera = this.context.getCamera()
+    const canvas = this.context.getRenderer()?.domElement
+    if (!camera || !canvas) return null
+
+    this.pointer.set((x / canvas.clientWidth) * 2 - 1, -(y / canvas.clientHeight) * 2 + 1)
+    this.raycaster.setFromCamera(this.pointer, camera)
+
+    const pickables = this.context.getPickables()
+    let result: PickResultType | null = null
+
+    if (this.options.gpu) {
+      result = this.pickGPU(x, y, pickables)
+      // GPU 只负责点云，其余对象仍使用射线检测
+      const hit = this.pickRaycast(pickables, true)
+      if (hit && (!result || hit.distance < result.distance)) result = hit
+    } else {
+      result = this.pickRaycast(pickables)
+    }
+
+    return result
+  }
+
+  /**
+   * 在指定的拾取结果上显示高亮标记，传入 null 隐藏
+   */
+  public setHighlight(pick: PickResultType | null) {
+    if (this.options.highlight === false || !pick) {
+      this.marker.visible = false
+      return
+    }
+
+    this.marker.position.copy(pick.position)
+    this.marker.visible = true
+  }
+
+  private pickRaycast(objects: THREE.Object3D[], skipPoints = false): PickResultType | null {
+    const threshold = this.options.threshold ?? 1
+    const camera = this.context.getCamera()!
+    const height = this.context.getRenderer()?.domElement.clientHeight ?? 1
+    const filter = this.context.getClipping()?.createPointFilter() ?? null
+    let best: PickResultType | null = null
+
+    for (const object of objects) {
+      const intersections: THREE.Intersection[] = []
+      object.traverseVisible((child) => {
+        if (child === this.marker) return
+        if (skipPoints && child instanceof THREE.Points) return
+        // 拾取半径取点大小的一半（世界单位），Raycaster 内部会换算到对象局部坐标
+        if (child instanceof THREE.Points) {
+          const size = getPointSize(child, camera, height)
+          this.raycaster.params.Points.threshold = (size / 2) * threshold
+        }
+        child.raycast(this.raycaster, intersections)
+      })
+
+      for (const intersection of intersections) {
+        const pick = this.toPickResult(intersection)
+        // 裁剪只作用于点云
+        if (filter && pick.object instanceof THREE.Points && !filter(pick.position)) continue
+        if (!best || pick.distance < best.distance) best = pick
+      }
+    }
+
+    return best
+  }
+
+  private toPickResult(intersection: THREE.Intersection): PickResultType {
+    const { object } = intersection
+    const index = intersection.index ?? null
+    const faceIndex = intersection.faceIndex ?? null
+    const position = intersection.point.clone()
+
+    // 点云返回命中点本身的坐标，而不是射线上的最近点
+    if (object instanceof THREE.Points && index !== null) {
+      const attribute = (object.geometry as THREE.BufferGeometry).getAttribute('position')
+      position.fromBufferAttribute(attribute, index).applyMatrix4(object.matrixWorld)
+    }
+
+    const vertex = index ?? intersection.face?.a ?? null
+    const camera = this.context.getCamera()!
+
+    return {
+      object,
+      index,
+      faceIndex,
+      position,
+      distance: camera.getWorldPosition(new THREE.Vector3()).distanceTo(position),
+      attributes: vertex === null ? {} : this.readAttributes(object, vertex),
+    }
+  }
+
+  private readAttributes(object: THREE.Object3D, index: number) {
+    const attributes: Record<string, number | number[]> = {}
+    const geometry = (object as THREE.Mesh).geometry as THREE.BufferGeometry | undefined
+    if (!geometry) return attributes
+
+    for (const name in geometry.attributes) {
+      // scalar 与 pointScale 是 Points 着色属性与点大小属性的别名
+      if (name === 'position' || name === 'scalar' || name === 'pointScale') continue
+
+      const attribute = geometry.attributes[name]
+      if (attribute.itemSize === 1) {
+        attributes[name] = attribute.getX(index)
+      } else {
+        const values: number[] = []
+        for (let i = 0; i < attribute.itemSize; i++) values.push(attribute.getComponent(index, i))
+        attributes[name] = values
+      }
+    }
+
+    return attributes
+  }
+
+  /**
+   * GPU 拾取：将相机视口裁剪到鼠标所在的 1 像素，用 ID 材质渲染点云后读取像素
+   */
+  private pickGPU(x: number, y: number, objects: THREE.Object3D[]): PickResultType | null {
+    const scene = this.context.getScene()
+    const camera = this.context.getCamera()
+    const renderer = this.context.getRenderer()
+    if (!scene || !camera || !renderer) return null
+    if (
+      !(camera instanceof THREE.PerspectiveCamera || camera instanceof THREE.OrthographicCamera)
+    ) {
+      return null
+    }
+
+    this.idTarget ??= new THREE.WebGLRenderTarget(1, 1)
+    this.occluderMaterial ??= new THREE.MeshBasicMaterial({ color: 0x000000 })
+
+    const pointsList: THREE.Points[] = []
+    objects.forEach((object) =>
+      object.traverseVisible((child) => {
+        if (child instanceof THREE.Points && child !== this.marker && pointsList.length < 255) {
+          pointsList.push(child)
+        }
+      }),
+    )
+    if (pointsList.length === 0) return null
+
+    // 其余可见对象以纯黑材质参与深度测试，避免拾取到被遮挡的点
+    const restore = new Map<THREE.Object3D, THREE.Material | THREE.Material[]>()
+    scene.traverseVisible((child) => {
+      const mesh = child as THREE.Mesh
+      if (!mesh.material) return
+
+      restore.set(mesh, mesh.material)
+      const index = pointsList.indexOf(child as THREE.Points)
+      if (index >= 0) {
+        mesh.material = this.getIdMaterial(child as THREE.Points, index + 1, renderer)
+      } else if (child === this.marker || !(child instanceof THREE.Mesh)) {
+        mesh.visible = false
+      } else {
+        mesh.material = this.occluderMaterial!
+      }
+    })
+
+    const background = scene.background
+    const clearColor = renderer.getClearColor(new THREE.Color())
+    const clearAlpha = renderer.getClearAlpha()
+    const canvas = renderer.domElement
+
+    scene.background = null
+    renderer.setClearColor(0x000000, 0)
+    camera.setViewOffset(canvas.clientWidth, canvas.clientHeight, x, y, 1, 1)
+    renderer.setRenderTarget(this.idTarget)
+    renderer.clear()
+    renderer.render(scene, camera)
+
+    const pixel = new Uint8Array(4)
+    renderer.readRenderTargetPixels(this.idTarget, 0, 0, 1, 1, pixel)
+
+    renderer.setRenderTarget(null)
+    camera.clearViewOffset()
+    renderer.setClearColor(clearColor, clearAlpha)
+    scene.background = background
+    restore.forEach((material, child) => {
+      ;(child as THREE.Mesh).material = material
+      child.visible = true
+    })
+
+    const objectId = pixel[3]
+    const id = pixel[0] | (pixel[1] << 8) | (pixel[2] << 16)
+    if (objectId === 0 || id === 0) return null
+
+    const object = pointsList[objectId - 1]
+    const index = id - 1
+    const position = new THREE.Vector3()
+      .fromBufferAttribute(object.geometry.getAttribute('position'), index)
+      .applyMatrix4(object.matrixWorld)
+
+    return {
+      object,
+      index,
+      faceIndex: null,
+      position,
+      distance: camera.getWorldPosition(new THREE.Vector3()).distanceTo(position),
+      attributes: this.readAttributes(object, index),
+    }
+  }
+
+  private getIdMaterial(points: THREE.Points, objectId: number, renderer: THREE.WebGLRenderer) {
+    const source = Array.isArray(points.material) ? points.material[0] : points.material
+    let material = this.idMaterials.get(points)
+    if (!material) {
+      const pointMaterial = source instanceof PointMaterial
+      material = new THREE.ShaderMaterial({
+        defines: pointMaterial ? { POINT_MATERIAL: '' } : {},
+        uniforms: {
+          objectId: { value: 0 },
+          pointSize: { value: 1 },
+          sizeAttenuation: { value: true },
+          scale: { value: 1 },
+          ...(pointMaterial ? createPointSizeUniforms() : {}),
+        },
+        vertexShader: ID_VERTEX_SHADER,
+        fragmentShader: ID_FRAGMENT_SHADER,
+        blending: THREE.NoBlending,
+      })
+      // 与点云材质相同，被裁剪的点不写入 ID 缓冲，也就不会挡住其后可见的点
+      this.context.getClipping()?.patch(material)
+      this.idMaterials.set(points, material)
+    }
+
+    material.uniforms.objectId.value = objectId
+
+    // 视口偏移后 1 个 CSS 像素对应 ID 缓冲的 1 个像素，因此点大小统一换算为 CSS 像素
+    if (source instanceof PointMaterial) {
+      // 投影矩阵已按视口偏移放大，乘以 1 像素的视口高度后与画布上的比例相同
+      source.copySizeUniforms(material.uniforms as PointSizeUniformsType)
+      material.uniforms.screenHeight.value = 1
+      material.uniforms.pixelRatio.value = 1
+      return material
+    }
+
+    const attenuation = source instanceof THREE.PointsMaterial ? source.sizeAttenuation : true
+    const size = getPointSize(points, this.context.getCamera()!, renderer.domElement.clientHeight)
+    material.uniforms.pointSize.value = attenuation ? size : size / renderer.getPixelRatio()
+    material.uniforms.sizeAttenuation.value = attenuation
+    material.uniforms.scale.value = renderer.domElement.clientHeight / 2
+    return material
+  }
+
+  public dispose() {
+    const canvas = this.context.getRenderer()?.domElement
+    canvas?.removeEventListener('pointerdown', this.onPointerDown)
+    canvas?.removeEventListener('pointerup', this.onPointerUp)
+    canvas?.removeEventListener('pointermove', this.onPointerMove)
+    canvas?.removeEventListener('pointerleave', this.onPointerLeave)
+
+    this.marker.removeFromParent()
+    this.marker.geometry.dispose()
+    ;(this.marker.material as THREE.Material).dispose()
+
+    this.idTarget?.dispose()
+    this.occluderMaterial?.dispose()
+    this.idMaterials.forEach((material) => material.dispose())
+    this.idMaterials.clear()
+  }
+}
@@ -0,0 +1,501 @@
+import * as THREE from 'three'
+import Colormap, { type ColormapStops, type ColormapType } from './Colormap'
+import { bindRenderSource, invalidateRenderSources } from './renderSource'
+import type { PointCloudData } from './loaders'
+
+export type AccumulatorFadeType = 'alpha' | 'size' | 'both' | 'none'
+
+export interface PointAccumulatorOptionsType {
+  scene?: THREE.Scene
+  frames?: number
+  pointsPerFrame?: number
+  maxAge?: number
+  maxFrames?: number
+  fade?: AccumulatorFadeType
+  fadeMin?: number
+  pointSize?: number
+  colorMode?: 'rgb' | 'height' | 'intensity'
+  colormap?: ColormapType | ColormapStops
+  colorAxis?: 'x' | 'y' | 'z'
+  colorRange?: [number, number] | 'auto'
+}
+
+export interface AccumulatorFrameOptionsType {
+  colors?: Float32Array // 每个点 3 个（rgb）或 4 个（rgba）分量，alpha 会被忽略
+  intensity?: ArrayLike<number>
+  time?: number // 帧时间（毫秒，performance.now() 时间轴），默认为当前时间
+}
+
+interface FrameSlotType {
+  time: number // 相对于 startTime 的毫秒数
+  count: number
+  box: THREE.Box3
+  intensity: [number, number] | null
+}
+
+// 未使用的槽位写入该时间，在着色器中始终视为过期
+const EMPTY_TIME = -1e30
+
+const FADE_MODES: Record<AccumulatorFadeType, number> = { none: 0, alpha: 1, size: 2, both: 3 }
+
+const AXIS_INDEX = { x: 0, y: 1, z: 2 } as const
+
+/**
+ * PointAccumulator 多帧点云累积类
+ *
+ * 在同一个几何体中按固定大小的环形缓冲区保存最近若干帧点云，按帧的时间在着色器中淡出、过期，
+ * 不会为每一帧创建或销毁对象。
+ *
+ * 主要功能：
+ * - 每帧占用一个固定槽位（pointsPerFrame 个点），写满 frames 帧后覆盖最旧的帧
+ * - 按时间（maxAge）或帧数（maxFrames）过期，过期判断在着色器中完成，只更新 uniform
+ * - 按帧龄淡出透明度或点大小；不按透明度淡出（none / size）时写入深度，可配合 EDL 后处理
+ * - 支持暂停以及在保留的历史帧中拖动（scrub）回看，暂停期间新帧照常写入
+ * - 支持 rgb 顶点颜色，或按高度、强度着色（色带）
+ * - 提供 getVersion / isAnimating，Viewer 按需渲染时在淡出、过期期间持续渲染
+ *
+ * 构造参数 PointAccumulatorOptionsType:
+ * @param scene           THREE.Scene 实例，点云会自动添加到该场景
+ * @param frames          环形缓冲区的帧数，默认 30
+ * @param pointsPerFrame  每帧的最大点数，超出部分被丢弃，默认 100000
+ * @param maxAge          帧的最长保留时间（毫秒），默认不限；不限时按保留帧中最新的一帧计算淡出
+ * @param maxFrames       同时显示的最大帧数，默认等于 frames
+ * @param fade            淡出方式 alpha / size / both / none，默认 alpha；alpha / both 时点为半透明，不写入深度
+ * @param fadeMin         最旧的帧淡出到的比例，默认 0
+ * @param pointSize       点大小（世界单位），默认 0.5
+ * @param colorMode       着色模式 rgb / height / intensity，默认 rgb
+ * @param colormap        色带，默认 viridis
+ * @param colorAxis       height 模式下的高度方向，默认 y
+ * @param colorRange      色带数值范围，auto 时根据保留的帧自动计算，默认 auto
+ */
+export default class PointAccumulator {
+  private frames: number
+  private pointsPerFrame: number
+  private maxAge: number
+  private maxFrames: number
+  private slots: FrameSlotType[] = []
+  private head = 0
+  private startTime = performance.now()
+
+  private paused = false
+  private displayTime = 0 // 暂停或回看时显示的时间
+  private version = 0 // 帧数据或显示设置每次变化时加一
+
+  private colormap: Colormap
+  private colorMode: 'rgb' | 'height' | 'intensity'
+  private colorAxis: 'x' | 'y' | 'z'
+  private colorRange: [number, number] | 'auto'
+
+  private scene: THREE.Scene | undefined
+  private points: THREE.Points
+  private geometry = new THREE.BufferGeometry()
+  private material: THREE.ShaderMaterial
+  private bounds = new THREE.Box3()
+  private size = new THREE.Vector2()
+
+  constructor(private options: PointAccumulatorOptionsType = {}) {
+    this.frames = Math.max(this.options.frames ?? 30, 1)
+    this.pointsPerFrame = Math.max(this.options.pointsPerFrame ?? 100000, 1)
+    this.maxAge = this.options.maxAge ?? Infinity
+    this.maxFrames = this.options.maxFrames ?? this.frames
+    this.colorMode = this.options.colorMode ?? 'rgb'
+    this.colorAxis = this.options.colorAxis ?? 'y'
+    this.colorRange = this.options.colorRange ?? 'auto'
+    this.scene = this.options.scene
+
+    for (let i = 0; i < this.frames; i++) {
+      this.slots.push({ time: EMPTY_TIME, count: 0, box: new THREE.Box3(), intensity: null })
+    }
+
+    this.colormap = new Colormap({ colormap: this.options.colormap })
+    this.material = this.createMaterial()
+    this.applyFade(this.options.fade ?? 'alpha')
+    this.colormap.patch(this.material)
+    this.initGeometry()
+
+    this.points = new THREE.Points(this.geometry, this.material)
+    this.points.onBeforeRender = (renderer) => {
+      renderer.getDrawingBufferSize(this.size)
+      this.material.uniforms.screenHeight.value = this.size.y
+      this.update()
+    }
+    bindRenderSource(this.points, this)
+    this.scene?.add(this.points)
+
+    this.setColorMode(this.colorMode, this.colorAxis)
+    this.update()
+  }
+
+  private createMaterial() {
+    return new THREE.ShaderMaterial({
+      vertexColors: true,
+      uniforms: {
+        pointSize: { value: this.options.pointSize ?? 0.5 },
+        screenHeight: { value: window.innerHeight },
+        accumulatorTime: { value: 0 },
+        accumulatorMinTime: { value: 0 },
+        accumulatorFadeSpan: { value: 1 },
+        accumulatorFadeMin: { value: this.options.fadeMin ?? 0 },
+        accumulatorFadeMode: { value: 0 },
+      },
+      vertexShader: `
+        uniform float pointSize;
+        uniform float screenHeight;
+        uniform float accumulatorTime;
+        uniform float accumulatorMinTime;
+        uniform float accumulatorFadeSpan;
+        uniform float accumulatorFadeMin;
+        uniform int accumulatorFadeMode; // 0: none, 1: alpha, 2: size, 3: both
+        attribute float frameTime;
+        varying float vFade;
+        #include <color_pars_vertex>
+
+        void main() {
+          #include <color_vertex>
+          float age = accumulatorTime - frameTime;
+
+          // 过期或晚于显示时间的帧移出裁剪空间
+          if (frameTime < accumulatorMinTime || age < 0.0) {
+            gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+            gl_PointSize = 0.0;
+            vFade = 0.0;
+            return;
+          }
+
+          float fade = mix(1.0, accumulatorFadeMin, clamp(age / accumulatorFadeSpan, 0.0, 1.0));
+          vFade = accumulatorFadeMode == 1 || accumulatorFadeMode == 3 ? fade : 1.0;
+
+          vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+          gl_Position = projectionMatrix * mvPosition;
+          gl_PointSize = pointSize * (screenHeight / -mvPosition.z);
+          if (accumulatorFadeMode >= 2) gl_PointSize *= fade;
+        }
+      `,
+      fragmentShader: `
+        varying float vFade;
+        #include <color_pars_fragment>
+
+        void main() {
+          vec2 uv = gl_PointCoord - vec2(0.5);
+          if (length(uv) > 0.5 || vFade <= 0.0) discard;
+          gl_FragColor = vec4(vColor.rgb, vFade);
+        }
+      `,
+    })
+  }
+
+  /**
+   * 按透明度淡出时作为半透明物体绘制且不写入深度，避免淡出的点遮挡其后的点；
+   * 其余方式下点不透明，写入深度后 EDL 等依赖深度缓冲的后处理才能生效
+   */
+  private applyFade(fade: AccumulatorFadeType) {
+    const opaque = fade === 'none' || fade === 'size'
+    this.material.uniforms.accumulatorFadeMode.value = FADE_MODES[fade]
+    this.material.transparent = !opaque
+    this.material.depthWrite = opaque
+  }
+
+  private initGeometry() {
+    const capacity = this.frames * this.pointsPerFrame
+    const color = new Float32Array(capacity * 3).fill(1)
+    const frameTime = new Float32Array(capacity).fill(EMPTY_TIME)
+    const intensity = new Float32Array(capacity)
+
+    this.geometry.setAttribute('position', new THREE.Float32BufferAttribute(capacity * 3, 3))
+    this.geometry.setAttribute('color', new THREE.Float32BufferAttribute(color, 3))
+    this.geometry.setAttribute('frameTime', new THREE.Float32BufferAttribute(frameTime, 1))
+    this.geometry.setAttribute('intensity', new THREE.Float32BufferAttribute(intensity, 1))
+    this.geometry.setAttribute('scalar', this.geometry.attributes.intensity)
+    this.geometry.boundingSphere = new THREE.Sphere()
+  }
+
+  public getObject() {
+    return this.points
+  }
+
+  /**
+   * 写入一帧点云，覆盖最旧的槽位
+   *
+   * @param positions  坐标，xyz 依次排列
+   * @param options    颜色、强度与帧时间（可选）
+   */
+  public addFrame(positions: Float32Array, options: AccumulatorFrameOptionsType = {}) {
+    const slot = this.slots[this.head]
+    const base = this.head * this.pointsPerFrame
+    const count = Math.min(Math.floor(positions.length / 3), this.pointsPerFrame)
+    const written = Math.max(count, slot.count) // 需要上传的点数，包括清空的旧点
+    const time = (options.time ?? performance.now()) - this.startTime
+
+    const position = this.geometry.attributes.position as THREE.BufferAttribute
+    const color = this.geometry.attributes.color as THREE.BufferAttribute
+    const frameTime = this.geometry.attributes.frameTime as THREE.BufferAttribute
+    const intensity = this.geometry.attributes.intensity as THREE.BufferAttribute
+    const colorArray = color.array as Float32Array
+    const timeArray = frameTime.array as Float32Array
+
+    ;(position.array as Float32Array).set(positions.subarray(0, count * 3), base * 3)
+    slot.box.setFromArray(positions.subarray(0, count * 3))
+
+    const colors = options.colors
+    const colorSize = colors && count > 0 ? colors.length / (positions.length / 3) : 0
+    for (let i = 0; i < count; i++) {
+      const c = (base + i) * 3
+      colorArray[c] = colorSize ? colors![i * colorSize] : 1
+      colorArray[c + 1] = colorSize ? colors![i * colorSize + 1] : 1
+      colorArray[c + 2] = colorSize ? colors![i * colorSize + 2] : 1
+    }
+
+    // 没有强度时清零，避免沿用槽位中旧帧的强度
+    slot.intensity = null
+    const intensityArray = intensity.array as Float32Array
+    if (options.intensity) {
+      let min = Infinity
+      let max = -Infinity
+      for (let i = 0; i < count; i++) {
+        const value = options.intensity[i]
+        intensityArray[base + i] = value
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+      }
+      if (count > 0) slot.intensity = [min, max]
+    } else {
+      intensityArray.fill(0, base, base + count)
+    }
+
+    timeArray.fill(time, base, base + count)
+    timeArray.fill(EMPTY_TIME, base + count, base + written)
+    slot.time = count > 0 ? time : EMPTY_TIME
+    slot.count = count
+
+    position.addUpdateRange(base * 3, written * 3)
+    color.addUpdateRange(base * 3, written * 3)
+    frameTime.addUpdateRange(base, written)
+    intensity.addUpdateRange(base, count)
+    position.needsUpdate = color.needsUpdate = frameTime.needsUpdate = intensity.needsUpdate = true
+
+    this.head = (this.head + 1) % this.frames
+    this.invalidate()
+    this.update()
+  }
+
+  /**
+   * 写入 PointCloudLoader 或 PointCloudPipeline 输出的点云
+   */
+  public addPointCloud(data: PointCloudData, time?: number) {
+    // 缓冲区可能大于 count，颜色按与坐标相同的点数截取，addFrame 才能得到正确的分量数
+    const colorSize = data.colors ? data.colors.length / (data.positions.length / 3) : 0
+    this.addFrame(data.positions.subarray(0, data.count * 3), {
+      colors: data.colors?.subarray(0, data.count * colorSize),
+      intensity: data.intensity,
+      time,
+    })
+  }
+
+  /**
+   * 按当前时间更新过期与淡出的 uniform，每帧渲染前自动调用
+   */
+  public update() {
+    const display = this.getDisplayTime()
+    const retained = this.getRetainedSlots(display)
+    const uniforms = this.material.uniforms
+
+    // 不限保留时间时以最新的保留帧为基准淡出，显示内容只随新帧变化
+    const minTime = retained.length ? retained[0].time : Infinity
+    const maxTime = retained.length ? retained[retained.length - 1].time : display
+    const finite = Number.isFinite(this.maxAge)
+    uniforms.accumulatorTime.value = finite ? display : maxTime
+    uniforms.accumulatorMinTime.value = retained.length ? minTime : -EMPTY_TIME
+    uniforms.accumulatorFadeSpan.value = finite ? this.maxAge : Math.max(maxTime - minTime, 1e-3)
+
+    // 视锥剔除在 onBeforeRender 之前执行，包围球取保留帧包围盒的并集
+    this.bounds.makeEmpty()
+    retained.forEach((slot) => this.bounds.union(slot.box))
+    if (this.bounds.isEmpty()) this.geometry.boundingSphere!.makeEmpty()
+    else this.bounds.getBoundingSphere(this.geometry.boundingSphere!)
+
+    if (this.colorRange === 'auto') this.updateAutoRange(retained)
+  }
+
+  /**
+   * 暂停在当前时间，之后的新帧照常写入但不显示
+   */
+  public pause() {
+    if (this.paused) return
+    this.displayTime = this.getDisplayTime()
+    this.paused = true
+    this.invalidate()
+  }
+
+  public resume() {
+    this.paused = false
+    this.invalidate()
+  }
+
+  public isPaused() {
+    return this.paused
+  }
+
+  /**
+   * 回看到指定时间（performance.now() 时间轴），会自动暂停
+   */
+  public seek(time: number) {
+    this.paused = true
+    this.displayTime = time - this.startTime
+    this.invalidate()
+    this.update()
+  }
+
+  /**
+   * 在保留的历史帧中拖动，0 为最旧的帧，1 为最新的帧，会自动暂停
+   */
+  public scrub(t: number) {
+    const range = this.getTimeRange()
+    if (!range) return
+    this.seek(range[0] + (range[1] - range[0]) * THREE.MathUtils.clamp(t, 0, 1))
+  }
+
+  /**
+   * 缓冲区中最旧与最新帧的时间（performance.now() 时间轴），没有帧时返回 null
+   */
+  public getTimeRange(): [number, number] | null {
+    const times = this.slots.filter((slot) => slot.count > 0).map((slot) => slot.time)
+    if (!times.length) return null
+    return [Math.min(...times) + this.startTime, Math.max(...times) + this.startTime]
+  }
+
+  /**
+   * 当前显示的帧数
+   */
+  public getFrameCount() {
+    return this.getRetainedSlots(this.getDisplayTime()).length
+  }
+
+  /**
+   * 数据或显示设置的版本号，每次变化时加一
+   */
+  public getVersion() {
+    return this.version
+  }
+
+  /**
+   * 帧数据或显示设置发生变化：版本号加一，并唤醒按需渲染的 Viewer
+   */
+  private invalidate() {
+    this.version++
+    invalidateRenderSources()
+  }
+
+  /**
+   * 显示内容是否正在随时间变化（未暂停，且有帧在淡出、等待过期或等待到达帧时间）
+   */
+  public isAnimating() {
+    if (this.paused) return false
+    const display = this.getDisplayTime()
+    if (this.slots.some((slot) => slot.count > 0 && slot.time > display)) return true
+    if (!Number.isFinite(this.maxAge)) return false
+    return this.getRetainedSlots(display).length > 0
+  }
+
+  public setMaxAge(maxAge: number) {
+    this.maxAge = maxAge
+    this.invalidate()
+  }
+
+  public setMaxFrames(maxFrames: number) {
+    this.maxFrames = Math.min(maxFrames, this.frames)
+    this.invalidate()
+  }
+
+  public setFade(fade: AccumulatorFadeType, fadeMin?: number) {
+    this.applyFade(fade)
+    if (fadeMin !== undefined) this.material.uniforms.accumulatorFadeMin.value = fadeMin
+    this.invalidate()
+  }
+
+  public setPointSize(size: number) {
+    this.material.uniforms.pointSize.value = size
+    this.invalidate()
+  }
+
+  public setColorMode(mode: 'rgb' | 'height' | 'intensity', axis?: 'x' | 'y' | 'z') {
+    this.colorMode = mode
+    if (axis) this.colorAxis = axis
+
+    const direction = new THREE.Vector3().setComponent(AXIS_INDEX[this.colorAxis], 1)
+    this.colormap.setMode(
+      mode === 'rgb' ? 'rgb' : mode === 'height' ? 'height' : 'scalar',
+      direction,
+    )
+    this.invalidate()
+  }
+
+  public setColormap(colormap: ColormapType | ColormapStops) {
+    this.colormap.setColormap(colormap)
+    this.invalidate()
+  }
+
+  public setColorRange(range: [number, number] | 'auto') {
+    this.colorRange = range
+    if (range !== 'auto') this.colormap.setRange(range[0], range[1])
+    this.invalidate()
+  }
+
+  /**
+   * 清空所有帧
+   */
+  public clear() {
+    const frameTime = this.geometry.attributes.frameTime as THREE.BufferAttribute
+    ;(frameTime.array as Float32Array).fill(EMPTY_TIME)
+    frameTime.clearUpdateRanges()
+    frameTime.needsUpdate = true
+
+    this.slots.forEach((slot) => {
+      slot.time = EMPTY_TIME
+      slot.count = 0
+      slot.box.makeEmpty()
+      slot.intensity = null
+    })
+    this.head = 0
+    this.invalidate()
+    this.update()
+  }
+
+  public dispose() {
+    this.points.removeFromParent()
+    this.geometry.dispose()
+    this.material.dispose()
+    this.colormap.dispose()
+  }
+
+  private getDisplayTime() {
+    return this.paused ? this.displayTime : performance.now() - this.startTime
+  }
+
+  /**
+   * 在显示时间下仍然可见的帧，按时间从旧到新排列
+   */
+  private getRetainedSlots(display: number) {
+    return this.slots
+      .filter(
+        (slot) => slot.count > 0 && slot.time <= display && display - slot.time <= this.maxAge,
+      )
+      .sort((a, b) => a.time - b.time)
+      .slice(-this.maxFrames)
+  }
+
+  private updateAutoRange(retained: FrameSlotType[]) {
+    if (!retained.length) return
+
+    if (this.colorMode === 'height') {
+      const axis = this.colorAxis
+      this.colormap.setRange(this.bounds.min[axis], this.bounds.max[axis])
+    } else if (this.colorMode === 'intensity') {
+      const ranges = retained.map((slot) => slot.intensity).filter((range) => range !== null)
+      if (!ranges.length) return
+      this.colormap.setRange(
+        Math.min(...ranges.map((range) => range[0])),
+        Math.max(...ranges.map((range) => range[1])),
+      )
+    }
+  }
+}
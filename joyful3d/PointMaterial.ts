@@ -0,0 +1,292 @@
+import * as THREE from 'three'
+
+/**
+ * 点大小模式：fixed 固定像素，world 世界单位，adaptive 按点云平均点间距自适应
+ */
+export type PointSizeModeType = 'fixed' | 'world' | 'adaptive'
+
+/**
+ * 点形状：square 方形，circle 圆形，paraboloid 抛物面（写入深度，相邻的点互相穿插形成连续表面）
+ */
+export type PointShapeType = 'square' | 'circle' | 'paraboloid'
+
+export interface PointMaterialOptionsType {
+  size?: number // 点大小，fixed 为像素，world 为世界单位，adaptive 为平均点间距的倍数，默认 0.5
+  sizeMode?: PointSizeModeType // 点大小模式，默认 world
+  shape?: PointShapeType // 点形状，默认 square
+  minSize?: number // world / adaptive 模式下的最小像素，默认 1
+  maxSize?: number // world / adaptive 模式下的最大像素，默认 64
+  opacity?: number // 透明度，默认 1
+  alpha?: boolean // 顶点颜色是否包含 alpha 通道，为 true 时始终透明渲染，默认 false
+}
+
+const SIZE_MODES: Record<PointSizeModeType, number> = { fixed: 0, world: 1, adaptive: 2 }
+const SHAPES: Record<PointShapeType, number> = { square: 0, circle: 1, paraboloid: 2 }
+
+/**
+ * 点大小的计算，Picker 的 GPU 拾取材质也使用这段代码，保证拾取范围与显示一致
+ */
+export const POINT_SIZE_PARS_VERTEX = /* glsl */ `
+uniform float pointSize;
+uniform int pointSizeMode; // 0: fixed, 1: world, 2: adaptive
+uniform float pointSpacing; // 平均点间距（世界单位）
+uniform vec2 pointSizeRange; // 最小、最大像素
+uniform bool pointScaleEnabled;
+uniform float screenHeight; // 当前视口高度（像素）
+uniform float pixelRatio;
+attribute float pointScale;
+
+// 世界单位到像素的比例，正交投影与距离无关
+float getPointPixelScale(vec4 mvPosition) {
+  float scale = projectionMatrix[1][1] * screenHeight * 0.5;
+  return projectionMatrix[2][3] == -1.0 ? scale / -mvPosition.z : scale;
+}
+
+float getPointSize(vec4 mvPosition) {
+  float size = pointScaleEnabled ? pointSize * pointScale : pointSize;
+  if (pointSizeMode == 0) return size * pixelRatio;
+
+  float world = pointSizeMode == 2 ? size * pointSpacing : size;
+  float pixels = world * getPointPixelScale(mvPosition);
+  return clamp(pixels, pointSizeRange.x * pixelRatio, pointSizeRange.y * pixelRatio);
+}
+`
+
+const VERTEX_SHADER = /* glsl */ `
+${POINT_SIZE_PARS_VERTEX}
+#include <color_pars_vertex>
+#if POINT_SHAPE == 2
+varying vec3 vViewPosition;
+varying float vPointRadius;
+#endif
+
+void main() {
+  #include <color_vertex>
+  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  gl_PointSize = getPointSize(mvPosition);
+  #if POINT_SHAPE == 2
+  vViewPosition = mvPosition.xyz;
+  vPointRadius = gl_PointSize * 0.5 / getPointPixelScale(mvPosition);
+  #endif
+}
+`
+
+const FRAGMENT_SHADER = /* glsl */ `
+uniform float opacity;
+#include <color_pars_fragment>
+#if POINT_SHAPE == 2
+uniform mat4 projectionMatrix;
+varying vec3 vViewPosition;
+varying float vPointRadius;
+#endif
+
+void main() {
+  #if POINT_SHAPE > 0
+  vec2 uv = gl_PointCoord * 2.0 - 1.0;
+  float r2 = dot(uv, uv);
+  if (r2 > 1.0) discard;
+  #endif
+
+  vec4 diffuseColor = vec4(1.0, 1.0, 1.0, opacity);
+  #include <color_fragment>
+
+  #if POINT_SHAPE == 2
+  // 中心向相机凸起，深度按抛物面偏移
+  vec4 clipPosition = projectionMatrix * vec4(vViewPosition + vec3(0.0, 0.0, (1.0 - r2) * vPointRadius), 1.0);
+  gl_FragDepth = clipPosition.z / clipPosition.w * 0.5 + 0.5;
+  #endif
+
+  gl_FragColor = diffuseColor;
+  #include <colorspace_fragment>
+}
+`
+
+/**
+ * 创建点大小相关的 uniform
+ */
+export function createPointSizeUniforms() {
+  return {
+    pointSize: { value: 0.5 },
+    pointSizeMode: { value: SIZE_MODES.world },
+    pointSpacing: { value: 1 },
+    pointSizeRange: { value: new THREE.Vector2(1, 64) },
+    pointScaleEnabled: { value: false },
+    screenHeight: { value: 1 },
+    pixelRatio: { value: 1 },
+  }
+}
+
+export type PointSizeUniformsType = ReturnType<typeof createPointSizeUniforms>
+
+/**
+ * PointMaterial 点云材质
+ *
+ * Points 使用的 ShaderMaterial，不论顶点颜色是否包含 alpha 通道都使用同一个材质。
+ *
+ * 主要功能：
+ * - 点大小支持固定像素、世界单位和按平均点间距自适应三种模式，后两者可限制像素范围
+ * - 可选逐点的大小系数（pointScale 顶点属性）
+ * - 支持方形、圆形与抛物面三种点形状
+ * - 视口高度与像素比在每次绘制前从渲染器读取，画布尺寸变化、多视口和离屏渲染时点大小都正确
+ * - 保留颜色 chunk，可被 Colormap、ClipManager 与选中高亮注入
+ *
+ * 构造参数 PointMaterialOptionsType:
+ * @param size      点大小，fixed 为像素，world 为世界单位，adaptive 为平均点间距的倍数，默认 0.5
+ * @param sizeMode  点大小模式，默认 world
+ * @param shape     点形状，默认 square
+ * @param minSize   world / adaptive 模式下的最小像素，默认 1
+ * @param maxSize   world / adaptive 模式下的最大像素，默认 64
+ * @param opacity   透明度，默认 1
+ * @param alpha     顶点颜色是否包含 alpha 通道，默认 false
+ */
+export default class PointMaterial extends THREE.ShaderMaterial {
+  declare uniforms: PointSizeUniformsType & { opacity: THREE.IUniform<number> }
+
+  private alpha: boolean
+  private viewport = new THREE.Vector4()
+
+  constructor(options: PointMaterialOptionsType = {}) {
+    super({
+      vertexColors: true,
+      uniforms: { ...createPointSizeUniforms(), opacity: { value: 1 } },
+      defines: { POINT_SHAPE: SHAPES[options.shape ?? 'square'] },
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+    })
+    this.alpha = options.alpha ?? false
+    this.transparent = this.alpha
+
+    if (options.size !== undefined) this.setSize(options.size)
+    if (options.sizeMode !== undefined) this.setSizeMode(options.sizeMode)
+    this.setSizeRange(options.minSize ?? 1, options.maxSize ?? 64)
+    this.setOpacity(options.opacity ?? 1)
+  }
+
+  public getSize(): number {
+    return this.uniforms.pointSize.value
+  }
+
+  public setSize(size: number) {
+    this.uniforms.pointSize.value = size
+  }
+
+  public getSizeMode() {
+    const mode = this.uniforms.pointSizeMode.value
+    return (Object.keys(SIZE_MODES) as PointSizeModeType[]).find((key) => SIZE_MODES[key] === mode)!
+  }
+
+  public setSizeMode(mode: PointSizeModeType) {
+    this.uniforms.pointSizeMode.value = SIZE_MODES[mode]
+  }
+
+  public getShape() {
+    const shape = this.defines.POINT_SHAPE
+    return (Object.keys(SHAPES) as PointShapeType[]).find((key) => SHAPES[key] === shape)!
+  }
+
+  /**
+   * 设置点形状，形状通过 define 切换，需要重新编译着色器
+   */
+  public setShape(shape: PointShapeType) {
+    if (this.defines.POINT_SHAPE === SHAPES[shape]) return
+    this.defines.POINT_SHAPE = SHAPES[shape]
+    this.needsUpdate = true
+  }
+
+  /**
+   * world / adaptive 模式下点的像素范围（CSS 像素）
+   */
+  public getSizeRange(): [number, number] {
+    const range = this.uniforms.pointSizeRange.value
+    return [range.x, range.y]
+  }
+
+  public setSizeRange(min: number, max: number) {
+    this.uniforms.pointSizeRange.value.set(min, Math.max(min, max))
+  }
+
+  /**
+   * 设置平均点间距（世界单位），adaptive 模式下点大小为其倍数
+   */
+  public setSpacing(spacing: number) {
+    this.uniforms.pointSpacing.value = spacing
+  }
+
+  public getSpacing(): number {
+    return this.uniforms.pointSpacing.value
+  }
+
+  /**
+   * 是否按 pointScale 顶点属性逐点缩放点大小
+   */
+  public setSizeAttributeEnabled(enabled: boolean) {
+    this.uniforms.pointScaleEnabled.value = enabled
+  }
+
+  public getOpacity() {
+    return this.opacity
+  }
+
+  /**
+   * 设置透明度，小于 1 或包含 alpha 通道时透明渲染
+   */
+  public setOpacity(opacity: number) {
+    this.opacity = opacity
+    this.uniforms.opacity.value = opacity
+
+    const transparent = this.alpha || opacity < 1
+    // transparent 变化会切换渲染队列与着色器，需要重新编译
+    if (this.transparent !== transparent) {
+      this.transparent = transparent
+      this.needsUpdate = true
+    }
+  }
+
+  /**
+   * 绘制前调用，从渲染器读取当前视口高度与像素比
+   */
+  public update(renderer: THREE.WebGLRenderer) {
+    renderer.getCurrentViewport(this.viewport)
+    this.uniforms.screenHeight.value = this.viewport.w
+    this.uniforms.pixelRatio.value = renderer.getPixelRatio()
+  }
+
+  /**
+   * 把点大小相关的 uniform 复制到其他材质（如 GPU 拾取的 ID 材质），视口高度与像素比由调用方设置
+   */
+  public copySizeUniforms(uniforms: PointSizeUniformsType) {
+    uniforms.pointSize.value = this.uniforms.pointSize.value
+    uniforms.pointSizeMode.value = this.uniforms.pointSizeMode.value
+    uniforms.pointSpacing.value = this.uniforms.pointSpacing.value
+    uniforms.pointSizeRange.value.copy(this.uniforms.pointSizeRange.value)
+    uniforms.pointScaleEnabled.value = this.uniforms.pointScaleEnabled.value
+  }
+
+  /**
+   * 距离相机 distance 处点的直径（世界单位），用于 Raycaster 拾取半径；不包含逐点的大小系数
+   *
+   * @param camera    当前相机
+   * @param distance  与相机的距离
+   * @param height    画布高度（CSS 像素）
+   */
+  public getWorldSize(camera: THREE.Camera, distance: number, height: number) {
+    const projection = camera.projectionMatrix.elements
+    const perspective = projection[11] === -1
+    const scale = (projection[5] * height * 0.5) / (perspective ? Math.max(distance, 1e-6) : 1)
+
+    const { pointSize, pointSizeMode, pointSpacing, pointSizeRange } = this.uniforms
+    if (pointSizeMode.value === SIZE_MODES.fixed) return pointSize.value / scale
+
+    const world =
+      pointSizeMode.value === SIZE_MODES.adaptive
+        ? pointSize.value * pointSpacing.value
+        : pointSize.value
+    const pixels = THREE.MathUtils.clamp(
+      world * scale,
+      pointSizeRange.value.x,
+      pointSizeRange.value.y,
+    )
+    return pixels / scale
+  }
+}
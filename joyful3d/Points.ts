@@ -1,9 +1,86 @@
 import * as THREE from 'three'
+import type { PointCloudData } from './loaders'
+import Colormap, { type ColormapStops, type ColormapType } from './Colormap'
+import { bindRenderSource, invalidateRenderSources } from './renderSource'
+import PointMaterial, { type PointShapeType, type PointSizeModeType } from './PointMaterial'
+
+export type ColorModeType = 'rgb' | 'height' | 'intensity' | 'attribute'
+
+export type ColorAxisType = 'x' | 'y' | 'z' | THREE.Vector3Like
 
 export interface PointsOptionsType {
   scene?: THREE.Scene
   maxPoints?: number
   alpha?: boolean
+  colorMode?: ColorModeType
+  colormap?: ColormapType | ColormapStops
+  colorAxis?: ColorAxisType
+  colorAttribute?: string
+  colorRange?: [number, number] | 'auto'
+  colorClamp?: boolean
+  pointSize?: number
+  sizeMode?: PointSizeModeType
+  shape?: PointShapeType
+  minPointSize?: number
+  maxPointSize?: number
+  opacity?: number
+  sizeAttribute?: string
+}
+
+/**
+ * 可序列化的显示状态，不包含点数据
+ */
+export interface PointsStateType {
+  visible: boolean
+  pointSize: number
+  sizeMode: PointSizeModeType
+  shape: PointShapeType
+  opacity: number
+  colorMode: ColorModeType
+  colormap: ColormapType | ColormapStops
+  colorAxis: ColorAxisType
+  colorAttribute: string
+  colorRange: [number, number] | 'auto'
+  colorClamp: boolean
+}
+
+export interface PointDataType {
+  index: number
+  position: THREE.Vector3
+  color: THREE.Color
+  alpha: number
+  attributes: Record<string, number> // 单通道顶点属性，如 intensity
+}
+
+export interface PointUpdateType {
+  position?: THREE.Vector3Like
+  color?: { r: number; g: number; b: number }
+  alpha?: number
+  attributes?: Record<string, number>
+}
+
+const SELECTION_ATTRIBUTE = 'selected' // 选中标记，1 为选中
+const SIZE_ATTRIBUTE = 'pointScale' // 逐点大小系数，指向 sizeAttribute 指定的属性
+
+const SELECTION_PARS_VERTEX = /* glsl */ `
+attribute float selected;
+uniform vec3 selectionColor;
+uniform bool selectionIsolate;
+`
+
+// 放在 main 的末尾，此时颜色（包括色带）已经计算完毕
+const SELECTION_VERTEX = /* glsl */ `
+if (selected > 0.5) {
+  vColor.rgb = mix(vColor.rgb, selectionColor, 0.7);
+} else if (selectionIsolate) {
+  gl_Position = vec4(2.0, 2.0, 2.0, 1.0); // 移出裁剪空间，该点不会被绘制
+}
+`
+
+const AXES: Record<'x' | 'y' | 'z', THREE.Vector3Like> = {
+  x: { x: 1, y: 0, z: 0 },
+  y: { x: 0, y: 1, z: 0 },
+  z: { x: 0, y: 0, z: 1 },
 }
 
 /**
@@ -14,25 +91,64 @@ export interface PointsOptionsType {
  * 主要功能：
  * - 支持最大点数限制，循环复用缓冲区，提升性能
  * - 支持 RGB 或 RGBA 颜色（可选 alpha 通道）
- * - 支持自定义点大小和透明度
- * - 提供 addPoint 方法动态添加点
+ * - 点大小支持固定像素、世界单位和按点密度自适应三种模式，可按顶点属性逐点缩放
+ * - 支持方形、圆形与抛物面点形状，以及透明度，与是否启用 alpha 通道无关
+ * - 提供 addPoint 方法动态添加点，setPoints / appendPoints 批量写入类型化数组
+ * - 提供 setPointCloud / appendPointCloud 方法写入 PointCloudLoader 解析出的点云
+ * - 支持按索引读取、修改、删除点
+ * - 支持选中部分点（高亮显示），只显示选中的点，以及按索引批量修改属性、提取点云数据
+ * - 只在每帧渲染前上传变化的缓冲区区间（updateRanges）
+ * - 支持按高度、强度或任意标量属性着色（色带），切换色带和范围只更新 uniform
+ * - 支持通过 toJSON / fromJSON 保存和恢复点大小、着色等显示状态
  * - 提供 dispose 方法释放资源
  *
  * 构造参数 PointsOptionsType:
  * @param scene      THREE.Scene 实例，点云会自动添加到该场景
  * @param maxPoints  最大点数，超出后循环覆盖，默认 1000
  * @param alpha      是否启用 alpha 通道，默认 false
+ * @param colorMode       着色模式 rgb / height / intensity / attribute，默认 rgb
+ * @param colormap        色带，默认 viridis
+ * @param colorAxis       height 模式下的高度方向，默认 y
+ * @param colorAttribute  attribute 模式下使用的顶点属性名
+ * @param colorRange      色带数值范围，auto 时根据当前数据自动计算，默认 auto
+ * @param colorClamp      超出范围的数值是否截断到两端颜色，false 时隐藏，默认 true
+ * @param pointSize       点大小，fixed 为像素，world 为世界单位，adaptive 为平均点间距的倍数，默认 0.5
+ * @param sizeMode        点大小模式 fixed / world / adaptive，默认 world
+ * @param shape           点形状 square / circle / paraboloid，启用 alpha 时默认 circle，否则 square
+ * @param minPointSize    world / adaptive 模式下的最小像素，默认 1
+ * @param maxPointSize    world / adaptive 模式下的最大像素，默认 64
+ * @param opacity         透明度，默认 1
+ * @param sizeAttribute   逐点大小系数使用的单通道属性名，默认不使用
  */
 export default class Points {
   private maxPoints: number
   private alpha: boolean
   private colorLength: number
-  private currentIndex = 0
+  private count = 0 // 当前绘制的点数
+  private head = 0 // 下一个写入的槽位
+  private bounds = new THREE.Box3()
+  private boundsDirty = false // 有点被覆盖或删除后包围盒需要重新计算（收缩）
+  private tempVector = new THREE.Vector3()
+
+  private colormap: Colormap
+  private colorMode: ColorModeType = 'rgb'
+  private colormapName: ColormapType | ColormapStops
+  private colorAxis: ColorAxisType = 'y'
+  private colorAttribute = '' // 当前用于着色的标量属性名
+  private colorRange: [number, number] | 'auto' = 'auto'
+  private rangeDirty = true // 自动范围是否需要重新计算
+  private sizeAttribute: string | null = null // 逐点大小系数使用的属性名
+  private version = 0 // 点数据或显示状态每次变化时加一
+
+  private selectionUniforms = {
+    selectionColor: { value: new THREE.Color(0xff2222) },
+    selectionIsolate: { value: false },
+  }
 
   private scene: THREE.Scene | undefined
   private points: THREE.Points
   private geometry: THREE.BufferGeometry
-  private material: THREE.Material
+  private material: PointMaterial
 
   constructor(private options: PointsOptionsType = {}) {
     this.maxPoints = this.options.maxPoints || 1000
@@ -42,50 +158,41 @@ export default class Points {
 
     this.geometry = new THREE.BufferGeometry()
 
+    this.colormapName = this.options.colormap || 'viridis'
+    this.colormap = new Colormap({
+      colormap: this.options.colormap,
+      clamp: this.options.colorClamp,
+    })
     this.material = this.createMaterial()
+    this.colormap.patch(this.material)
+    this.patchSelection(this.material)
     this.initGeometry()
     this.points = new THREE.Points(this.geometry, this.material)
+    this.points.onBeforeRender = (renderer) => {
+      this.material.update(renderer)
+      this.refresh()
+    }
+    bindRenderSource(this.points, this)
     this.scene?.add(this.points)
+
+    this.setColorRange(this.options.colorRange || 'auto')
+    this.setColorMode(this.options.colorMode || 'rgb', {
+      axis: this.options.colorAxis,
+      attribute: this.options.colorAttribute,
+    })
+    if (this.options.sizeAttribute) this.setSizeAttribute(this.options.sizeAttribute)
   }
 
-  private createMaterial(): THREE.Material {
-    if (this.alpha) {
-      return new THREE.ShaderMaterial({
-        transparent: true,
-        depthTest: true,
-        vertexColors: true,
-        uniforms: {
-          pointSize: { value: 0.5 },
-          screenHeight: { value: window.innerHeight },
-        },
-        vertexShader: `
-          varying vec4 vColor;
-          uniform float pointSize;
-          uniform float screenHeight;
-
-          void main() {
-            vColor = color;
-            vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-            gl_Position = projectionMatrix * mvPosition;
-            gl_PointSize = pointSize * (screenHeight / -mvPosition.z);
-          }
-        `,
-        fragmentShader: `
-          varying vec4 vColor;
-
-          void main() {
-            vec2 uv = gl_PointCoord - vec2(0.5);
-            if (length(uv) > 0.5) discard;
-            gl_FragColor = vColor;
-          }
-        `,
-      })
-    } else {
-      return new THREE.PointsMaterial({
-        size: 0.5,
-        vertexColors: true,
-      })
-    }
+  private createMaterial() {
+    return new PointMaterial({
+      alpha: this.alpha,
+      size: this.options.pointSize ?? 0.5,
+      sizeMode: this.options.sizeMode,
+      shape: this.options.shape ?? (this.alpha ? 'circle' : 'square'),
+      minSize: this.options.minPointSize,
+      maxSize: this.options.maxPointSize,
+      opacity: this.options.opacity,
+    })
   }
 
   private initGeometry() {
@@ -94,6 +201,10 @@ export default class Points {
 
     this.geometry.setAttribute('position', new THREE.Float32BufferAttribute(positionArray, 3))
     this.geometry.setAttribute('color', new THREE.Float32BufferAttribute(colorArray, this.colorLength))
+    this.geometry.setAttribute(
+      SELECTION_ATTRIBUTE,
+      new THREE.Float32BufferAttribute(new Float32Array(this.maxPoints), 1),
+    )
     this.geometry.computeBoundingSphere()
   }
 
@@ -101,26 +212,786 @@ export default class Points {
     return this.points
   }
 
+  /**
+   * 当前绘制的点数
+   */
+  public getCount() {
+    return this.count
+  }
+
+  /**
+   * 所有点的索引，按写入的先后排列；循环覆盖后最旧的点位于 head，排在最前
+   */
+  public getIndices() {
+    const start = this.count === this.maxPoints ? this.head : 0
+    return Array.from({ length: this.count }, (_, i) => (start + i) % this.maxPoints)
+  }
+
+  /**
+   * 颜色是否包含 alpha 通道（RGBA）
+   */
+  public hasAlpha() {
+    return this.alpha
+  }
+
+  /**
+   * 单通道顶点属性的名称，如 intensity、classification，不包含内部使用的属性
+   */
+  public getAttributeNames() {
+    return this.getAttributes()
+      .filter(([name, attribute]) => attribute.itemSize === 1 && name !== SELECTION_ATTRIBUTE)
+      .map(([name]) => name)
+  }
+
   public addPoint(x: number, y: number, z: number, r: number, g: number, b: number) {
-    const i = this.currentIndex % this.maxPoints
-    this.geometry.attributes.position.array[i * 3] = x
-    this.geometry.attributes.position.array[i * 3 + 1] = y
-    this.geometry.attributes.position.array[i * 3 + 2] = z
+    const i = this.head
+    if (i < this.count) this.boundsDirty = true
+    const position = this.geometry.attributes.position.array
+    position[i * 3] = x
+    position[i * 3 + 1] = y
+    position[i * 3 + 2] = z
 
-    this.geometry.attributes.color.array[i * this.colorLength] = r
-    this.geometry.attributes.color.array[i * this.colorLength + 1] = g
-    this.geometry.attributes.color.array[i * this.colorLength + 2] = b
+    const color = this.geometry.attributes.color.array
+    color[i * this.colorLength] = r
+    color[i * this.colorLength + 1] = g
+    color[i * this.colorLength + 2] = b
 
     if (this.alpha) {
-      this.geometry.attributes.color.array[i * this.colorLength + 3] = 1
+      color[i * this.colorLength + 3] = 1
+    }
+    this.geometry.attributes[SELECTION_ATTRIBUTE].array[i] = 0
+
+    this.bounds.expandByPoint(this.tempVector.set(x, y, z))
+    this.advance(1)
+    this.markDirty(i, 1, ['position', 'color', SELECTION_ATTRIBUTE])
+  }
+
+  /**
+   * 批量替换所有点
+   *
+   * @param positions   坐标，xyz 依次排列
+   * @param colors      颜色（可选），每个点 3 个（rgb）或 4 个（rgba）分量，缺省为白色
+   * @param attributes  单通道顶点属性（可选），如 { intensity }
+   */
+  public setPoints(
+    positions: Float32Array,
+    colors?: Float32Array,
+    attributes: Record<string, ArrayLike<number>> = {},
+  ) {
+    this.count = 0
+    this.head = 0
+    this.bounds.makeEmpty()
+    this.boundsDirty = false
+    this.appendPoints(positions, colors, attributes)
+  }
+
+  /**
+   * 批量追加点，超出 maxPoints 后从头循环覆盖最旧的点
+   *
+   * 参数同 setPoints，只有被写入的属性区间会在下一帧上传到 GPU；
+   * 已有但未传入的单通道属性在写入区间内清零，避免沿用被覆盖的点的值
+   */
+  public appendPoints(
+    positions: Float32Array,
+    colors?: Float32Array,
+    attributes: Record<string, ArrayLike<number>> = {},
+  ) {
+    const total = Math.floor(positions.length / 3)
+    if (total === 0) return
+
+    // 一次追加超过 maxPoints 时，前面的点最终也会被覆盖，直接跳过
+    const count = Math.min(total, this.maxPoints)
+    const skip = total - count
+    const colorSize = colors ? colors.length / total : 0
+    const cleared = this.getAttributeNames().filter((name) => !(name in attributes))
+
+    let written = 0
+    while (written < count) {
+      const slot = this.head
+      const length = Math.min(count - written, this.maxPoints - slot)
+      const source = skip + written
+
+      this.writePositions(slot, positions, source, length)
+      this.writeColors(slot, colors, colorSize, source, length)
+      this.geometry.attributes[SELECTION_ATTRIBUTE].array.fill(0, slot, slot + length)
+      for (const name in attributes) {
+        this.writeScalars(name, slot, attributes[name], source, length)
+      }
+      for (const name of cleared) {
+        this.geometry.attributes[name].array.fill(0, slot, slot + length)
+      }
+
+      this.advance(length)
+      this.markDirty(slot, length, [
+        'position',
+        'color',
+        SELECTION_ATTRIBUTE,
+        ...Object.keys(attributes),
+        ...cleared,
+      ])
+      written += length
+    }
+  }
+
+  /**
+   * 一次性写入点云数据（坐标、颜色、强度、分类），替换当前所有点
+   *
+   * 点数超出 maxPoints 时，与 addPoint 的循环覆盖一致，只保留最后 maxPoints 个点；
+   * 没有颜色时默认白色。强度和分类会写入名为 intensity / classification 的顶点属性
+   */
+  public setPointCloud(data: PointCloudData) {
+    const attributes: Record<string, ArrayLike<number>> = {}
+    if (data.intensity) attributes.intensity = data.intensity
+    if (data.classification) attributes.classification = data.classification
+
+    this.setPoints(data.positions.subarray(0, data.count * 3), data.colors, attributes)
+  }
+
+  /**
+   * 追加点云数据，参数同 setPointCloud，超出 maxPoints 后循环覆盖最旧的点
+   */
+  public appendPointCloud(data: PointCloudData) {
+    const attributes: Record<string, ArrayLike<number>> = {}
+    if (data.intensity) attributes.intensity = data.intensity
+    if (data.classification) attributes.classification = data.classification
+
+    this.appendPoints(data.positions.subarray(0, data.count * 3), data.colors, attributes)
+  }
+
+  /**
+   * 读取指定索引（缓冲区槽位）的点，索引越界时返回 null
+   */
+  public getPointAt(index: number): PointDataType | null {
+    if (index < 0 || index >= this.count) return null
+
+    const position = this.geometry.attributes.position.array
+    const color = this.geometry.attributes.color.array
+    const c = index * this.colorLength
+
+    const attributes: Record<string, number> = {}
+    for (const [name, attribute] of this.getAttributes()) {
+      if (name === 'position' || name === 'color' || name === SELECTION_ATTRIBUTE) continue
+      if (attribute.itemSize !== 1) continue
+      attributes[name] = attribute.array[index]
+    }
+
+    return {
+      index,
+      position: new THREE.Vector3(
+        position[index * 3],
+        position[index * 3 + 1],
+        position[index * 3 + 2],
+      ),
+      color: new THREE.Color(color[c], color[c + 1], color[c + 2]),
+      alpha: this.alpha ? color[c + 3] : 1,
+      attributes,
+    }
+  }
+
+  /**
+   * 修改指定索引的点，只更新传入的字段
+   */
+  public updatePoint(index: number, data: PointUpdateType) {
+    if (index < 0 || index >= this.count) return
+
+    const names: string[] = []
+    if (data.position) {
+      const { x, y, z } = data.position
+      this.writePositions(index, [x, y, z], 0, 1)
+      names.push('position')
+    }
+
+    const color = this.geometry.attributes.color.array
+    const c = index * this.colorLength
+    if (data.color) {
+      color[c] = data.color.r
+      color[c + 1] = data.color.g
+      color[c + 2] = data.color.b
+      names.push('color')
+    }
+    if (this.alpha && data.alpha !== undefined) {
+      color[c + 3] = data.alpha
+      names.push('color')
     }
 
-    this.currentIndex++
-    this.geometry.attributes.position.needsUpdate = true
-    this.geometry.attributes.color.needsUpdate = true
+    for (const name in data.attributes) {
+      this.writeScalars(name, index, [data.attributes[name]], 0, 1)
+      names.push(name)
+    }
 
-    const drawCount = Math.min(this.currentIndex, this.maxPoints)
-    this.geometry.setDrawRange(0, drawCount)
+    if (names.length > 0) this.markDirty(index, 1, names)
+  }
+
+  /**
+   * 删除指定索引的点
+   *
+   * 被删除的位置由末尾的点填补，因此末尾点的索引会发生变化；
+   * 删除后缓冲区不再处于循环覆盖状态，后续追加从末尾继续写入
+   */
+  public removePoints(indices: number[]) {
+    const sorted = [...new Set(indices)]
+      .filter((i) => i >= 0 && i < this.count)
+      .sort((a, b) => b - a)
+    if (sorted.length === 0) return
+
+    const attributes = this.getAttributes()
+    const names = attributes.map(([name]) => name)
+    for (const index of sorted) {
+      const last = this.count - 1
+      if (index !== last) {
+        for (const [, attribute] of attributes) {
+          const size = attribute.itemSize
+          attribute.array.copyWithin(index * size, last * size, (last + 1) * size)
+        }
+        this.markDirty(index, 1, names)
+      }
+      this.count--
+    }
+
+    this.head = this.count % this.maxPoints
+    this.boundsDirty = true
+    this.rangeDirty = true
+    this.invalidate()
+    this.geometry.setDrawRange(0, this.count)
+  }
+
+  public removePoint(index: number) {
+    this.removePoints([index])
+  }
+
+  /**
+   * 选中或取消选中指定索引的点，选中的点以 selectionColor 高亮
+   */
+  public select(indices: ArrayLike<number>, selected = true) {
+    this.setAttributeValue(SELECTION_ATTRIBUTE, indices, selected ? 1 : 0)
+  }
+
+  public clearSelection() {
+    if (this.count === 0) return
+    this.geometry.attributes[SELECTION_ATTRIBUTE].array.fill(0, 0, this.count)
+    this.markDirty(0, this.count, [SELECTION_ATTRIBUTE])
+  }
+
+  public isSelected(index: number) {
+    if (index < 0 || index >= this.count) return false
+    return this.geometry.attributes[SELECTION_ATTRIBUTE].array[index] > 0.5
+  }
+
+  /**
+   * 选中的点的索引，按从小到大排列
+   */
+  public getSelection() {
+    const array = this.geometry.attributes[SELECTION_ATTRIBUTE].array
+    const indices: number[] = []
+    for (let i = 0; i < this.count; i++) {
+      if (array[i] > 0.5) indices.push(i)
+    }
+    return indices
+  }
+
+  public setSelectionColor(color: THREE.ColorRepresentation) {
+    this.selectionUniforms.selectionColor.value.set(color)
+    this.invalidate()
+  }
+
+  /**
+   * 是否只显示选中的点，不会修改点数据
+   */
+  public setIsolated(isolated: boolean) {
+    this.selectionUniforms.selectionIsolate.value = isolated
+    this.invalidate()
+  }
+
+  public isIsolated() {
+    return this.selectionUniforms.selectionIsolate.value
+  }
+
+  /**
+   * 把指定索引的点的单通道属性设置为同一个值，如为选中的点设置分类 classification
+   *
+   * 属性不存在时按 maxPoints 创建，初始值为 0
+   */
+  public setAttributeValue(name: string, indices: ArrayLike<number>, value: number) {
+    const array = this.getScalarAttribute(name).array
+    let min = Infinity
+    let max = -Infinity
+    for (let i = 0; i < indices.length; i++) {
+      const index = indices[i]
+      if (index < 0 || index >= this.count) continue
+      array[index] = value
+      if (index < min) min = index
+      if (index > max) max = index
+    }
+
+    if (min <= max) this.markDirty(min, max - min + 1, [name])
+  }
+
+  /**
+   * 提取点云数据，可用于导出或写入新的 Points
+   *
+   * @param indices  要提取的点的索引，默认为全部点（按缓冲区顺序）
+   */
+  public extract(indices?: ArrayLike<number>): PointCloudData {
+    const slots = indices
+      ? Array.from(indices).filter((i) => i >= 0 && i < this.count)
+      : Array.from({ length: this.count }, (_, i) => i)
+    const count = slots.length
+
+    const position = this.geometry.attributes.position.array
+    const color = this.geometry.attributes.color.array
+    const intensity = this.geometry.getAttribute('intensity')?.array
+    const classification = this.geometry.getAttribute('classification')?.array
+
+    const data: PointCloudData = {
+      count,
+      positions: new Float32Array(count * 3),
+      colors: new Float32Array(count * 3),
+    }
+    if (intensity) data.intensity = new Float32Array(count)
+    if (classification) data.classification = new Uint8Array(count)
+
+    slots.forEach((slot, i) => {
+      data.positions.set(position.subarray(slot * 3, slot * 3 + 3), i * 3)
+      const c = slot * this.colorLength
+      data.colors!.set(color.subarray(c, c + 3), i * 3)
+      if (intensity) data.intensity![i] = intensity[slot]
+      if (classification) data.classification![i] = classification[slot]
+    })
+
+    return data
+  }
+
+  /**
+   * 清空所有点，缓冲区保留以便复用
+   */
+  public clear() {
+    this.count = 0
+    this.head = 0
+    this.bounds.makeEmpty()
+    this.boundsDirty = false
+    this.rangeDirty = true
+    this.invalidate()
+    this.geometry.setDrawRange(0, 0)
+  }
+
+  /**
+   * 设置着色模式
+   *
+   * @param mode     rgb 使用顶点颜色；height 按 axis 方向的坐标着色；
+   *                 intensity 按 intensity 属性着色；attribute 按 options.attribute 指定的属性着色
+   * @param options  axis 高度方向，attribute 标量属性名
+   */
+  public setColorMode(
+    mode: ColorModeType,
+    options: { axis?: ColorAxisType; attribute?: string } = {},
+  ) {
+    this.colorMode = mode
+    this.colorAttribute = mode === 'intensity' ? 'intensity' : options.attribute || ''
+
+    const axis = options.axis || 'y'
+    this.colorAxis = axis
+    this.colormap.setMode(
+      mode === 'rgb' ? 'rgb' : mode === 'height' ? 'height' : 'scalar',
+      typeof axis === 'string' ? AXES[axis] : axis,
+    )
+
+    this.bindScalarAttribute()
+    this.rangeDirty = true
+    this.invalidate()
+  }
+
+  public getColorMode() {
+    return this.colorMode
+  }
+
+  /**
+   * 设置色带，只更新查找表纹理
+   */
+  public setColormap(colormap: ColormapType | ColormapStops) {
+    this.colormapName = colormap
+    this.colormap.setColormap(colormap)
+    this.invalidate()
+  }
+
+  /**
+   * 设置色带数值范围，auto 时在每次数据变化后的下一帧根据当前点重新计算
+   */
+  public setColorRange(range: [number, number] | 'auto') {
+    this.colorRange = range
+    if (range === 'auto') {
+      this.rangeDirty = true
+    } else {
+      this.colormap.setRange(range[0], range[1])
+    }
+    this.invalidate()
+  }
+
+  /**
+   * 当前生效的色带数值范围
+   */
+  public getColorRange(): [number, number] {
+    if (this.colorRange === 'auto' && this.rangeDirty) this.updateAutoRange()
+    return this.colormap.getRange()
+  }
+
+  public setColorClamp(clamp: boolean) {
+    this.colormap.setClamp(clamp)
+    this.invalidate()
+  }
+
+  public getPointSize() {
+    return this.material.getSize()
+  }
+
+  /**
+   * 设置点大小，单位由点大小模式决定：fixed 为像素，world 为世界单位，adaptive 为平均点间距的倍数
+   */
+  public setPointSize(size: number) {
+    this.material.setSize(size)
+    this.invalidate()
+  }
+
+  public getPointSizeMode() {
+    return this.material.getSizeMode()
+  }
+
+  /**
+   * 设置点大小模式，不会修改点大小的数值
+   */
+  public setPointSizeMode(mode: PointSizeModeType) {
+    this.material.setSizeMode(mode)
+    this.invalidate()
+  }
+
+  /**
+   * world / adaptive 模式下点的像素范围（CSS 像素）
+   */
+  public getPointSizeRange() {
+    return this.material.getSizeRange()
+  }
+
+  public setPointSizeRange(min: number, max: number) {
+    this.material.setSizeRange(min, max)
+    this.invalidate()
+  }
+
+  public getPointShape() {
+    return this.material.getShape()
+  }
+
+  /**
+   * 设置点形状，paraboloid 会写入深度，适合与 EDL 一起显示连续的表面
+   */
+  public setPointShape(shape: PointShapeType) {
+    this.material.setShape(shape)
+    this.invalidate()
+  }
+
+  public getOpacity() {
+    return this.material.getOpacity()
+  }
+
+  /**
+   * 设置整体透明度，与顶点颜色的 alpha 通道相乘
+   */
+  public setOpacity(opacity: number) {
+    this.material.setOpacity(opacity)
+    this.invalidate()
+  }
+
+  public getSizeAttribute() {
+    return this.sizeAttribute
+  }
+
+  /**
+   * 按单通道顶点属性逐点缩放点大小，点大小为 pointSize 乘以属性值；null 时不缩放
+   *
+   * 属性不存在时在写入该属性后生效
+   */
+  public setSizeAttribute(name: string | null) {
+    this.sizeAttribute = name
+    this.bindSizeAttribute()
+    this.invalidate()
+  }
+
+  /**
+   * 点数据或显示状态的版本号，每次变化时加一，Viewer 按需渲染时据此判断是否需要重新渲染
+   */
+  public getVersion() {
+    return this.version
+  }
+
+  /**
+   * 点数据或显示状态发生变化：版本号加一，并唤醒按需渲染的 Viewer
+   */
+  private invalidate() {
+    this.version++
+    invalidateRenderSources()
+  }
+
+  /**
+   * 序列化显示状态（可见性、点大小、着色），不包含点数据
+   */
+  public toJSON(): PointsStateType {
+    return {
+      visible: this.points.visible,
+      pointSize: this.getPointSize(),
+      sizeMode: this.getPointSizeMode(),
+      shape: this.getPointShape(),
+      opacity: this.getOpacity(),
+      colorMode: this.colorMode,
+      colormap: this.colormapName,
+      colorAxis: this.colorAxis,
+      colorAttribute: this.colorAttribute,
+      colorRange: this.colorRange === 'auto' ? 'auto' : [...this.colorRange],
+      colorClamp: this.colormap.uniforms.colormapClamp.value,
+    }
+  }
+
+  /**
+   * 恢复显示状态，未传入的字段保持不变
+   */
+  public fromJSON(state: Partial<PointsStateType>) {
+    if (state.visible !== undefined) {
+      this.points.visible = state.visible
+      this.invalidate()
+    }
+    if (state.pointSize !== undefined) this.setPointSize(state.pointSize)
+    if (state.sizeMode !== undefined) this.setPointSizeMode(state.sizeMode)
+    if (state.shape !== undefined) this.setPointShape(state.shape)
+    if (state.opacity !== undefined) this.setOpacity(state.opacity)
+    if (state.colormap !== undefined) this.setColormap(state.colormap)
+    if (state.colorClamp !== undefined) this.setColorClamp(state.colorClamp)
+    if (state.colorRange !== undefined) this.setColorRange(state.colorRange)
+    if (state.colorMode !== undefined) {
+      this.setColorMode(state.colorMode, {
+        axis: state.colorAxis ?? this.colorAxis,
+        attribute: state.colorAttribute ?? this.colorAttribute,
+      })
+    }
+  }
+
+  /**
+   * 向材质注入选中高亮代码，注入位置同 ClipManager，位于顶点着色器 main 的末尾
+   */
+  private patchSelection(material: THREE.Material) {
+    const onBeforeCompile = material.onBeforeCompile
+
+    material.onBeforeCompile = (shader, renderer) => {
+      onBeforeCompile.call(material, shader, renderer)
+      Object.assign(shader.uniforms, this.selectionUniforms)
+
+      shader.vertexShader = shader.vertexShader
+        .replace(/void\s+main\s*\(\s*\)\s*\{/, (main) => `${SELECTION_PARS_VERTEX}\n${main}`)
+        .replace(/\}\s*$/, `${SELECTION_VERTEX}\n}`)
+    }
+  }
+
+  /**
+   * 所有顶点属性，不包含 scalar 与 pointScale 别名
+   */
+  private getAttributes() {
+    return Object.entries(this.geometry.attributes).filter(
+      ([name]) => name !== 'scalar' && name !== SIZE_ATTRIBUTE,
+    )
+  }
+
+  /**
+   * 着色器统一读取 scalar 属性，这里将其指向当前着色使用的属性（共享同一个缓冲区）
+   */
+  private bindScalarAttribute() {
+    const attribute = this.colorAttribute && this.geometry.getAttribute(this.colorAttribute)
+    if (attribute) {
+      this.geometry.setAttribute('scalar', attribute)
+    } else {
+      this.geometry.deleteAttribute('scalar')
+    }
+  }
+
+  /**
+   * 着色器统一读取 pointScale 属性，这里将其指向 sizeAttribute 指定的属性（共享同一个缓冲区）
+   */
+  private bindSizeAttribute() {
+    const attribute = this.sizeAttribute && this.geometry.getAttribute(this.sizeAttribute)
+    if (attribute) {
+      this.geometry.setAttribute(SIZE_ATTRIBUTE, attribute)
+    } else {
+      this.geometry.deleteAttribute(SIZE_ATTRIBUTE)
+    }
+    this.material.setSizeAttributeEnabled(!!attribute)
+  }
+
+  private updateAutoRange() {
+    this.rangeDirty = false
+    if (this.colorMode === 'rgb' || this.count === 0) return
+
+    let min = Infinity
+    let max = -Infinity
+
+    if (this.colorMode === 'height') {
+      const position = this.geometry.attributes.position.array
+      const axis = this.colormap.uniforms.colormapAxis.value
+      for (let i = 0; i < this.count; i++) {
+        const value =
+          position[i * 3] * axis.x + position[i * 3 + 1] * axis.y + position[i * 3 + 2] * axis.z
+        if (value < min) min = value
+        if (value > max) max = value
+      }
+    } else {
+      const attribute = this.geometry.getAttribute(this.colorAttribute)
+      if (!attribute) return
+      for (let i = 0; i < this.count; i++) {
+        const value = attribute.array[i]
+        if (value < min) min = value
+        if (value > max) max = value
+      }
+    }
+
+    this.colormap.setRange(min, max)
+  }
+
+  /**
+   * 估算平均点间距，供 adaptive 模式使用
+   *
+   * 扫描得到的点云大多分布在表面上，因此按包围盒最大的两个边长估算面积，再除以点数
+   */
+  private updateSpacing() {
+    if (this.count === 0 || this.bounds.isEmpty()) return
+
+    const [a, b] = this.bounds
+      .getSize(this.tempVector)
+      .toArray()
+      .sort((x, y) => y - x)
+    const spacing = b > 0 ? Math.sqrt((a * b) / this.count) : a / this.count
+    if (spacing > 0) this.material.setSpacing(spacing)
+  }
+
+  private writePositions(slot: number, source: ArrayLike<number>, start: number, length: number) {
+    const position = this.geometry.attributes.position.array
+    // 覆盖已有的点时旧坐标可能位于包围盒边界上
+    if (slot < this.count) this.boundsDirty = true
+    for (let i = 0; i < length; i++) {
+      const s = (start + i) * 3
+      const x = source[s]
+      const y = source[s + 1]
+      const z = source[s + 2]
+      position[(slot + i) * 3] = x
+      position[(slot + i) * 3 + 1] = y
+      position[(slot + i) * 3 + 2] = z
+      this.bounds.expandByPoint(this.tempVector.set(x, y, z))
+    }
+  }
+
+  private writeColors(
+    slot: number,
+    source: Float32Array | undefined,
+    size: number,
+    start: number,
+    length: number,
+  ) {
+    const color = this.geometry.attributes.color.array
+    if (source && size === this.colorLength) {
+      color.set(source.subarray(start * size, (start + length) * size), slot * size)
+      return
+    }
+
+    for (let i = 0; i < length; i++) {
+      const c = (slot + i) * this.colorLength
+      const s = (start + i) * size
+      color[c] = source ? source[s] : 1
+      color[c + 1] = source ? source[s + 1] : 1
+      color[c + 2] = source ? source[s + 2] : 1
+      if (this.alpha) color[c + 3] = source && size === 4 ? source[s + 3] : 1
+    }
+  }
+
+  /**
+   * 单通道的顶点属性，不存在时按 maxPoints 创建
+   */
+  private getScalarAttribute(name: string) {
+    let attribute = this.geometry.getAttribute(name) as THREE.BufferAttribute | undefined
+    if (!attribute) {
+      attribute = new THREE.Float32BufferAttribute(new Float32Array(this.maxPoints), 1)
+      this.geometry.setAttribute(name, attribute)
+      if (name === this.colorAttribute) this.bindScalarAttribute()
+      if (name === this.sizeAttribute) this.bindSizeAttribute()
+    }
+    return attribute
+  }
+
+  /**
+   * 写入单通道的顶点属性，属性不存在时按 maxPoints 创建
+   */
+  private writeScalars(
+    name: string,
+    slot: number,
+    source: ArrayLike<number>,
+    start: number,
+    length: number,
+  ) {
+    const array = this.getScalarAttribute(name).array
+    for (let i = 0; i < length; i++) array[slot + i] = source[start + i]
+  }
+
+  /**
+   * 写入 length 个点后移动写入位置
+   */
+  private advance(length: number) {
+    this.head = (this.head + length) % this.maxPoints
+    this.count = Math.min(this.count + length, this.maxPoints)
+    this.geometry.setDrawRange(0, this.count)
+  }
+
+  /**
+   * 把被写入的属性区间（单位：点）加入 updateRanges 并标记上传，在紧接着的渲染中生效
+   *
+   * 需要在写入时立即标记：onBeforeRender 晚于属性上传，在其中标记要到下一帧才会上传。
+   * 包围球同样需要立即扩大，因为视锥剔除发生在 onBeforeRender 之前
+   *
+   * @param names  被写入的属性名
+   */
+  private markDirty(start: number, length: number, names: string[]) {
+    for (const name of new Set(names)) {
+      const attribute = this.geometry.getAttribute(name) as THREE.BufferAttribute | undefined
+      if (!attribute) continue
+      attribute.addUpdateRange(start * attribute.itemSize, length * attribute.itemSize)
+      attribute.needsUpdate = true
+    }
+    this.rangeDirty = true
+    this.invalidate()
+
+    if (this.bounds.isEmpty()) return
+    this.geometry.boundingSphere ??= new THREE.Sphere()
+    this.bounds.getBoundingSphere(this.geometry.boundingSphere)
+  }
+
+  /**
+   * 点被覆盖或删除后按当前所有点重新计算包围盒
+   *
+   * 包围盒只会偏大，延迟到渲染前收缩不影响视锥剔除的正确性
+   */
+  private updateBounds() {
+    this.boundsDirty = false
+    this.bounds.makeEmpty()
+    const position = this.geometry.attributes.position.array
+    for (let i = 0; i < this.count; i++) {
+      this.bounds.expandByPoint(
+        this.tempVector.set(position[i * 3], position[i * 3 + 1], position[i * 3 + 2]),
+      )
+    }
+
+    this.geometry.boundingSphere ??= new THREE.Sphere()
+    if (this.bounds.isEmpty()) this.geometry.boundingSphere.makeEmpty()
+    else this.bounds.getBoundingSphere(this.geometry.boundingSphere)
+  }
+
+  /**
+   * 渲染前更新包围盒、自动着色范围与平均点间距，点数据的上传已在 markDirty 中标记
+   */
+  private refresh() {
+    if (this.boundsDirty) this.updateBounds()
+    if (this.colorRange === 'auto' && this.rangeDirty) this.updateAutoRange()
+    this.updateSpacing()
   }
 
   public dispose() {
@@ -137,5 +1008,7 @@ export default class Points {
     } else {
       this.points.material.dispose();
     }
+
+    this.colormap.dispose()
   }
 }
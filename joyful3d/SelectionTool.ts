@@ -0,0 +1,449 @@
+import * as THREE from 'three'
+import Points from './Points'
+import ClipVolume from './ClipVolume'
+import type Viewer from './Viewer'
+import type { PointCloudData } from './loaders'
+
+/**
+ * 屏幕空间的选择方式：rectangle 矩形框选，lasso 按鼠标轨迹的多边形套索
+ */
+export type SelectionShapeType = 'rectangle' | 'lasso'
+
+/**
+ * 选择结果与已有选择的合并方式
+ */
+export type SelectionOperationType = 'replace' | 'add' | 'subtract'
+
+export interface SelectionToolOptionsType {
+  viewer: Viewer
+  targets?: Points[]
+  color?: string
+}
+
+export interface SelectionToolEventMap {
+  change: { count: number } // 选择变化时触发，count 为所有目标中选中的点数
+}
+
+/**
+ * 某个点云中选中的点
+ */
+export interface SelectionResultType {
+  points: Points
+  indices: number[]
+}
+
+const MIN_LASSO_DISTANCE = 3 // 套索轨迹相邻两点的最小间距（像素）
+
+function isObjectVisible(object: THREE.Object3D) {
+  for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+    if (!node.visible) return false
+  }
+  return true
+}
+
+/**
+ * 点是否在多边形内（射线法），坐标单位为像素
+ */
+function isInsidePolygon(x: number, y: number, polygon: [number, number][]) {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * SelectionTool 区域选择工具类
+ *
+ * 在一个或多个 Points 中按区域选择点，选中的点在 Points 中高亮显示，是标注流程的基础。
+ *
+ * 主要功能：
+ * - 交互式矩形框选、自由套索选择，按住 Shift 追加、按住 Alt 减选，Esc 结束
+ * - 通过代码按屏幕矩形 / 多边形，或世界坐标系中的球体、包围盒、裁剪盒选择
+ * - 只选择可见的点：跳过隐藏的点云、被裁剪掉的点以及只显示选中点时未选中的点
+ * - 删除选中的点、只显示选中的点、为选中的点设置分类，以及提取选中的点用于导出
+ * - 选择变化时触发 change 事件
+ *
+ * 构造参数 SelectionToolOptionsType:
+ * @param viewer   Viewer 实例
+ * @param targets  参与选择的点云，默认为 Viewer 图层中的所有 Points
+ * @param color    选框颜色，默认 #ffcc00
+ */
+export default class SelectionTool extends THREE.EventDispatcher<SelectionToolEventMap> {
+  private viewer: Viewer
+  private targets: Points[] | null
+  private shape: SelectionShapeType | null = null
+  private operation: SelectionOperationType = 'replace'
+  private path: [number, number][] = [] // 当前选框的轨迹，相对画布左上角
+  private pointerId: number | null = null
+  private overlay: SVGSVGElement
+  private polygon: SVGPolygonElement
+
+  constructor(private options: SelectionToolOptionsType) {
+    super()
+    this.viewer = this.options.viewer
+    this.targets = this.options.targets ?? null
+
+    const color = this.options.color ?? '#ffcc00'
+    this.overlay = document.createElementNS('http://www.w3.org/2000/svg', 'svg')
+    this.overlay.style.cssText = 'position:fixed;pointer-events:none;display:none;z-index:1'
+    this.polygon = document.createElementNS('http://www.w3.org/2000/svg', 'polygon')
+    this.polygon.setAttribute('fill', color)
+    this.polygon.setAttribute('fill-opacity', '0.15')
+    this.polygon.setAttribute('stroke', color)
+    this.polygon.setAttribute('stroke-dasharray', '4 3')
+    this.overlay.appendChild(this.polygon)
+    document.body.appendChild(this.overlay)
+  }
+
+  private onPointerDown = (event: PointerEvent) => {
+    const canvas = this.viewer.getRenderer()?.domElement
+    if (!canvas || event.button !== 0 || this.pointerId !== null) return
+
+    this.pointerId = event.pointerId
+    canvas.setPointerCapture(event.pointerId)
+    this.path = [this.toCanvas(event)]
+
+    const rect = canvas.getBoundingClientRect()
+    Object.assign(this.overlay.style, {
+      display: 'block',
+      left: `${rect.left}px`,
+      top: `${rect.top}px`,
+      width: `${rect.width}px`,
+      height: `${rect.height}px`,
+    })
+    this.updateOverlay()
+  }
+
+  private onPointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return
+
+    const point = this.toCanvas(event)
+    if (this.shape === 'rectangle') {
+      this.path = [this.path[0], point]
+    } else {
+      const [x, y] = this.path[this.path.length - 1]
+      if (Math.hypot(point[0] - x, point[1] - y) < MIN_LASSO_DISTANCE) return
+      this.path.push(point)
+    }
+    this.updateOverlay()
+  }
+
+  private onPointerUp = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return
+
+    this.viewer.getRenderer()?.domElement.releasePointerCapture(event.pointerId)
+    this.pointerId = null
+    this.overlay.style.display = 'none'
+
+    const operation = event.shiftKey ? 'add' : event.altKey ? 'subtract' : this.operation
+    if (this.shape === 'rectangle' && this.path.length === 2) {
+      const [[x1, y1], [x2, y2]] = this.path
+      this.selectRect({ x: x1, y: y1 }, { x: x2, y: y2 }, operation)
+    } else if (this.shape === 'lasso' && this.path.length >= 3) {
+      this.selectPolygon(this.path, operation)
+    }
+    this.path = []
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') this.stop()
+  }
+
+  /**
+   * 开始交互式选择，期间暂停相机控制器，直到调用 stop 或按下 Esc
+   *
+   * @param shape      rectangle 或 lasso
+   * @param operation  默认的合并方式，默认 replace
+   */
+  public start(shape: SelectionShapeType, operation: SelectionOperationType = 'replace') {
+    const canvas = this.viewer.getRenderer()?.domElement
+    if (!canvas) return
+
+    if (!this.shape) {
+      canvas.addEventListener('pointerdown', this.onPointerDown)
+      canvas.addEventListener('pointermove', this.onPointerMove)
+      canvas.addEventListener('pointerup', this.onPointerUp)
+      window.addEventListener('keydown', this.onKeyDown)
+    }
+    this.shape = shape
+    this.operation = operation
+
+    const controls = this.viewer.getControls()
+    if (controls) controls.enabled = false
+  }
+
+  /**
+   * 结束交互式选择，保留已选中的点
+   */
+  public stop() {
+    if (!this.shape) return
+
+    const canvas = this.viewer.getRenderer()?.domElement
+    canvas?.removeEventListener('pointerdown', this.onPointerDown)
+    canvas?.removeEventListener('pointermove', this.onPointerMove)
+    canvas?.removeEventListener('pointerup', this.onPointerUp)
+    window.removeEventListener('keydown', this.onKeyDown)
+    if (canvas && this.pointerId !== null) canvas.releasePointerCapture(this.pointerId)
+
+    this.shape = null
+    this.pointerId = null
+    this.path = []
+    this.overlay.style.display = 'none'
+
+    const controls = this.viewer.getControls()
+    if (controls) controls.enabled = true
+  }
+
+  public isActive() {
+    return this.shape !== null
+  }
+
+  /**
+   * 设置参与选择的点云，null 时使用 Viewer 图层中的所有 Points
+   */
+  public setTargets(targets: Points[] | null) {
+    this.targets = targets
+  }
+
+  public getTargets() {
+    if (this.targets) return [...this.targets]
+
+    const targets: Points[] = []
+    this.viewer
+      .getLayers()
+      ?.getLayers()
+      .forEach((layer) => {
+        layer.getItems().forEach((item) => {
+          if (item instanceof Points) targets.push(item)
+        })
+      })
+    return targets
+  }
+
+  /**
+   * 按屏幕矩形选择，坐标为相对画布左上角的 CSS 像素
+   */
+  public selectRect(
+    start: { x: number; y: number },
+    end: { x: number; y: number },
+    operation: SelectionOperationType = 'replace',
+  ) {
+    const minX = Math.min(start.x, end.x)
+    const maxX = Math.max(start.x, end.x)
+    const minY = Math.min(start.y, end.y)
+    const maxY = Math.max(start.y, end.y)
+    this.selectOnScreen((x, y) => x >= minX && x <= maxX && y >= minY && y <= maxY, operation)
+  }
+
+  /**
+   * 按屏幕多边形选择，坐标为相对画布左上角的 CSS 像素
+   */
+  public selectPolygon(polygon: [number, number][], operation: SelectionOperationType = 'replace') {
+    if (polygon.length < 3) return
+    this.selectOnScreen((x, y) => isInsidePolygon(x, y, polygon), operation)
+  }
+
+  /**
+   * 选择世界坐标系中球体内的点
+   */
+  public selectSphere(
+    center: THREE.Vector3Like,
+    radius: number,
+    operation: SelectionOperationType = 'replace',
+  ) {
+    const sphere = new THREE.Sphere(new THREE.Vector3().copy(center), radius)
+    this.selectWhere((point) => sphere.containsPoint(point), operation)
+  }
+
+  /**
+   * 选择世界坐标系中包围盒内的点，传入裁剪盒时按其朝向判断
+   */
+  public selectBox(box: THREE.Box3 | ClipVolume, operation: SelectionOperationType = 'replace') {
+    if (box instanceof THREE.Box3) {
+      this.selectWhere((point) => box.containsPoint(point), operation)
+      return
+    }
+
+    const matrix = box.getInverseMatrix()
+    const local = new THREE.Vector3()
+    this.selectWhere((point) => {
+      local.copy(point).applyMatrix4(matrix)
+      return Math.abs(local.x) <= 0.5 && Math.abs(local.y) <= 0.5 && Math.abs(local.z) <= 0.5
+    }, operation)
+  }
+
+  /**
+   * 按世界坐标选择满足条件的点，test 的参数会被复用，不要保存
+   */
+  public selectWhere(
+    test: (point: THREE.Vector3) => boolean,
+    operation: SelectionOperationType = 'replace',
+  ) {
+    const filter = this.viewer.getClipping()?.createPointFilter() ?? null
+    const point = new THREE.Vector3()
+
+    this.getTargets().forEach((target) => {
+      const object = target.getPoint()
+      const matched: number[] = []
+
+      if (isObjectVisible(object)) {
+        object.updateWorldMatrix(true, false)
+        const position = object.geometry.attributes.position.array
+        const isolated = target.isIsolated()
+        for (let i = 0; i < target.getCount(); i++) {
+          if (isolated && !target.isSelected(i)) continue
+          point.fromArray(position, i * 3).applyMatrix4(object.matrixWorld)
+          if (filter && !filter(point)) continue
+          if (test(point)) matched.push(i)
+        }
+      }
+
+      // 隔离显示时只有选中的点可见，因此要在匹配之后再清除原有选中
+      if (operation === 'replace') target.clearSelection()
+      target.select(matched, operation !== 'subtract')
+    })
+
+    this.dispatchEvent({ type: 'change', count: this.getCount() })
+  }
+
+  /**
+   * 各点云中选中的点，不包含没有选中点的点云
+   */
+  public getSelection(): SelectionResultType[] {
+    return this.getTargets()
+      .map((points) => ({ points, indices: points.getSelection() }))
+      .filter(({ indices }) => indices.length > 0)
+  }
+
+  public getCount() {
+    return this.getTargets().reduce((sum, target) => sum + target.getSelection().length, 0)
+  }
+
+  public clear() {
+    this.getTargets().forEach((target) => target.clearSelection())
+    this.dispatchEvent({ type: 'change', count: 0 })
+  }
+
+  /**
+   * 删除选中的点，返回删除的点数
+   */
+  public deleteSelected() {
+    const selection = this.getSelection()
+    selection.forEach(({ points, indices }) => points.removePoints(indices))
+    if (selection.length > 0) this.dispatchEvent({ type: 'change', count: 0 })
+    return selection.reduce((sum, { indices }) => sum + indices.length, 0)
+  }
+
+  /**
+   * 只显示选中的点（不修改点数据），false 时恢复显示全部点
+   */
+  public isolate(isolated = true) {
+    this.getTargets().forEach((target) => target.setIsolated(isolated))
+  }
+
+  /**
+   * 为选中的点设置分类
+   *
+   * @param value      分类值
+   * @param attribute  写入的顶点属性，默认 classification
+   */
+  public classify(value: number, attribute = 'classification') {
+    this.getSelection().forEach(({ points, indices }) =>
+      points.setAttributeValue(attribute, indices, value),
+    )
+  }
+
+  /**
+   * 把所有点云中选中的点合并为一份点云数据（世界坐标），可用于导出或写入新的 Points
+   *
+   * 只有部分点云包含的 intensity / classification 在其余点云中记为 0
+   */
+  public extract(): PointCloudData {
+    const parts = this.getSelection().map(({ points, indices }) => {
+      const object = points.getPoint()
+      object.updateWorldMatrix(true, false)
+      const data = points.extract(indices)
+      // BufferAttribute 直接引用 positions，变换会写回原数组
+      new THREE.BufferAttribute(data.positions, 3).applyMatrix4(object.matrixWorld)
+      return data
+    })
+
+    const count = parts.reduce((sum, part) => sum + part.count, 0)
+    const data: PointCloudData = {
+      count,
+      positions: new Float32Array(count * 3),
+      colors: new Float32Array(count * 3),
+    }
+    if (parts.some((part) => part.intensity)) data.intensity = new Float32Array(count)
+    if (parts.some((part) => part.classification)) data.classification = new Uint8Array(count)
+
+    let offset = 0
+    parts.forEach((part) => {
+      data.positions.set(part.positions, offset * 3)
+      data.colors!.set(part.colors!, offset * 3)
+      if (part.intensity) data.intensity!.set(part.intensity, offset)
+      if (part.classification) data.classification!.set(part.classification, offset)
+      offset += part.count
+    })
+
+    return data
+  }
+
+  public dispose() {
+    this.stop()
+    this.overlay.remove()
+  }
+
+  /**
+   * 按点投影到画布上的位置选择，跳过相机后方与远近平面之外的点
+   */
+  private selectOnScreen(
+    test: (x: number, y: number) => boolean,
+    operation: SelectionOperationType,
+  ) {
+    const camera = this.viewer.getCamera()
+    const canvas = this.viewer.getRenderer()?.domElement
+    if (!camera || !canvas) return
+
+    camera.updateMatrixWorld()
+    const e = new THREE.Matrix4().multiplyMatrices(
+      camera.projectionMatrix,
+      camera.matrixWorldInverse,
+    ).elements
+    const width = canvas.clientWidth
+    const height = canvas.clientHeight
+
+    this.selectWhere(({ x, y, z }) => {
+      const w = e[3] * x + e[7] * y + e[11] * z + e[15]
+      if (w <= 0) return false
+      const ndcZ = (e[2] * x + e[6] * y + e[10] * z + e[14]) / w
+      if (ndcZ < -1 || ndcZ > 1) return false
+
+      const ndcX = (e[0] * x + e[4] * y + e[8] * z + e[12]) / w
+      const ndcY = (e[1] * x + e[5] * y + e[9] * z + e[13]) / w
+      return test(((ndcX + 1) / 2) * width, ((1 - ndcY) / 2) * height)
+    }, operation)
+  }
+
+  private toCanvas(event: PointerEvent): [number, number] {
+    const rect = this.viewer.getRenderer()!.domElement.getBoundingClientRect()
+    return [event.clientX - rect.left, event.clientY - rect.top]
+  }
+
+  private updateOverlay() {
+    let points = this.path
+    if (this.shape === 'rectangle' && points.length === 2) {
+      const [[x1, y1], [x2, y2]] = points
+      points = [
+        [x1, y1],
+        [x2, y1],
+        [x2, y2],
+        [x1, y2],
+      ]
+    }
+    this.polygon.setAttribute('points', points.map(([x, y]) => `${x},${y}`).join(' '))
+  }
+}
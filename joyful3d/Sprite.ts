@@ -1,102 +1,422 @@
 import * as THREE from 'three'
+import { bindRenderSource, invalidateRenderSources } from './renderSource'
 
-export interface SpriteOptionsType {
-  text: string;
-  position: THREE.Vector3;
-  scene?: THREE.Scene;
+export type SpriteSizeModeType = 'world' | 'screen'
 
+export interface SpriteStyleType {
+  fontFamily?: string
+  fontSize?: number
+  fontWeight?: string | number
+  color?: string
+  backgroundColor?: string
+  borderColor?: string
+  borderWidth?: number
+  borderRadius?: number
+  padding?: number | [number, number]
+  lineHeight?: number
+  textAlign?: 'left' | 'center' | 'right'
 }
 
+export interface SpriteOptionsType extends SpriteStyleType {
+  text: string
+  position: THREE.Vector3Like
+  scene?: THREE.Scene
+  anchor?: [number, number]
+  offset?: [number, number]
+  sizeMode?: SpriteSizeModeType
+  scale?: number
+  depthTest?: boolean
+}
+
+/**
+ * 可序列化的标签状态
+ */
+export interface SpriteStateType {
+  text: string
+  position: [number, number, number]
+  style: SpriteStyleType
+  anchor: [number, number]
+  offset: [number, number]
+  sizeMode: SpriteSizeModeType
+  scale: number
+  depthTest: boolean
+  visible: boolean
+}
+
+const DEFAULT_STYLE: Required<SpriteStyleType> = {
+  fontFamily: 'Arial',
+  fontSize: 40,
+  fontWeight: 'normal',
+  color: '#ff0000',
+  backgroundColor: '#ffffff',
+  borderColor: 'transparent',
+  borderWidth: 0,
+  borderRadius: 0,
+  padding: 10,
+  lineHeight: 1.2,
+  textAlign: 'center',
+}
 
 /**
  * Sprite 2d文本渲染类
  *
- * 用于在 THREE.js 场景中渲染带有文本的精灵，支持自适应文本大小和清晰度优化。
+ * 用于在 THREE.js 场景中渲染带有文本的精灵（标签），支持自适应文本大小和清晰度优化。
  *
  * 主要功能：
- * - 通过 Canvas 动态绘制文本生成纹理
+ * - 通过 Canvas 动态绘制文本生成纹理，修改文本时复用同一个 Canvas 与纹理
+ * - 支持字体、颜色、背景、边框、圆角、内边距等样式，以及多行文本（\n 换行）
  * - 支持高分屏（devicePixelRatio）防止模糊
- * - 自动计算精灵的宽高比例，适配 THREE.js 世界单位
- * - 支持自定义文本内容和位置
+ * - 支持世界尺寸（随距离缩放）与屏幕尺寸（固定像素大小）两种缩放方式
+ * - 支持锚点与像素偏移
  * - 构造时自动添加到指定场景中
+ * - 支持通过 toJSON / fromJSON 保存和恢复文本、位置与样式
+ * - 提供 getVersion，修改后唤醒按需渲染的 Viewer
  *
  * 构造参数 SpriteOptionsType:
- * @param text      要显示的文本内容
- * @param position  THREE.Vector3 类型，精灵在场景中的位置
- * @param scene     THREE.Scene 实例，可选，精灵会自动添加到该场景
+ * @param text             要显示的文本内容
+ * @param position         精灵在场景中的位置
+ * @param scene            THREE.Scene 实例，可选，精灵会自动添加到该场景
+ * @param fontFamily       字体，默认 Arial
+ * @param fontSize         字号（像素），默认 40
+ * @param fontWeight       字重，默认 normal
+ * @param color            文本颜色，默认 #ff0000
+ * @param backgroundColor  背景颜色，默认 #ffffff，transparent 时不绘制背景
+ * @param borderColor      边框颜色，默认 transparent
+ * @param borderWidth      边框宽度（像素），默认 0
+ * @param borderRadius     圆角半径（像素），默认 0
+ * @param padding          内边距（像素），数字或 [上下, 左右]，默认 10
+ * @param lineHeight       行高与字号的比例，默认 1.2
+ * @param textAlign        多行文本的对齐方式，默认 center
+ * @param anchor           锚点，[0, 0] 为左下角，[1, 1] 为右上角，默认 [0.5, 0.5]
+ * @param offset           相对锚点的偏移（标签像素），向右、向上为正，默认 [0, 0]
+ * @param sizeMode         world 按世界尺寸缩放，screen 保持固定像素大小，默认 world
+ * @param scale            world 模式下每像素对应的世界单位，默认 0.01；screen 模式下的缩放倍数，默认 1
+ * @param depthTest        是否被场景中的物体遮挡，默认 true
  */
 export default class Sprite {
   private text: string
-  private position: THREE.Vector3
+  private style: Required<SpriteStyleType>
+  private anchor: [number, number]
+  private offset: [number, number]
+  private sizeMode: SpriteSizeModeType
+  private scale: number
+  private opacity = 1
+  private version = 0 // 文本、位置或样式每次变化时加一
+
   private scene: THREE.Scene | undefined
-  private scaleX: number = 0
-  private scaleY: number = 0
+  private canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D
+  private texture: THREE.CanvasTexture
+  private sprite: THREE.Sprite
+  private width = 0 // 标签宽度（像素）
+  private height = 0 // 标签高度（像素）
+  private size = new THREE.Vector2()
 
   constructor(private options: SpriteOptionsType) {
     this.text = this.options.text
-    this.position = this.options.position
+    this.style = { ...DEFAULT_STYLE }
+    for (const key of Object.keys(DEFAULT_STYLE) as (keyof SpriteStyleType)[]) {
+      if (this.options[key] !== undefined) Object.assign(this.style, { [key]: this.options[key] })
+    }
+    this.anchor = this.options.anchor ?? [0.5, 0.5]
+    this.offset = this.options.offset ?? [0, 0]
+    this.sizeMode = this.options.sizeMode ?? 'world'
+    this.scale = this.options.scale ?? (this.sizeMode === 'world' ? 0.01 : 1)
     this.scene = this.options.scene
 
-    const spriteMaterial = this.createMaterial()
+    this.canvas = document.createElement('canvas')
+    this.context = this.canvas.getContext('2d')!
+    this.texture = new THREE.CanvasTexture(this.canvas)
+    this.texture.generateMipmaps = false
+    this.texture.minFilter = THREE.LinearFilter
+    this.texture.colorSpace = THREE.SRGBColorSpace
 
-    const sprite = new THREE.Sprite(spriteMaterial);
-    sprite.scale.set(this.scaleX, this.scaleY, 1)
-    sprite.position.copy(this.position)
+    this.sprite = new THREE.Sprite(
+      new THREE.SpriteMaterial({
+        map: this.texture,
+        transparent: true,
+        depthTest: this.options.depthTest ?? true,
+        sizeAttenuation: this.sizeMode === 'world',
+      }),
+    )
+    this.sprite.position.copy(this.options.position)
+    this.sprite.onBeforeRender = (renderer, _scene, camera) =>
+      this.updateScreenScale(renderer, camera)
 
-    this.scene?.add(sprite)
+    this.draw()
+    bindRenderSource(this.sprite, this)
+    this.scene?.add(this.sprite)
   }
 
-  private createMaterial(): THREE.SpriteMaterial {
-    const map = this.createMap()
-    const material = new THREE.SpriteMaterial( { map: map, color: 0xffffff } );
+  public getSprite() {
+    return this.sprite
+  }
 
-    return material
+  public getText() {
+    return this.text
   }
 
-  private createMap(): THREE.Texture {
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')!
-    const dpr = window.devicePixelRatio || 1;
+  /**
+   * 修改文本，复用已有的 Canvas 与纹理
+   */
+  public setText(text: string) {
+    if (text === this.text) return
+    this.text = text
+    this.draw()
+    this.invalidate()
+  }
 
-    const fontsize = 40
-    const metrics = ctx.measureText(this.text);
-    const textWidth = metrics.width;
-    const padding = 20;
+  public setPosition(position: THREE.Vector3Like) {
+    this.sprite.position.copy(position)
+    this.invalidate()
+  }
 
-    const width = (textWidth + padding) * 2;
-    const height = fontsize * 1.5;
+  public setVisible(visible: boolean) {
+    this.sprite.visible = visible
+    this.invalidate()
+  }
 
-    const x = width / 2;
-    const y = height / 2;
+  /**
+   * 修改样式，未传入的样式保持不变
+   */
+  public setStyle(style: SpriteStyleType) {
+    for (const key of Object.keys(style) as (keyof SpriteStyleType)[]) {
+      if (style[key] !== undefined) Object.assign(this.style, { [key]: style[key] })
+    }
+    this.draw()
+    this.invalidate()
+  }
+
+  public getOpacity() {
+    return this.opacity
+  }
+
+  /**
+   * 设置透明度，由 LabelManager 管理时与淡入淡出的透明度相乘
+   */
+  public setOpacity(opacity: number) {
+    this.opacity = opacity
+    this.sprite.material.opacity = opacity
+    this.invalidate()
+  }
+
+  /**
+   * 设置锚点与偏移
+   */
+  public setAnchor(anchor: [number, number], offset: [number, number] = this.offset) {
+    this.anchor = anchor
+    this.offset = offset
+    this.updateCenter()
+    this.invalidate()
+  }
+
+  /**
+   * 文本、位置或样式的版本号，每次变化时加一，Viewer 按需渲染时据此判断是否需要重新渲染
+   */
+  public getVersion() {
+    return this.version
+  }
+
+  /**
+   * 标签发生变化：版本号加一，并唤醒按需渲染的 Viewer
+   */
+  private invalidate() {
+    this.version++
+    invalidateRenderSources()
+  }
+
+  /**
+   * 标签的像素尺寸
+   */
+  public getSize() {
+    return { width: this.width, height: this.height }
+  }
 
-    canvas.width = width * dpr
-    canvas.height = height * dpr
-    canvas.style.width = canvas.width + 'px'
-    canvas.style.height = canvas.height + 'px'
-    ctx.scale(dpr, dpr)
+  /**
+   * 标签在屏幕上的矩形（像素，原点为左上角），位于相机后方时返回 null
+   *
+   * @param camera  当前相机
+   * @param width   画布宽度（像素）
+   * @param height  画布高度（像素）
+   */
+  public getScreenRect(camera: THREE.Camera, width: number, height: number) {
+    const position = this.sprite.getWorldPosition(new THREE.Vector3())
+    const view = position.clone().applyMatrix4(camera.matrixWorldInverse)
+    if (camera instanceof THREE.PerspectiveCamera && view.z >= 0) return null
 
+    const ndc = position.project(camera)
+    if (ndc.z > 1) return null
 
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, width, height)
+    // screen 模式下尺寸固定；world 模式下把精灵的世界尺寸换算为像素
+    let pixelsPerUnit = 1
+    if (camera instanceof THREE.PerspectiveCamera) {
+      pixelsPerUnit =
+        (height * camera.zoom) / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / -view.z
+    } else if (camera instanceof THREE.OrthographicCamera) {
+      pixelsPerUnit = (height * camera.zoom) / (camera.top - camera.bottom)
+    }
+
+    const screen = this.sizeMode === 'screen'
+    const w = screen ? this.width * this.scale : this.sprite.scale.x * pixelsPerUnit
+    const h = screen ? this.height * this.scale : this.sprite.scale.y * pixelsPerUnit
+    const x = ((ndc.x + 1) / 2) * width
+    const y = ((1 - ndc.y) / 2) * height
+
+    return {
+      x: x - this.sprite.center.x * w,
+      y: y - (1 - this.sprite.center.y) * h,
+      width: w,
+      height: h,
+      depth: -view.z,
+    }
+  }
+
+  public toJSON(): SpriteStateType {
+    const padding = this.style.padding
+    return {
+      text: this.text,
+      position: this.sprite.position.toArray(),
+      style: { ...this.style, padding: typeof padding === 'number' ? padding : [...padding] },
+      anchor: [...this.anchor],
+      offset: [...this.offset],
+      sizeMode: this.sizeMode,
+      scale: this.scale,
+      depthTest: this.sprite.material.depthTest,
+      visible: this.sprite.visible,
+    }
+  }
+
+  /**
+   * 恢复标签状态，未传入的字段保持不变
+   */
+  public fromJSON(state: Partial<SpriteStateType>) {
+    if (state.position) this.sprite.position.fromArray(state.position)
+    if (state.visible !== undefined) this.sprite.visible = state.visible
+    if (state.depthTest !== undefined) this.sprite.material.depthTest = state.depthTest
+    if (state.anchor || state.offset) {
+      this.setAnchor(state.anchor ?? this.anchor, state.offset ?? this.offset)
+    }
+    if (state.sizeMode !== undefined && state.sizeMode !== this.sizeMode) {
+      this.sizeMode = state.sizeMode
+      this.sprite.material.sizeAttenuation = state.sizeMode === 'world'
+      this.sprite.material.needsUpdate = true
+    }
+    if (state.scale !== undefined) this.scale = state.scale
+    if (state.text !== undefined) this.text = state.text
+    if (state.style) {
+      for (const key of Object.keys(state.style) as (keyof SpriteStyleType)[]) {
+        if (state.style[key] !== undefined) Object.assign(this.style, { [key]: state.style[key] })
+      }
+    }
+    this.draw()
+    this.invalidate()
+  }
+
+  /**
+   * 从场景中移除并释放纹理和材质
+   */
+  public dispose() {
+    this.sprite.removeFromParent()
+    this.texture.dispose()
+    this.sprite.material.dispose()
+  }
+
+  private getFont() {
+    const { fontWeight, fontSize, fontFamily } = this.style
+    return `${fontWeight} ${fontSize}px ${fontFamily}`
+  }
+
+  private draw() {
+    const ctx = this.context
+    const dpr = window.devicePixelRatio || 1
+    const style = this.style
+    const [paddingY, paddingX] =
+      typeof style.padding === 'number' ? [style.padding, style.padding] : style.padding
+
+    // 必须先设置字体再测量文本宽度
+    ctx.font = this.getFont()
+    const lines = this.text.split('\n')
+    const textWidth = Math.max(...lines.map((line) => ctx.measureText(line).width))
+    const lineHeight = style.fontSize * style.lineHeight
+
+    const width = Math.ceil(textWidth + paddingX * 2 + style.borderWidth * 2)
+    const height = Math.ceil(lineHeight * lines.length + paddingY * 2 + style.borderWidth * 2)
+
+    // 尺寸变化时需要释放纹理，让 three.js 按新尺寸重新分配显存
+    if (this.canvas.width !== width * dpr || this.canvas.height !== height * dpr) {
+      this.canvas.width = width * dpr
+      this.canvas.height = height * dpr
+      this.texture.dispose()
+    }
+    this.width = width
+    this.height = height
+
+    // 修改 canvas 尺寸会重置绘图状态
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+
+    const inset = style.borderWidth / 2
+    ctx.beginPath()
+    ctx.roundRect(inset, inset, width - inset * 2, height - inset * 2, style.borderRadius)
+    if (style.backgroundColor !== 'transparent') {
+      ctx.fillStyle = style.backgroundColor
+      ctx.fill()
+    }
+    if (style.borderWidth > 0 && style.borderColor !== 'transparent') {
+      ctx.lineWidth = style.borderWidth
+      ctx.strokeStyle = style.borderColor
+      ctx.stroke()
+    }
+
+    ctx.font = this.getFont()
+    ctx.textAlign = style.textAlign
+    ctx.textBaseline = 'middle'
+    ctx.fillStyle = style.color
+
+    const left = paddingX + style.borderWidth
+    const x =
+      style.textAlign === 'left' ? left : style.textAlign === 'right' ? width - left : width / 2
+    lines.forEach((line, i) => {
+      ctx.fillText(line, x, paddingY + style.borderWidth + lineHeight * (i + 0.5))
+    })
+
+    this.texture.needsUpdate = true
+
+    if (this.sizeMode === 'world') {
+      this.sprite.scale.set(width * this.scale, height * this.scale, 1)
+    }
+    this.updateCenter()
+  }
+
+  private updateCenter() {
+    this.sprite.center.set(
+      this.anchor[0] - this.offset[0] / this.width,
+      this.anchor[1] - this.offset[1] / this.height,
+    )
+  }
 
-    ctx.font = `${fontsize}px Arial`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillStyle = '#ff0000';
-    ctx.fillText(this.text, x, y)
+  /**
+   * screen 模式下按相机与画布尺寸换算缩放，使标签保持固定的像素大小
+   */
+  private updateScreenScale(renderer: THREE.WebGLRenderer, camera: THREE.Camera) {
+    if (this.sizeMode !== 'screen') return
 
-    const texture = new THREE.CanvasTexture(canvas);
-    // const texture = new THREE.TextureLoader().load(canvas.toDataURL('image/png'));
-    texture.needsUpdate = true;
-    texture.generateMipmaps = false;
+    renderer.getSize(this.size)
+    let unitsPerPixel = 1
+    if (camera instanceof THREE.PerspectiveCamera) {
+      // 关闭 sizeAttenuation 后，透视相机下的精灵尺寸与距离无关
+      unitsPerPixel =
+        (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / camera.zoom / this.size.y
+    } else if (camera instanceof THREE.OrthographicCamera) {
+      unitsPerPixel = (camera.top - camera.bottom) / camera.zoom / this.size.y
+    }
 
-    /**
-     * 因为 THREE.Sprite 是一个三维对象，而 canvas.width 和 canvas.height 是像素单位（通常几十到几百像素），如果直接使用它们作为 3D 世界中的尺寸，会导致文本看起来超级大
-     * 所以乘以 scaleFactor 是为了将像素单位缩放为 Three.js 世界单位
-     */
-    const scaleFactor = 0.01
-    this.scaleX = width * scaleFactor
-    this.scaleY = height * scaleFactor
-    return texture
+    this.sprite.scale.set(
+      this.width * this.scale * unitsPerPixel,
+      this.height * this.scale * unitsPerPixel,
+      1,
+    )
+    // onBeforeRender 在 matrixWorld 更新之后调用，需要手动更新
+    this.sprite.updateMatrixWorld()
   }
 }
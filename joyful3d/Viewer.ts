@@ -1,12 +1,97 @@
 import * as THREE from 'three'
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 import Stats from 'three/examples/jsm/libs/stats.module.js'
+import Picker, { type PickerOptionsType, type PickEventType } from './Picker'
+import CameraController, {
+  type CameraProjectionType,
+  type CameraControlModeType,
+  type CameraViewType,
+  type CameraTransitionOptionsType,
+  type CameraFitOptionsType,
+  type ViewpointType,
+} from './CameraController'
+import LayerManager from './LayerManager'
+import Capture, {
+  type CaptureImageOptionsType,
+  type CaptureRenderOptionsType,
+  type CaptureTurntableOptionsType,
+  type CaptureRecordOptionsType,
+  type CaptureKeyframeType,
+} from './Capture'
+import { getLayerItemObject, type LayerItemType, type LayerOptionsType } from './Layer'
+import ClipManager, { type ClipModeType } from './ClipManager'
+import type { ClipVolumeOptionsType } from './ClipVolume'
+import ViewportManager from './ViewportManager'
+import type Viewport from './Viewport'
+import type { ViewportOptionsType } from './Viewport'
+import { getRenderSource, onRenderSourcesInvalidate, type RenderSourceType } from './renderSource'
+import PostProcessing, {
+  type PostEffectType,
+  type PostEffectsType,
+} from './postprocessing/PostProcessing'
 
 export interface ViewerOptionsType {
   el: HTMLElement // dom的Ref对象
   axis?: boolean // 是否显示坐标系
   stats?: boolean // 是否显示监视器，可显示帧率
   grid?: boolean // 是否显示网格助手
+  picking?: boolean | PickerOptionsType // 是否开启鼠标拾取，可传入拾取配置
+  projection?: CameraProjectionType // 投影方式，默认 perspective
+  controlMode?: CameraControlModeType // 控制方式，默认 orbit
+  renderMode?: RenderModeType // 渲染方式，默认 continuous
+  maxFps?: number // 最大帧率，默认不限制
+  antialias?: boolean // 渲染器是否开启多重采样抗锯齿，默认 true，可关闭后改用 fxaa 后处理
+  effects?: PostEffectsType // 初始开启的后处理效果，默认全部关闭
+}
+
+/**
+ * 渲染方式
+ *
+ * continuous 每帧渲染；on-demand 只在相机、尺寸、图层或对象数据变化以及调用 requestRender 时渲染
+ */
+export type RenderModeType = 'continuous' | 'on-demand'
+
+export type { RenderSourceType }
+
+/**
+ * 可通过 Viewer.register 参与序列化的对象，如 Points、Sprite、LabelManager、MeasureTool
+ */
+export interface SerializableType<T = unknown> {
+  toJSON(): T
+  fromJSON(json: T): void
+}
+
+/**
+ * Viewer 的可序列化状态，见 serialize / restore
+ *
+ * @param version      状态格式版本
+ * @param camera       相机视点（投影方式、位置、目标、缩放）
+ * @param controlMode  控制方式
+ * @param axis         是否显示坐标系
+ * @param grid         是否显示网格
+ * @param stats        是否显示性能监视器
+ * @param background   背景颜色（#rrggbb），null 表示透明
+ * @param objects      通过 register 注册的对象的状态，键为注册 id
+ */
+export interface ViewerStateType {
+  version: number
+  camera: ViewpointType
+  controlMode: CameraControlModeType
+  axis: boolean
+  grid: boolean
+  stats: boolean
+  background: string | null
+  objects: Record<string, unknown>
+}
+
+export const VIEWER_STATE_VERSION = 1
+
+const DEFAULT_LAYER = 'default' // add 未指定图层时使用的图层
+const HELPER_LAYER = 'helpers' // 坐标系、网格等辅助线所在的图层
+
+export interface ViewerEventMap {
+  hover: PickEventType // 鼠标悬停的对象发生变化时触发，离开对象时 pick 为 null
+  click: PickEventType // 点击（非拖拽）时触发
+  beforeRender: { time: number } // 每帧渲染前触发，用于需要跟随相机更新的对象
 }
 
 /**
@@ -19,39 +104,81 @@ export interface ViewerOptionsType {
  * - 支持窗口/容器自适应尺寸变化
  * - 可选显示坐标轴、网格、性能监视器（帧率等）
  * - 提供添加对象、设置相机位置、销毁资源等常用接口
+ * - 支持切换透视 / 正交投影与 orbit / fly / map 控制方式，标准视图、适配物体与保存视点，见 CameraController
+ * - 通过图层（LayerManager）管理场景中的对象，可按图层显示、隐藏、调整透明度与点大小、释放资源
+ * - 支持裁剪盒与裁剪平面，只显示内部、外部或高亮内部的点，见 ClipManager
+ * - 支持在页面的其他区域添加共用场景与渲染器的视口（如俯视图、小地图），见 ViewportManager
+ * - 可选后处理：点云 EDL、网格 SSAO、选中对象描边与 FXAA，运行时开关，见 PostProcessing
+ * - 支持截图、任意分辨率离屏渲染（可透明背景）以及转台 / 相机路径录制，见 Capture
+ * - 支持通过 serialize / restore 保存和恢复相机、辅助线、背景以及 register 注册的对象状态
+ * - 可选开启拾取，通过 addEventListener 监听 hover / click 事件
+ * - 支持按需渲染（on-demand）与最大帧率限制，画布不在视口内或页面隐藏时自动暂停渲染
  *
  * 构造参数 ViewerOptionsType:
  * @param el    挂载的 DOM 元素（必填）
  * @param axis  是否显示坐标系辅助线（可选，默认 false）
  * @param stats 是否显示性能监视器（可选，默认 false）
  * @param grid  是否显示网格辅助线（可选，默认 false）
+ * @param picking 是否开启鼠标拾取（可选，默认 false），可传入 PickerOptionsType
+ * @param projection  投影方式（可选，默认 perspective）
+ * @param controlMode 控制方式（可选，默认 orbit）
+ * @param renderMode  渲染方式 continuous / on-demand（可选，默认 continuous）
+ * @param maxFps      最大帧率（可选，默认不限制）
+ * @param antialias   是否开启多重采样抗锯齿（可选，默认 true）
+ * @param effects     初始开启的后处理效果 edl / ssao / outline / fxaa（可选，默认全部关闭）
  */
-export default class Viewer {
+export default class Viewer extends THREE.EventDispatcher<ViewerEventMap> {
   private width: number
   private height: number
   private destroy = false
   private requestId: number | null = null
   private observer: ResizeObserver | null = null
+  private visibilityObserver: IntersectionObserver | null = null
+  private running = false // 是否处于 start 之后、stop 之前
+  private offscreen = false // 画布是否在视口之外
+  private renderMode: RenderModeType
+  private maxFps: number
+  private needsRender = true // 按需渲染时下一帧是否需要渲染
+  private lastRenderTime = -Infinity
+  private sourceStates = new WeakMap<object, { version: number; animating: boolean }>()
+  private unsubscribeSources: (() => void) | null = null
 
   private scene: THREE.Scene | undefined = undefined // 场景容器
-  private camera: THREE.PerspectiveCamera | null = null // 透视相机
   private renderer: THREE.WebGLRenderer | null = null // 渲染器, 渲染到canvas上输出3D图像
-  private controls: OrbitControls | null = null // 交互工具, 允许你用鼠标或触控操作相机, 环绕目标旋转、缩放、平移等交互, 还有其他交互工具FlyControls、PointerLockControls
+  private cameraController: CameraController | null = null // 管理透视 / 正交相机与交互控制器
   private stats: Stats | null = null // 性能监控工具
+  private axisHelper: THREE.AxesHelper | null = null // 坐标系辅助线
+  private gridHelper: THREE.GridHelper | null = null // 网格辅助线
+  private serializables = new Map<string, SerializableType>() // 参与序列化的对象
+  private picker: Picker | null = null // 拾取工具
+  private pickables = new Set<THREE.Object3D>() // 通过 add 添加、可被拾取的对象
+  private layers: LayerManager | null = null // 图层管理
+  private capture: Capture | null = null // 截图与录制
+  private clipping: ClipManager | null = null // 裁剪盒与裁剪平面
+  private viewports: ViewportManager | null = null // 共用场景与渲染器的其他视口
+  private postProcessing: PostProcessing | null = null // 后处理管线
 
   constructor(private options: ViewerOptionsType) {
+    super()
     this.width = this.options.el.clientWidth
     this.height = this.options.el.clientHeight
+    this.renderMode = this.options.renderMode ?? 'continuous'
+    this.maxFps = this.options.maxFps ?? 0
 
     this.init()
   }
 
   private init() {
     this.initScene()
-    this.initCamera()
     this.initRenderer()
-    this.initControls()
+    this.initCamera()
+    this.initPostProcessing()
+    this.initPicker()
+    this.initCapture()
     this.observeResize()
+    this.observeVisibility()
+    // 渲染源变化时只唤醒渲染循环，是否需要渲染由 checkSources 比较版本号决定
+    this.unsubscribeSources = onRenderSourcesInvalidate(() => this.schedule())
 
     if (this.options.axis) this.addAxis()
     if (this.options.stats) this.addStats()
@@ -66,14 +193,43 @@ export default class Viewer {
   private initScene() {
     this.scene = new THREE.Scene()
     this.scene.background = new THREE.Color(0xcccccc)
+
+    this.layers = new LayerManager({ scene: this.scene })
+    this.layers.addEventListener('add', this.requestRender)
+    this.layers.addEventListener('remove', this.requestRender)
+    this.layers.addEventListener('change', this.requestRender)
+    this.layers.addEventListener('remove', this.onLayerItemsRemove)
+    this.layers.addEventListener('change', ({ property }) => {
+      if (property === 'items') this.onLayerItemsRemove()
+    })
+    this.register('layers', this.layers)
+
+    this.clipping = new ClipManager({ scene: this.scene })
+    this.clipping.addEventListener('add', this.requestRender)
+    this.clipping.addEventListener('remove', this.requestRender)
+    this.clipping.addEventListener('change', this.requestRender)
+    this.register('clipping', this.clipping)
   }
 
   /**
-   * 初始化 threejs 相机，并使用透视相机
+   * 初始化 相机与控制器，默认使用透视相机与 OrbitControls
    */
   private initCamera() {
-    this.camera = new THREE.PerspectiveCamera(75, this.width / this.height, 0.1, 1000)
-    this.setCameraPosition(10, 10, 10)
+    if (!this.renderer) return
+    this.cameraController = new CameraController({
+      domElement: this.renderer.domElement,
+      width: this.width,
+      height: this.height,
+      projection: this.options.projection,
+      controlMode: this.options.controlMode,
+    })
+    this.cameraController.addEventListener('update', this.requestRender)
+
+    this.viewports = new ViewportManager({
+      scene: this.scene!,
+      cameraController: this.cameraController,
+      requestRender: this.requestRender,
+    })
   }
 
   /**
@@ -82,7 +238,7 @@ export default class Viewer {
   private initRenderer() {
     this.renderer = new THREE.WebGLRenderer({
       precision: 'mediump', // 着色器精度
-      antialias: true, // 是否执行抗锯齿。默认为false
+      antialias: this.options.antialias ?? true, // 是否执行抗锯齿。默认为false
       alpha: true,
     })
     this.renderer.setSize(this.width, this.height)
@@ -92,12 +248,65 @@ export default class Viewer {
   }
 
   /**
-   * 初始化 控制器
+   * 初始化 后处理管线，未开启任何效果时不会创建 EffectComposer
    */
-  private initControls() {
-    if (this.camera && this.renderer) {
-      this.controls = new OrbitControls(this.camera, this.renderer.domElement)
-    }
+  private initPostProcessing() {
+    const camera = this.getCamera()
+    if (!this.renderer || !this.scene || !camera) return
+
+    this.postProcessing = new PostProcessing({
+      renderer: this.renderer,
+      scene: this.scene,
+      camera,
+      effects: this.options.effects,
+    })
+    this.postProcessing.addEventListener('change', this.requestRender)
+    this.cameraController?.addEventListener('change', ({ camera }) =>
+      this.postProcessing?.setCamera(camera),
+    )
+  }
+
+  /**
+   * 初始化 拾取工具
+   */
+  private initPicker() {
+    if (!this.options.picking) return
+
+    const options = this.options.picking === true ? {} : this.options.picking
+    this.picker = new Picker(
+      {
+        getScene: () => this.scene,
+        getCamera: () => this.getCamera(),
+        getRenderer: () => this.renderer,
+        getPickables: () => [...this.pickables].filter((obj) => this.isParentVisible(obj)),
+        getClipping: () => this.clipping,
+        requestUpdate: () => this.schedule(),
+        dispatch: (type, event) => {
+          this.dispatchEvent({ type, ...event })
+          // 悬停高亮标记发生了变化
+          this.requestRender()
+        },
+      },
+      options,
+    )
+  }
+
+  /**
+   * 初始化 截图与录制工具
+   */
+  private initCapture() {
+    this.capture = new Capture({
+      getScene: () => this.scene,
+      getCamera: () => this.getCamera(),
+      getRenderer: () => this.renderer,
+      getPostProcessing: () => this.postProcessing,
+      getTarget: () => this.cameraController?.getTarget() ?? new THREE.Vector3(),
+      beforeRender: () => this.beforeRender(),
+      pause: () => this.stop(),
+      resume: () => {
+        if (!this.destroy) this.start()
+      },
+    })
   }
 
   /**
@@ -114,27 +323,121 @@ export default class Viewer {
    * 更新尺寸
    */
   private resize() {
-    if (this.camera && this.renderer) {
+    if (this.cameraController && this.renderer) {
       this.width = this.options.el.clientWidth
       this.height = this.options.el.clientHeight
-      this.camera.aspect = this.width / this.height
-      this.camera.updateProjectionMatrix()
+      this.cameraController.setSize(this.width, this.height)
       this.renderer.setSize(this.width, this.height)
       this.renderer.setPixelRatio(window.devicePixelRatio)
+      this.postProcessing?.setSize(this.width, this.height)
+      this.requestRender()
     }
   }
 
+  /**
+   * 画布不在视口内或页面隐藏时暂停渲染循环，重新可见后自动恢复
+   */
+  private observeVisibility() {
+    this.visibilityObserver = new IntersectionObserver(([entry]) => {
+      this.offscreen = !entry.isIntersecting
+      this.requestRender()
+    })
+    this.visibilityObserver.observe(this.options.el)
+    document.addEventListener('visibilitychange', this.requestRender)
+  }
+
+  private isSuspended() {
+    return this.offscreen || document.hidden
+  }
+
+  /**
+   * 在下一帧运行渲染循环，已暂停、已停止或已有待执行的帧时忽略
+   */
+  private schedule() {
+    if (this.requestId !== null || !this.running || this.destroy || this.isSuspended()) return
+    this.requestId = window.requestAnimationFrame(() => this.run())
+  }
+
   private run() {
-    if (this.destroy) return
+    this.requestId = null
+    // 暂停后不再请求下一帧，由 IntersectionObserver / visibilitychange 恢复
+    if (this.destroy || !this.running || this.isSuspended()) return
+
+    // 控制器的阻尼、飞行移动与过渡动画需要每帧推进，推进时会通过 update 事件请求渲染
+    if (this.cameraController) this.cameraController.update()
+    if (this.viewports) this.viewports.update()
+    if (this.picker) this.picker.update()
+
+    const time = performance.now()
+    const sources = this.checkSources()
+    if (this.renderMode === 'continuous' || sources.changed) this.needsRender = true
+
+    // 未到最大帧率的间隔时保留 needsRender，留到之后的帧渲染
+    const throttled = this.maxFps > 0 && time - this.lastRenderTime < 1000 / this.maxFps - 1
+    if (this.needsRender && !throttled) {
+      this.needsRender = false
+      this.lastRenderTime = time
+      this.beforeRender()
+      const camera = this.getCamera()
+      if (this.renderer && this.scene && camera) {
+        if (this.postProcessing?.isActive()) this.postProcessing.render()
+        else this.renderer.render(this.scene, camera)
+        this.viewports?.render(this.renderer)
+      }
+      if (this.stats) this.stats.update()
+
+      // beforeRender 中写入的数据（如 PointCloudPipeline）已在这一帧显示，只更新记录的版本号
+      this.checkSources()
+    }
 
-    if (this.controls) this.controls.update()
-    if (this.renderer && this.scene && this.camera) {
-      this.renderer.render(this.scene, this.camera)
+    // 按需渲染时只在仍有待处理的内容时请求下一帧，其余情况由 requestRender 或渲染源唤醒
+    if (
+      this.renderMode === 'continuous' ||
+      this.needsRender ||
+      sources.animating ||
+      this.cameraController?.isTransitioning() ||
+      this.cameraController?.getControlMode() === 'fly' ||
+      this.viewports?.isAnimating()
+    ) {
+      this.schedule()
     }
+  }
 
-    if (this.stats) this.stats.update()
+  /**
+   * 检查图层中的对象以及场景中关联了渲染源的对象的版本号与动画状态，见 RenderSourceType
+   */
+  private checkSources() {
+    const result = { changed: false, animating: false }
+    const checked = new Set<object>()
+
+    const check = (item: object) => {
+      const source = item as RenderSourceType
+      if (checked.has(item) || (!source.getVersion && !source.isAnimating)) return
+      checked.add(item)
+
+      const version = source.getVersion?.() ?? 0
+      const animating = source.isAnimating?.() ?? false
+      const last = this.sourceStates.get(item)
+      // 动画结束后再渲染一帧，显示最终状态
+      if (!last || last.version !== version || animating || last.animating) result.changed = true
+      if (animating) result.animating = true
+      this.sourceStates.set(item, { version, animating })
+    }
 
-    this.requestId = window.requestAnimationFrame(() => this.run())
+    this.layers?.getLayers().forEach((layer) => layer.getItems().forEach(check))
+    this.scene?.traverse((object) => {
+      const source = getRenderSource(object)
+      if (source) check(source)
+    })
+    return result
+  }
+
+  /**
+   * 渲染前触发 beforeRender 事件，并把裁剪体同步到材质
+   */
+  private beforeRender() {
+    this.dispatchEvent({ type: 'beforeRender', time: performance.now() })
+    this.clipping?.update(this.scene)
   }
 
   /**
@@ -142,8 +445,9 @@ export default class Viewer {
    */
   private addAxis() {
     if (this.scene) {
-      const axis = new THREE.AxesHelper(100)
-      this.scene.add(axis)
+      this.axisHelper = new THREE.AxesHelper(100)
+      this.axisHelper.name = 'axis'
+      this.getLayer(HELPER_LAYER).add(this.axisHelper)
     }
   }
 
@@ -164,35 +468,357 @@ export default class Viewer {
    */
   private addGrid() {
     if (this.scene) {
-      const grid = new THREE.GridHelper(15, 10)
-      this.scene.add(grid)
+      this.gridHelper = new THREE.GridHelper(15, 10)
+      this.gridHelper.name = 'grid'
+      this.getLayer(HELPER_LAYER).add(this.gridHelper)
     }
   }
 
   /**
-   * 设置 相机位置
+   * 显示 / 隐藏坐标系辅助线
+   */
+  public setAxis(visible: boolean) {
+    if (visible && !this.axisHelper) this.addAxis()
+    if (this.axisHelper) this.axisHelper.visible = visible
+    this.requestRender()
+  }
+
+  /**
+   * 显示 / 隐藏网格辅助线
    */
-  public setCameraPosition(x: number, y: number, z: number) {
-    if (this.camera) {
-      this.camera.position.set(x, y, z)
-      this.camera.lookAt(0, 0, 0)
+  public setGrid(visible: boolean) {
+    if (visible && !this.gridHelper) this.addGrid()
+    if (this.gridHelper) this.gridHelper.visible = visible
+    this.requestRender()
+  }
+
+  /**
+   * 显示 / 隐藏性能监视器
+   */
+  public setStats(visible: boolean) {
+    if (visible && !this.stats) {
+      this.addStats()
+    } else if (!visible && this.stats) {
+      document.body.removeChild(this.stats.dom)
+      this.stats = null
     }
   }
 
+  /**
+   * 设置背景颜色，null 时背景透明
+   */
+  public setBackground(color: THREE.ColorRepresentation | null) {
+    if (this.scene) this.scene.background = color === null ? null : new THREE.Color(color)
+    this.requestRender()
+  }
 
-  public add(obj: THREE.Object3D) {
-    this.scene?.add(obj)
+  /**
+   * 背景颜色（#rrggbb），背景透明或不是纯色时返回 null
+   */
+  public getBackground() {
+    const background = this.scene?.background
+    return background instanceof THREE.Color ? `#${background.getHexString()}` : null
   }
 
-  public start() {
-    if (!this.requestId) {
-      this.destroy = false
-      this.run()
+  /**
+   * 注册参与 serialize / restore 的对象，id 需在不同会话间保持一致
+   *
+   * @param id      对象 id，如 lidar、labels、measurements
+   * @param target  实现了 toJSON / fromJSON 的对象，如 Points、Sprite、LabelManager、MeasureTool
+   */
+  public register(id: string, target: SerializableType) {
+    this.serializables.set(id, target)
+  }
+
+  public unregister(id: string) {
+    this.serializables.delete(id)
+  }
+
+  /**
+   * 序列化当前看到的内容：相机、辅助线、背景以及已注册对象的状态
+   */
+  public serialize(): ViewerStateType {
+    const objects: Record<string, unknown> = {}
+    this.serializables.forEach((target, id) => (objects[id] = target.toJSON()))
+
+    return {
+      version: VIEWER_STATE_VERSION,
+      camera: this.cameraController!.getViewpoint(),
+      controlMode: this.cameraController!.getControlMode(),
+      axis: this.axisHelper?.visible ?? false,
+      grid: this.gridHelper?.visible ?? false,
+      stats: this.stats !== null,
+      background: this.getBackground(),
+      objects,
     }
   }
 
+  /**
+   * 恢复 serialize 得到的状态，未注册的对象 id 会被忽略
+   *
+   * @param state    Viewer 状态
+   * @param options  animate 是否平滑过渡相机，默认 false
+   */
+  public restore(state: ViewerStateType, options: CameraTransitionOptionsType = {}) {
+    if (state.version !== VIEWER_STATE_VERSION) {
+      throw new Error(`Viewer: unsupported state version ${state.version}`)
+    }
+
+    this.setAxis(state.axis)
+    this.setGrid(state.grid)
+    this.setStats(state.stats)
+    this.setBackground(state.background)
+
+    Object.entries(state.objects).forEach(([id, json]) =>
+      this.serializables.get(id)?.fromJSON(json),
+    )
+
+    this.setControlMode(state.controlMode)
+    this.restoreViewpoint(state.camera, { animate: false, ...options })
+    this.requestRender()
+  }
+
+  /**
+   * 设置 相机位置，默认看向原点
+   */
+  public setCameraPosition(
+    x: number,
+    y: number,
+    z: number,
+    target: THREE.Vector3Like = { x: 0, y: 0, z: 0 },
+  ) {
+    this.cameraController?.setPosition({ x, y, z }, target)
+  }
+
+  /**
+   * 切换投影方式
+   */
+  public setProjection(projection: CameraProjectionType) {
+    this.cameraController?.setProjection(projection)
+  }
+
+  /**
+   * 切换控制方式：orbit 环绕、fly 飞行、map 俯视地图
+   */
+  public setControlMode(mode: CameraControlModeType) {
+    this.cameraController?.setControlMode(mode)
+  }
+
+  /**
+   * 切换到标准视图
+   */
+  public setView(view: CameraViewType, options?: CameraTransitionOptionsType) {
+    this.cameraController?.setView(view, options)
+  }
+
+  /**
+   * 调整相机使物体充满画面
+   */
+  public fitToObject(object: THREE.Object3D, options?: CameraFitOptionsType) {
+    this.cameraController?.fitToObject(object, options)
+  }
+
+  /**
+   * 调整相机使包围盒充满画面
+   */
+  public fitToBoundingBox(box: THREE.Box3, options?: CameraFitOptionsType) {
+    this.cameraController?.fitToBoundingBox(box, options)
+  }
+
+  /**
+   * 以指定名称保存当前视点
+   */
+  public saveViewpoint(name: string) {
+    return this.cameraController?.saveViewpoint(name) ?? null
+  }
+
+  /**
+   * 恢复视点，可传入已保存的视点名称或视点对象
+   */
+  public restoreViewpoint(
+    viewpoint: string | ViewpointType,
+    options?: CameraTransitionOptionsType,
+  ) {
+    return this.cameraController?.restoreViewpoint(viewpoint, options) ?? false
+  }
+
+  /**
+   * 添加可被拾取的对象到指定图层，图层不存在时自动创建
+   *
+   * @param obj    THREE.Object3D、Points、Sprite 或提供 getObject 的对象
+   * @param layer  图层名称，默认 default
+   */
+  public add(obj: LayerItemType, layer = DEFAULT_LAYER) {
+    const target = this.getLayer(layer)
+    target.add(obj)
+    this.pickables.add(getLayerItemObject(obj))
+    return target
+  }
+
+  /**
+   * 从所在图层中移除对象，不会释放对象
+   */
+  public remove(obj: LayerItemType) {
+    const layer = this.layers?.findLayer(obj)
+    if (layer) layer.remove(obj)
+    else this.scene?.remove(getLayerItemObject(obj))
+    this.pickables.delete(getLayerItemObject(obj))
+  }
+
+  /**
+   * 获取图层，不存在时按 options 新建
+   */
+  public getLayer(name: string, options?: Omit<LayerOptionsType, 'name'>) {
+    return this.layers!.get(name) ?? this.layers!.create(name, options)
+  }
+
+  public getLayers() {
+    return this.layers
+  }
+
+  /**
+   * 拾取画布上指定位置（CSS 像素，相对画布左上角）的对象，需开启 picking
+   */
+  public pick(x: number, y: number) {
+    return this.picker?.pick(x, y) ?? null
+  }
+
+  public getPicker() {
+    return this.picker
+  }
+
+  /**
+   * 添加裁剪盒，可传入 rotation 得到任意朝向的裁剪盒
+   */
+  public addClipBox(options?: Omit<ClipVolumeOptionsType, 'type'>) {
+    return this.clipping!.addBox(options)
+  }
+
+  /**
+   * 添加裁剪平面，法线指向被裁掉（外侧）的一侧
+   */
+  public addClipPlane(options?: Omit<ClipVolumeOptionsType, 'type'>) {
+    return this.clipping!.addPlane(options)
+  }
+
+  /**
+   * 设置裁剪方式 inside / outside / highlight
+   */
+  public setClipMode(mode: ClipModeType) {
+    this.clipping?.setMode(mode)
+  }
+
+  public getClipping() {
+    return this.clipping
+  }
+
+  /**
+   * 添加视口，在 options.el 区域内用独立的相机与控制器渲染同一个场景
+   *
+   * options.el 需要位于画布之上（如绝对定位在容器内），超出画布的部分不会被渲染
+   */
+  public addViewport(options: ViewportOptionsType) {
+    return this.viewports!.add(options)
+  }
+
+  public removeViewport(viewport: Viewport) {
+    this.viewports?.remove(viewport)
+  }
+
+  public getViewports() {
+    return this.viewports?.getViewports() ?? []
+  }
+
+  /**
+   * 开启或关闭后处理效果 edl / ssao / outline / fxaa
+   */
+  public setEffect(effect: PostEffectType, enabled: boolean) {
+    this.postProcessing?.setEnabled(effect, enabled)
+  }
+
+  /**
+   * 设置需要描边的对象，需开启 outline 效果
+   */
+  public setOutlineObjects(objects: THREE.Object3D[]) {
+    this.postProcessing?.setOutlineObjects(objects)
+  }
+
+  public getPostProcessing() {
+    return this.postProcessing
+  }
+
+  /**
+   * 按当前画布尺寸截图
+   */
+  public snapshot(options?: CaptureImageOptionsType) {
+    return this.capture!.snapshot(options)
+  }
+
+  /**
+   * 离屏渲染任意分辨率的图片，超出 GPU 限制时自动分块
+   */
+  public renderImage(options: CaptureRenderOptionsType) {
+    return this.capture!.render(options)
+  }
+
+  /**
+   * 绕目标旋转录制 webm 视频或逐帧图片
+   */
+  public recordTurntable(options?: CaptureTurntableOptionsType) {
+    return this.capture!.recordTurntable(options)
+  }
+
+  /**
+   * 沿相机路径录制 webm 视频或逐帧图片
+   */
+  public recordPath(keyframes: CaptureKeyframeType[], options?: CaptureRecordOptionsType) {
+    return this.capture!.recordPath(keyframes, options)
+  }
+
+  public getCapture() {
+    return this.capture
+  }
+
+  /**
+   * 请求在下一帧渲染，按需渲染时修改了无法自动检测的内容（如直接修改 Object3D）后调用
+   */
+  public requestRender = () => {
+    this.needsRender = true
+    this.schedule()
+  }
+
+  /**
+   * 切换渲染方式 continuous / on-demand
+   */
+  public setRenderMode(mode: RenderModeType) {
+    this.renderMode = mode
+    this.requestRender()
+  }
+
+  public getRenderMode() {
+    return this.renderMode
+  }
+
+  /**
+   * 设置最大帧率，0 表示不限制
+   */
+  public setMaxFps(fps: number) {
+    this.maxFps = Math.max(fps, 0)
+  }
+
+  public getMaxFps() {
+    return this.maxFps
+  }
+
+  public start() {
+    this.destroy = false
+    this.running = true
+    this.requestRender()
+  }
+
   public stop() {
-    if (this.requestId) {
+    this.running = false
+    if (this.requestId !== null) {
       window.cancelAnimationFrame(this.requestId)
       this.requestId = null
     }
@@ -207,12 +833,36 @@ export default class Viewer {
 
     this.observer?.disconnect()
     this.observer = null
+    this.visibilityObserver?.disconnect()
+    this.visibilityObserver = null
+    document.removeEventListener('visibilitychange', this.requestRender)
+    this.unsubscribeSources?.()
+    this.unsubscribeSources = null
 
     if (this.stats) {
       document.body.removeChild(this.stats.dom)
       this.stats = null
     }
 
+    this.picker?.dispose()
+    this.picker = null
+    this.capture?.dispose()
+    this.capture = null
+    this.clipping?.dispose()
+    this.clipping = null
+    this.viewports?.dispose()
+    this.viewports = null
+    this.postProcessing?.dispose()
+    this.postProcessing = null
+    this.pickables.clear()
+    this.serializables.clear()
+    this.axisHelper = null
+    this.gridHelper = null
+
+    // 先按图层释放，封装类（Points、Sprite 等）会释放各自的纹理等资源
+    this.layers?.dispose()
+    this.layers = null
+
     if (this.scene) {
       this.scene.traverse((obj: any) => {
         obj.geometry?.dispose?.()
@@ -229,16 +879,52 @@ export default class Viewer {
     canvas?.parentNode?.removeChild(canvas)
 
     this.renderer?.dispose()
-    this.controls?.dispose()
+    this.cameraController?.dispose()
 
     this.scene = undefined
-    this.camera = null
-    this.controls = null
+    this.cameraController = null
     this.renderer = null
   }
 
+  /**
+   * 对象是否仍在场景中且所有父节点都可见，隐藏图层中的对象以及已移除的对象不参与拾取
+   */
+  private isParentVisible(obj: THREE.Object3D) {
+    let root = obj
+    for (let parent = obj.parent; parent; parent = parent.parent) {
+      if (!parent.visible) return false
+      root = parent
+    }
+    return root === this.scene
+  }
+
+  private isInScene(obj: THREE.Object3D) {
+    let root = obj
+    while (root.parent) root = root.parent
+    return root === this.scene
+  }
+
+  /**
+   * 通过图层 API 删除图层或移除对象后，不再引用已离开场景的可拾取对象与辅助线
+   */
+  private onLayerItemsRemove = () => {
+    this.pickables.forEach((obj) => {
+      if (!this.isInScene(obj)) this.pickables.delete(obj)
+    })
+    if (this.axisHelper && !this.isInScene(this.axisHelper)) this.axisHelper = null
+    if (this.gridHelper && !this.isInScene(this.gridHelper)) this.gridHelper = null
+  }
+
   public getCamera() {
-    return this.camera
+    return this.cameraController?.getCamera() ?? null
+  }
+
+  public getControls() {
+    return this.cameraController?.getControls() ?? null
+  }
+
+  public getCameraController() {
+    return this.cameraController
   }
 
   public getRenderer() {
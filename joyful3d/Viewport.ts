@@ -0,0 +1,149 @@
+import * as THREE from 'three'
+import CameraController, {
+  type CameraProjectionType,
+  type CameraControlModeType,
+  type CameraViewType,
+} from './CameraController'
+
+/**
+ * 视口与主相机的联动方式
+ *
+ * @param target  观察目标联动，任一方平移时另一方随之平移
+ * @param zoom    缩放联动，目标处画面的可视高度保持一致
+ */
+export interface ViewportSyncType {
+  target?: boolean
+  zoom?: boolean
+}
+
+export interface ViewportOptionsType {
+  el: HTMLElement // 视口区域，需要位于 Viewer 画布之上，同时接收该视口的交互事件
+  projection?: CameraProjectionType // 投影方式，默认 perspective
+  controlMode?: CameraControlModeType // 控制方式，默认 orbit
+  view?: CameraViewType // 初始标准视图，默认与主相机相同
+  sync?: boolean | ViewportSyncType // 与主相机联动，true 表示目标与缩放都联动，默认 false
+  minimap?: boolean // 是否显示主相机的视锥，默认 false
+  background?: THREE.ColorRepresentation | null // 背景颜色，默认与场景相同，null 表示透明
+}
+
+/**
+ * Viewport 视口类
+ *
+ * 与 Viewer 共用渲染器和场景，在页面上的另一块区域中用独立的相机与控制器渲染同一个场景，
+ * 由 Viewer.addViewport 创建，不需要再次上传点云等 GPU 数据。
+ *
+ * 主要功能：
+ * - 独立的透视 / 正交相机与 orbit / fly / map 控制器，交互事件来自视口区域
+ * - 可选与主相机联动观察目标与缩放
+ * - 可作为小地图显示主相机的视锥
+ * - 可单独设置背景颜色、显示或隐藏
+ *
+ * 构造参数 ViewportOptionsType:
+ * @param el           视口区域，需要位于 Viewer 画布之上（如绝对定位在容器内）
+ * @param projection   投影方式，默认 perspective
+ * @param controlMode  控制方式，默认 orbit
+ * @param view         初始标准视图，默认与主相机相同
+ * @param sync         与主相机联动，true 表示目标与缩放都联动，默认 false
+ * @param minimap      是否显示主相机的视锥，默认 false
+ * @param background   背景颜色，默认与场景相同，null 表示透明
+ */
+export default class Viewport {
+  private cameraController: CameraController
+  private sync: Required<ViewportSyncType>
+  private background: THREE.Color | null | undefined
+  private visible = true
+  private width: number
+  private height: number
+
+  constructor(private options: ViewportOptionsType) {
+    this.width = Math.max(this.options.el.clientWidth, 1)
+    this.height = Math.max(this.options.el.clientHeight, 1)
+    this.cameraController = new CameraController({
+      domElement: this.options.el,
+      width: this.width,
+      height: this.height,
+      projection: this.options.projection,
+      controlMode: this.options.controlMode,
+    })
+    this.sync = { target: false, zoom: false }
+    this.setSync(this.options.sync ?? false)
+    if (this.options.background !== undefined) this.setBackground(this.options.background)
+  }
+
+  public getElement() {
+    return this.options.el
+  }
+
+  public getCamera() {
+    return this.cameraController.getCamera()
+  }
+
+  public getControls() {
+    return this.cameraController.getControls()
+  }
+
+  public getCameraController() {
+    return this.cameraController
+  }
+
+  public isMinimap() {
+    return this.options.minimap ?? false
+  }
+
+  /**
+   * 设置与主相机的联动方式，在任一联动的相机下一次变化时生效
+   */
+  public setSync(sync: boolean | ViewportSyncType) {
+    this.sync =
+      typeof sync === 'boolean'
+        ? { target: sync, zoom: sync }
+        : { target: sync.target ?? false, zoom: sync.zoom ?? false }
+  }
+
+  public getSync(): Required<ViewportSyncType> {
+    return { ...this.sync }
+  }
+
+  /**
+   * 设置背景颜色，null 时背景透明，undefined 时与场景相同
+   */
+  public setBackground(color: THREE.ColorRepresentation | null | undefined) {
+    this.background = color === null || color === undefined ? color : new THREE.Color(color)
+  }
+
+  /**
+   * 渲染时使用的背景，undefined 表示与场景相同
+   */
+  public getBackground() {
+    return this.background
+  }
+
+  public isVisible() {
+    return this.visible
+  }
+
+  public setVisible(visible: boolean) {
+    this.visible = visible
+  }
+
+  /**
+   * 视口区域尺寸变化时更新相机
+   */
+  public setSize(width: number, height: number) {
+    if (width === this.width && height === this.height) return
+    this.width = width
+    this.height = height
+    this.cameraController.setSize(width, height)
+  }
+
+  /**
+   * 每帧调用，推进过渡动画并更新控制器
+   */
+  public update() {
+    this.cameraController.update()
+  }
+
+  public dispose() {
+    this.cameraController.dispose()
+  }
+}
@@ -0,0 +1,259 @@
+import * as THREE from 'three'
+import Viewport, { type ViewportOptionsType, type ViewportSyncType } from './Viewport'
+import type CameraController from './CameraController'
+import type { CameraControllerEventMap } from './CameraController'
+
+export interface ViewportManagerOptionsType {
+  scene: THREE.Scene
+  cameraController: CameraController // 主相机
+  requestRender?: () => void // 视口相机或尺寸变化时调用，用于按需渲染
+}
+
+export interface ViewportManagerEventMap {
+  add: { viewport: Viewport } // 添加视口时触发
+  remove: { viewport: Viewport } // 移除视口时触发
+}
+
+/**
+ * 主相机视锥所在的 THREE.Layers 通道，只有小地图视口的相机会渲染该通道
+ */
+export const MINIMAP_LAYER = 1
+
+/**
+ * ViewportManager 多视口管理类
+ *
+ * 在 Viewer 的同一个渲染器上，按各视口区域相对画布的位置，通过 scissor 依次渲染同一个场景。
+ *
+ * 主要功能：
+ * - 添加、移除视口，视口区域位于画布之外的部分会被裁掉
+ * - 视口之间通过主相机联动观察目标与缩放，避免互相触发
+ * - 小地图视口中显示主相机的视锥（THREE.CameraHelper），主视口与其他视口中不可见
+ * - 提供 isAnimating，视口过渡或飞行期间 Viewer 按需渲染时持续渲染
+ *
+ * 构造参数 ViewportManagerOptionsType:
+ * @param scene             共用的场景
+ * @param cameraController  主相机
+ * @param requestRender     视口相机或尺寸变化时调用，用于按需渲染
+ */
+export default class ViewportManager extends THREE.EventDispatcher<ViewportManagerEventMap> {
+  private viewports: Viewport[] = []
+  private listeners = new Map<Viewport, () => void>()
+  private observer: ResizeObserver
+  private frustumHelper: THREE.CameraHelper | null = null
+  private syncing = false // 正在同步相机，避免同步引起的 update 再次触发同步
+  private size = new THREE.Vector2()
+
+  constructor(private options: ViewportManagerOptionsType) {
+    super()
+    this.observer = new ResizeObserver(() => this.options.requestRender?.())
+    this.options.cameraController.addEventListener('update', this.onMainUpdate)
+    this.options.cameraController.addEventListener('change', this.onMainChange)
+  }
+
+  /**
+   * 添加视口，初始观察目标与主相机相同
+   */
+  public add(options: ViewportOptionsType) {
+    const viewport = new Viewport(options)
+    const main = this.options.cameraController
+    const controller = viewport.getCameraController()
+
+    controller.setPosition(main.getCamera().position, main.getTarget())
+    if (options.view) controller.setView(options.view, { animate: false })
+    if (viewport.getSync().zoom) controller.setViewHeight(main.getViewHeight())
+
+    const listener = () => {
+      this.sync(viewport)
+      this.options.requestRender?.()
+    }
+    controller.addEventListener('update', listener)
+    this.listeners.set(viewport, listener)
+    this.viewports.push(viewport)
+    this.observer.observe(options.el)
+    if (viewport.isMinimap()) this.updateFrustumHelper()
+
+    this.dispatchEvent({ type: 'add', viewport })
+    this.options.requestRender?.()
+    return viewport
+  }
+
+  /**
+   * 移除并释放视口
+   */
+  public remove(viewport: Viewport) {
+    const index = this.viewports.indexOf(viewport)
+    if (index < 0) return
+
+    viewport.getCameraController().removeEventListener('update', this.listeners.get(viewport)!)
+    this.listeners.delete(viewport)
+    this.viewports.splice(index, 1)
+    this.observer.unobserve(viewport.getElement())
+    viewport.dispose()
+    this.updateFrustumHelper()
+
+    this.dispatchEvent({ type: 'remove', viewport })
+    this.options.requestRender?.()
+  }
+
+  public getViewports() {
+    return [...this.viewports]
+  }
+
+  /**
+   * 每帧调用，推进各视口的过渡动画与控制器
+   */
+  public update() {
+    this.viewports.forEach((viewport) => viewport.update())
+  }
+
+  /**
+   * 是否有视口正在过渡或处于 fly 控制方式，按需渲染时需要持续更新
+   */
+  public isAnimating() {
+    return this.viewports.some((viewport) => {
+      const controller = viewport.getCameraController()
+      return controller.isTransitioning() || controller.getControlMode() === 'fly'
+    })
+  }
+
+  /**
+   * 在主视口渲染之后依次渲染各视口
+   */
+  public render(renderer: THREE.WebGLRenderer) {
+    if (!this.viewports.length) return
+
+    const { scene } = this.options
+    const bounds = renderer.domElement.getBoundingClientRect()
+    const background = scene.background
+    this.frustumHelper?.update()
+
+    renderer.setScissorTest(true)
+    this.viewports.forEach((viewport) => {
+      if (!viewport.isVisible()) return
+
+      const rect = viewport.getElement().getBoundingClientRect()
+      // WebGL 视口以画布左下角为原点
+      const x = rect.left - bounds.left
+      const y = bounds.bottom - rect.bottom
+      if (rect.width <= 0 || rect.height <= 0) return
+      if (x >= bounds.width || y >= bounds.height || x + rect.width <= 0 || y + rect.height <= 0) {
+        return
+      }
+
+      viewport.setSize(rect.width, rect.height)
+      renderer.setViewport(x, y, rect.width, rect.height)
+      renderer.setScissor(x, y, rect.width, rect.height)
+
+      const camera = viewport.getCamera()
+      if (viewport.isMinimap()) camera.layers.enable(MINIMAP_LAYER)
+      else camera.layers.disable(MINIMAP_LAYER)
+
+      const viewportBackground = viewport.getBackground()
+      if (viewportBackground !== undefined) scene.background = viewportBackground
+      renderer.render(scene, camera)
+      scene.background = background
+    })
+    renderer.setScissorTest(false)
+
+    renderer.getSize(this.size)
+    renderer.setViewport(0, 0, this.size.x, this.size.y)
+  }
+
+  public dispose() {
+    this.options.cameraController.removeEventListener('update', this.onMainUpdate)
+    this.options.cameraController.removeEventListener('change', this.onMainChange)
+    this.viewports.forEach((viewport) => {
+      viewport.getCameraController().removeEventListener('update', this.listeners.get(viewport)!)
+      viewport.dispose()
+    })
+    this.viewports = []
+    this.listeners.clear()
+    this.observer.disconnect()
+    this.removeFrustumHelper()
+  }
+
+  private onMainUpdate = () => {
+    this.sync(null)
+  }
+
+  private onMainChange = ({ camera }: CameraControllerEventMap['change']) => {
+    // 主相机切换了投影方式，视锥需要跟随新的相机
+    if (this.frustumHelper && this.frustumHelper.camera !== camera) {
+      this.removeFrustumHelper()
+      this.updateFrustumHelper()
+    }
+  }
+
+  /**
+   * 同步相机：视口变化时先同步到主相机，再由主相机同步到其他联动的视口
+   *
+   * @param source  发生变化的视口，null 表示主相机
+   */
+  private sync(source: Viewport | null) {
+    if (this.syncing) return
+    this.syncing = true
+
+    const main = this.options.cameraController
+    if (source) {
+      const sync = source.getSync()
+      const controller = source.getCameraController()
+      if (sync.target || sync.zoom) {
+        this.apply(main, sync, controller.getTarget(), controller.getViewHeight())
+      }
+    }
+
+    const target = main.getTarget()
+    const height = main.getViewHeight()
+    this.viewports.forEach((viewport) => {
+      if (viewport === source) return
+      this.apply(viewport.getCameraController(), viewport.getSync(), target, height)
+    })
+
+    this.syncing = false
+  }
+
+  /**
+   * 把观察目标与可视高度应用到相机，平移时保持相机相对目标的偏移
+   */
+  private apply(
+    controller: CameraController,
+    sync: ViewportSyncType,
+    target: THREE.Vector3,
+    height: number,
+  ) {
+    if (sync.target) {
+      const current = controller.getTarget()
+      if (!current.equals(target)) {
+        const offset = controller.getCamera().position.clone().sub(current)
+        controller.setPosition(offset.add(target), target)
+      }
+    }
+    if (sync.zoom && Math.abs(controller.getViewHeight() - height) > 1e-9 * height) {
+      controller.setViewHeight(height)
+    }
+  }
+
+  /**
+   * 有小地图视口时显示主相机的视锥，否则移除
+   */
+  private updateFrustumHelper() {
+    const needed = this.viewports.some((viewport) => viewport.isMinimap())
+    if (!needed) {
+      this.removeFrustumHelper()
+      return
+    }
+    if (this.frustumHelper) return
+
+    this.frustumHelper = new THREE.CameraHelper(this.options.cameraController.getCamera())
+    this.frustumHelper.layers.set(MINIMAP_LAYER)
+    this.frustumHelper.raycast = () => {}
+    this.options.scene.add(this.frustumHelper)
+  }
+
+  private removeFrustumHelper() {
+    if (!this.frustumHelper) return
+    this.frustumHelper.removeFromParent()
+    this.frustumHelper.dispose()
+    this.frustumHelper = null
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import CameraController from '../CameraController'
+
+// 控制器只需要能注册事件的元素
+const createElement = () => {
+  const root = new EventTarget()
+  return Object.assign(new EventTarget(), {
+    style: {},
+    getRootNode: () => root,
+  }) as unknown as HTMLElement
+}
+
+const create = () =>
+  new CameraController({
+    domElement: createElement(),
+    width: 200,
+    height: 100,
+    projection: 'orthographic',
+  })
+
+describe('CameraController', () => {
+  it('restores the view height of orthographic viewpoints', () => {
+    const source = create()
+    source.setViewHeight(4)
+    const viewpoint = JSON.parse(JSON.stringify(source.getViewpoint()))
+    expect(viewpoint.viewHeight).toBeCloseTo(4)
+
+    // 相机距离不同时正交相机 zoom 为 1 时的视口高度也不同，只恢复 zoom 无法还原画面
+    const target = create()
+    target.setPosition({ x: 30, y: 0, z: 0 }, { x: 0, y: 0, z: 0 })
+    target.restoreViewpoint(viewpoint, { animate: false })
+
+    expect(target.getViewHeight()).toBeCloseTo(4)
+    expect(target.getCamera().position.toArray()).toEqual(viewpoint.position)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import Points from '../Points'
+import { getRenderSource, onRenderSourcesInvalidate } from '../renderSource'
+
+const ranges = (points: Points, name: string) =>
+  (points.getPoint().geometry.getAttribute(name) as THREE.BufferAttribute).updateRanges
+
+// onBeforeRender 中需要用到的 renderer 接口
+const renderer = {
+  getCurrentViewport: (target: THREE.Vector4) => target.set(0, 0, 100, 100),
+  getPixelRatio: () => 1,
+} as unknown as THREE.WebGLRenderer
+
+const render = (points: Points) => {
+  const object = points.getPoint()
+  object.onBeforeRender(
+    renderer,
+    new THREE.Scene(),
+    new THREE.PerspectiveCamera(),
+    object.geometry,
+    object.material as THREE.Material,
+    new THREE.Group(),
+  )
+}
+
+describe('Points', () => {
+  it('marks only the written attributes for upload when writing', () => {
+    const points = new Points({ maxPoints: 10 })
+    points.setPoints(new Float32Array(9))
+    ranges(points, 'position').length = 0
+    ranges(points, 'color').length = 0
+
+    points.updatePoint(1, { color: new THREE.Color(1, 0, 0) })
+
+    expect(ranges(points, 'color')).toEqual([{ start: 3, count: 3 }])
+    expect(ranges(points, 'position')).toEqual([])
+  })
+
+  it('shrinks the bounds after points are overwritten or removed', () => {
+    const points = new Points({ maxPoints: 2 })
+    const sphere = () => points.getPoint().geometry.boundingSphere!
+
+    points.setPoints(new Float32Array([-10, 0, 0, 0, 0, 0]))
+    expect(sphere().radius).toBeCloseTo(5)
+
+    // 循环覆盖最旧的点 (-10, 0, 0)
+    points.appendPoints(new Float32Array([2, 0, 0]))
+    render(points)
+    expect(sphere().center.x).toBeCloseTo(1)
+    expect(sphere().radius).toBeCloseTo(1)
+
+    points.removePoint(0)
+    render(points)
+    expect(sphere().center.x).toBeCloseTo(0)
+    expect(sphere().radius).toBeCloseTo(0)
+  })
+
+  it('clears scalar attributes that are not passed when replacing points', () => {
+    const points = new Points({ maxPoints: 4 })
+    points.setPoints(new Float32Array(6), undefined, { intensity: [5, 6], label: [1, 2] })
+    ranges(points, 'label').length = 0
+
+    points.setPoints(new Float32Array(3), undefined, { intensity: [7] })
+
+    expect(points.getPointAt(0)!.attributes).toEqual({ intensity: 7, label: 0 })
+    expect(ranges(points, 'label')).toEqual([{ start: 0, count: 1 }])
+  })
+
+  it('registers as a render source and wakes viewers when it changes', () => {
+    const scene = new THREE.Scene()
+    const points = new Points({ maxPoints: 10, scene })
+    expect(getRenderSource(points.getPoint())).toBe(points)
+
+    let calls = 0
+    const unsubscribe = onRenderSourcesInvalidate(() => calls++)
+    const version = points.getVersion()
+    points.setPoints(new Float32Array(9))
+    expect(points.getVersion()).toBeGreaterThan(version)
+    expect(calls).toBeGreaterThan(0)
+
+    const count = calls
+    unsubscribe()
+    points.setPointSize(2)
+    expect(calls).toBe(count)
+  })
+})
@@ -0,0 +1,61 @@
+import type {
+  PointCloudExportFormat,
+  PointCloudExportOptionsType,
+  PointCloudExportSource,
+} from './types'
+import { exportPLY } from './ply'
+import { exportPCD } from './pcd'
+import { exportCSV } from './csv'
+
+const MIME_TYPES: Record<PointCloudExportFormat, string> = {
+  ply: 'application/octet-stream',
+  pcd: 'application/octet-stream',
+  csv: 'text/csv',
+}
+
+/**
+ * PointCloudExporter 点云文件导出类
+ *
+ * 把 Points 或 PointCloudLoader 解析出的点云导出为 PLY / PCD / CSV 文件，与 PointCloudLoader 相对应。
+ *
+ * 主要功能：
+ * - 支持 ascii / binary_little_endian 的 PLY 文件
+ * - 支持 ascii / binary 的 PCD 文件
+ * - 支持 CSV 文件
+ * - 导出 Points 时只包含绘制范围内的点，循环覆盖后按写入先后排列，并保留 RGB / RGBA 颜色
+ * - 可通过 indices 只导出部分点，如 points.getSelection()
+ *
+ * 使用示例：
+ * const blob = new PointCloudExporter().exportBlob(points, 'ply', { encoding: 'binary' })
+ * const data = new PointCloudLoader().parse(await blob.arrayBuffer(), 'ply')
+ */
+export default class PointCloudExporter {
+  /**
+   * 导出为文件内容
+   */
+  public export(
+    source: PointCloudExportSource,
+    format: PointCloudExportFormat,
+    options?: PointCloudExportOptionsType,
+  ): ArrayBuffer {
+    switch (format) {
+      case 'ply':
+        return exportPLY(source, options)
+      case 'pcd':
+        return exportPCD(source, options)
+      case 'csv':
+        return exportCSV(source, options)
+    }
+  }
+
+  /**
+   * 导出为 Blob，可用于下载或上传
+   */
+  public exportBlob(
+    source: PointCloudExportSource,
+    format: PointCloudExportFormat,
+    options?: PointCloudExportOptionsType,
+  ) {
+    return new Blob([this.export(source, format, options)], { type: MIME_TYPES[format] })
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import Points from '../../Points'
+import { parsePCD, parsePLY, type PointCloudData } from '../../loaders'
+import { exportCSV, exportPCD, exportPLY } from '../index'
+import type { PointCloudEncoding } from '../types'
+
+const PARSERS = [
+  ['ply', exportPLY, parsePLY],
+  ['pcd', exportPCD, parsePCD],
+] as const
+const ENCODINGS: PointCloudEncoding[] = ['ascii', 'binary']
+
+const cases = PARSERS.flatMap(([format, write, parse]) =>
+  ENCODINGS.map((encoding) => ({ format, encoding, write, parse })),
+)
+
+const toArray = (values: ArrayLike<number> | undefined) => Array.from(values ?? [])
+
+/**
+ * 解析 exportCSV 的输出，返回列名与按列的数值
+ */
+const parseCSV = (buffer: ArrayBuffer) => {
+  const [head, ...rows] = new TextDecoder().decode(buffer).trim().split('\n')
+  const names = head.split(',')
+  const values = rows.map((row) => row.split(',').map(Number))
+  return {
+    names,
+    column: (name: string) => values.map((row) => row[names.indexOf(name)]),
+  }
+}
+
+// 编号为 i 的点为 (i, 2i, -i)，颜色为 (i, 2i, 3i) / 255，强度 10i，分类 i
+const appendPoints = (points: Points, ids: number[]) => {
+  const size = points.hasAlpha() ? 4 : 3
+  const positions = new Float32Array(ids.length * 3)
+  const colors = new Float32Array(ids.length * size)
+  const intensity = new Float32Array(ids.length)
+  const classification = new Uint8Array(ids.length)
+  ids.forEach((id, i) => {
+    positions.set([id, 2 * id, 0 - id], i * 3)
+    colors.set([id / 255, (2 * id) / 255, (3 * id) / 255, 0.5].slice(0, size), i * size)
+    intensity[i] = 10 * id
+    classification[i] = id
+  })
+  points.appendPoints(positions, colors, { intensity, classification })
+}
+
+const range = (start: number, end: number) =>
+  Array.from({ length: end - start }, (_, i) => start + i)
+
+const createPoints = (count: number, options: { alpha?: boolean } = {}) => {
+  const points = new Points({ maxPoints: count, alpha: options.alpha })
+  appendPoints(points, range(0, count))
+  return points
+}
+
+// 容量为 4 的缓冲区先后写入 0-3 与 4-5，最旧的 0、1 被覆盖
+const createWrappedPoints = () => {
+  const points = createPoints(4)
+  appendPoints(points, [4, 5])
+  return points
+}
+
+// 按点的编号检查解析结果，ids 为导出时期望的点的顺序
+const expectPoints = (data: PointCloudData, ids: number[]) => {
+  expect(data.count).toBe(ids.length)
+  expect(toArray(data.positions)).toEqual(ids.flatMap((i) => [i, 2 * i, 0 - i]))
+  expect(toArray(data.colors).map((value) => Math.round(value * 255))).toEqual(
+    ids.flatMap((i) => [i, 2 * i, 3 * i]),
+  )
+  expect(toArray(data.intensity)).toEqual(ids.map((i) => 10 * i))
+  expect(toArray(data.classification)).toEqual(ids)
+}
+
+describe.each(cases)('$format ($encoding)', ({ encoding, write, parse }) => {
+  it('round-trips RGB points with intensity and classification', () => {
+    expectPoints(parse(write(createPoints(5), { encoding })), [0, 1, 2, 3, 4])
+  })
+
+  it('round-trips RGBA points', () => {
+    expectPoints(parse(write(createPoints(3, { alpha: true }), { encoding })), [0, 1, 2])
+  })
+
+  it('writes a wrapped ring buffer from the oldest point', () => {
+    const points = createWrappedPoints()
+    expect(points.getIndices()).toEqual([2, 3, 0, 1])
+    expectPoints(parse(write(points, { encoding })), [2, 3, 4, 5])
+  })
+
+  it('writes only the selected points', () => {
+    const points = createPoints(6)
+    points.select([4, 1])
+    expectPoints(parse(write(points, { encoding, indices: points.getSelection() })), [1, 4])
+  })
+
+  it('restores absolute coordinates of point clouds with an origin', () => {
+    const data: PointCloudData = {
+      count: 2,
+      positions: new Float32Array([0.5, 0.25, 0, 1, 1, 2.5]),
+      origin: [100000, 200000, 10],
+    }
+    const parsed = parse(write(data, { encoding }))
+    expect(toArray(parsed.positions)).toEqual([100000.5, 200000.25, 10, 100001, 200001, 12.5])
+    expect(parsed.colors).toBeUndefined()
+  })
+})
+
+describe('csv', () => {
+  it('writes RGBA colors as 0-255 columns', () => {
+    const csv = parseCSV(exportCSV(createPoints(3, { alpha: true })))
+
+    expect(csv.names).toEqual(['x', 'y', 'z', 'r', 'g', 'b', 'a', 'intensity', 'classification'])
+    expect(csv.column('x')).toEqual([0, 1, 2])
+    expect(csv.column('g')).toEqual([0, 2, 4])
+    expect(csv.column('a')).toEqual([128, 128, 128])
+    expect(csv.column('intensity')).toEqual([0, 10, 20])
+  })
+
+  it('writes a wrapped ring buffer and the selected subset in order', () => {
+    const points = createWrappedPoints()
+    expect(parseCSV(exportCSV(points)).column('classification')).toEqual([2, 3, 4, 5])
+
+    points.select([0, 3])
+    const csv = parseCSV(exportCSV(points, { indices: points.getSelection(), attributes: [] }))
+    expect(csv.names).toEqual(['x', 'y', 'z', 'r', 'g', 'b'])
+    expect(csv.column('y')).toEqual([8, 6])
+  })
+})
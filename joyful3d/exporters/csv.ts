@@ -0,0 +1,39 @@
+import type { ScalarType } from '../loaders/utils'
+import { collectExportData, formatScalar } from './utils'
+import type { PointCloudExportOptionsType, PointCloudExportSource } from './types'
+
+const COLOR_NAMES = ['r', 'g', 'b', 'a']
+
+/**
+ * 导出 CSV 文件，第一行为列名
+ *
+ * 列依次为 x,y,z、r,g,b（RGBA 时还有 a，0-255）以及单通道属性；CSV 只有文本格式，忽略 encoding
+ */
+export function exportCSV(
+  source: PointCloudExportSource,
+  options: PointCloudExportOptionsType = {},
+): ArrayBuffer {
+  const { precision = 6 } = options
+  const { count, positions, colors, colorSize, fields, positionType } = collectExportData(
+    source,
+    options,
+  )
+
+  const names = ['x', 'y', 'z']
+  if (colors) names.push(...COLOR_NAMES.slice(0, colorSize))
+  names.push(...fields.map(({ name }) => name))
+
+  const format = (value: number, type: ScalarType) => formatScalar(value, type, precision)
+  const rows = [names.join(',')]
+  for (let i = 0; i < count; i++) {
+    const row: string[] = []
+    for (let k = 0; k < 3; k++) row.push(format(positions[i * 3 + k], positionType))
+    if (colors) {
+      for (let k = 0; k < colorSize; k++) row.push(String(colors[i * colorSize + k]))
+    }
+    fields.forEach(({ type, values }) => row.push(format(values[i], type)))
+    rows.push(row.join(','))
+  }
+
+  return new TextEncoder().encode(rows.join('\n') + '\n').buffer
+}
@@ -0,0 +1,19 @@
+import PointCloudExporter from './PointCloudExporter'
+import { exportPLY } from './ply'
+import { exportPCD } from './pcd'
+import { exportCSV } from './csv'
+import type {
+  PointCloudExportFormat,
+  PointCloudEncoding,
+  PointCloudExportSource,
+  PointCloudExportOptionsType,
+} from './types'
+
+export { PointCloudExporter, exportPLY, exportPCD, exportCSV }
+
+export type {
+  PointCloudExportFormat,
+  PointCloudEncoding,
+  PointCloudExportSource,
+  PointCloudExportOptionsType,
+}
@@ -0,0 +1,113 @@
+import { SCALAR_SIZE, type ScalarType } from '../loaders/utils'
+import { collectExportData, formatScalar, writeScalar } from './utils'
+import type { ExportFieldType, PointCloudExportOptionsType, PointCloudExportSource } from './types'
+
+const PCD_TYPES: Record<ScalarType, string> = {
+  int8: 'I',
+  uint8: 'U',
+  int16: 'I',
+  uint16: 'U',
+  int32: 'I',
+  uint32: 'U',
+  float32: 'F',
+  float64: 'F',
+}
+
+// 打包的 rgb 字段在 PCL 中以 float 存储，需要按位解释
+const packed = new DataView(new ArrayBuffer(4))
+
+/**
+ * 导出 PCD（v0.7）文件，支持 ascii 与 binary
+ *
+ * 颜色按 PCL 的约定打包为一个字段：RGB 为 rgb（F4，0x00RRGGBB），RGBA 为 rgba（U4，0xAARRGGBB）；
+ * classification 按 PCL 的 PointXYZL 写为 label（U4）
+ */
+export function exportPCD(
+  source: PointCloudExportSource,
+  options: PointCloudExportOptionsType = {},
+): ArrayBuffer {
+  const { encoding = 'binary', precision = 6 } = options
+  const data = collectExportData(source, options)
+  const { count, positions, colors, colorSize, positionType } = data
+
+  const fields: ExportFieldType[] = data.fields.map((field) =>
+    field.name === 'classification' ? { ...field, name: 'label', type: 'uint32' } : field,
+  )
+  const color = colors && {
+    name: colorSize === 4 ? 'rgba' : 'rgb',
+    type: (colorSize === 4 ? 'uint32' : 'float32') as ScalarType,
+  }
+  const columns: { name: string; type: ScalarType }[] = [
+    { name: 'x', type: positionType },
+    { name: 'y', type: positionType },
+    { name: 'z', type: positionType },
+    ...(color ? [color] : []),
+    ...fields,
+  ]
+
+  const header = [
+    '# .PCD v0.7 - Point Cloud Data file format',
+    'VERSION 0.7',
+    `FIELDS ${columns.map(({ name }) => name).join(' ')}`,
+    `SIZE ${columns.map(({ type }) => SCALAR_SIZE[type]).join(' ')}`,
+    `TYPE ${columns.map(({ type }) => PCD_TYPES[type]).join(' ')}`,
+    `COUNT ${columns.map(() => 1).join(' ')}`,
+    `WIDTH ${count}`,
+    'HEIGHT 1',
+    'VIEWPOINT 0 0 0 1 0 0 0',
+    `POINTS ${count}`,
+    `DATA ${encoding === 'ascii' ? 'ascii' : 'binary'}`,
+    '',
+  ].join('\n')
+  const encoder = new TextEncoder()
+
+  // 第 i 个点打包后的颜色
+  const packColor = (i: number) => {
+    const c = i * colorSize
+    const alpha = colorSize === 4 ? colors![c + 3] : 0
+    return ((alpha << 24) | (colors![c] << 16) | (colors![c + 1] << 8) | colors![c + 2]) >>> 0
+  }
+
+  if (encoding === 'ascii') {
+    const format = (value: number, type: ScalarType) => formatScalar(value, type, precision)
+    const rows: string[] = []
+    for (let i = 0; i < count; i++) {
+      const row: string[] = []
+      for (let k = 0; k < 3; k++) row.push(format(positions[i * 3 + k], positionType))
+      if (color?.type === 'uint32') {
+        row.push(String(packColor(i)))
+      } else if (color) {
+        // 按位解释的 float 需要保留 9 位有效数字才能还原
+        packed.setUint32(0, packColor(i))
+        row.push(packed.getFloat32(0).toPrecision(9))
+      }
+      fields.forEach(({ type, values }) => row.push(format(values[i], type)))
+      rows.push(row.join(' '))
+    }
+    return encoder.encode(header + rows.join('\n') + (count > 0 ? '\n' : '')).buffer
+  }
+
+  const head = encoder.encode(header)
+  const stride = columns.reduce((sum, { type }) => sum + SCALAR_SIZE[type], 0)
+  const bytes = new Uint8Array(head.length + count * stride)
+  bytes.set(head)
+  const view = new DataView(bytes.buffer, head.length)
+
+  let offset = 0
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < 3; k++) {
+      writeScalar(view, offset, positionType, positions[i * 3 + k])
+      offset += SCALAR_SIZE[positionType]
+    }
+    if (color) {
+      view.setUint32(offset, packColor(i), true)
+      offset += 4
+    }
+    fields.forEach(({ type, values }) => {
+      writeScalar(view, offset, type, values[i])
+      offset += SCALAR_SIZE[type]
+    })
+  }
+
+  return bytes.buffer
+}
@@ -0,0 +1,87 @@
+import { SCALAR_SIZE, type ScalarType } from '../loaders/utils'
+import { collectExportData, formatScalar, writeScalar } from './utils'
+import type { PointCloudExportOptionsType, PointCloudExportSource } from './types'
+
+const PLY_TYPES: Partial<Record<ScalarType, string>> = {
+  int8: 'char',
+  uint8: 'uchar',
+  int16: 'short',
+  uint16: 'ushort',
+  int32: 'int',
+  uint32: 'uint',
+  float32: 'float',
+  float64: 'double',
+}
+
+const COLOR_NAMES = ['red', 'green', 'blue', 'alpha']
+
+/**
+ * 导出 PLY 文件，支持 ascii 与 binary_little_endian
+ *
+ * vertex 元素依次包含 x/y/z、red/green/blue（RGBA 时还有 alpha，均为 uchar）以及单通道属性
+ */
+export function exportPLY(
+  source: PointCloudExportSource,
+  options: PointCloudExportOptionsType = {},
+): ArrayBuffer {
+  const { encoding = 'binary', precision = 6 } = options
+  const data = collectExportData(source, options)
+  const { count, positions, colors, colorSize, fields, positionType } = data
+
+  const properties: [string, ScalarType][] = [
+    ['x', positionType],
+    ['y', positionType],
+    ['z', positionType],
+  ]
+  if (colors) COLOR_NAMES.slice(0, colorSize).forEach((name) => properties.push([name, 'uint8']))
+  fields.forEach(({ name, type }) => properties.push([name, type]))
+
+  const header = [
+    'ply',
+    `format ${encoding === 'ascii' ? 'ascii' : 'binary_little_endian'} 1.0`,
+    'comment exported by joyful3d',
+    `element vertex ${count}`,
+    ...properties.map(([name, type]) => `property ${PLY_TYPES[type]} ${name}`),
+    'end_header',
+    '',
+  ].join('\n')
+  const encoder = new TextEncoder()
+
+  if (encoding === 'ascii') {
+    const format = (value: number, type: ScalarType) => formatScalar(value, type, precision)
+    const rows: string[] = []
+    for (let i = 0; i < count; i++) {
+      const row: string[] = []
+      for (let k = 0; k < 3; k++) row.push(format(positions[i * 3 + k], positionType))
+      if (colors) {
+        for (let k = 0; k < colorSize; k++) row.push(String(colors[i * colorSize + k]))
+      }
+      fields.forEach(({ type, values }) => row.push(format(values[i], type)))
+      rows.push(row.join(' '))
+    }
+    return encoder.encode(header + rows.join('\n') + (count > 0 ? '\n' : '')).buffer
+  }
+
+  const head = encoder.encode(header)
+  const stride = properties.reduce((sum, [, type]) => sum + SCALAR_SIZE[type], 0)
+  const bytes = new Uint8Array(head.length + count * stride)
+  bytes.set(head)
+  const view = new DataView(bytes.buffer, head.length)
+
+  let offset = 0
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < 3; k++) {
+      writeScalar(view, offset, positionType, positions[i * 3 + k])
+      offset += SCALAR_SIZE[positionType]
+    }
+    if (colors) {
+      for (let k = 0; k < colorSize; k++) view.setUint8(offset++, colors[i * colorSize + k])
+    }
+    fields.forEach(({ type, values }) => {
+      writeScalar(view, offset, type, values[i])
+      offset += SCALAR_SIZE[type]
+    })
+  }
+
+  return bytes.buffer
+}
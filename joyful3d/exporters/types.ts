@@ -0,0 +1,62 @@
+import type Points from '../Points'
+import type { PointCloudData } from '../loaders'
+import type { ScalarType } from '../loaders/utils'
+
+/**
+ * 导出的点云文件格式
+ */
+export type PointCloudExportFormat = 'ply' | 'pcd' | 'csv'
+
+/**
+ * 数据编码方式，CSV 只有文本格式
+ */
+export type PointCloudEncoding = 'ascii' | 'binary'
+
+/**
+ * 可导出的数据：Points 实例，或 PointCloudLoader 解析出的点云
+ */
+export type PointCloudExportSource = Points | PointCloudData
+
+/**
+ * 导出参数
+ *
+ * @param encoding    ascii 或 binary，默认 binary，CSV 忽略此参数
+ * @param indices     只导出这些点：Points 时为缓冲区索引（如 points.getSelection()），
+ *                    PointCloudData 时为点的序号；默认导出全部点，Points 按写入先后排列
+ * @param attributes  导出的单通道属性，默认为全部（如 intensity、classification）
+ * @param precision   ascii 下坐标与浮点属性保留的小数位数，默认 6
+ */
+export interface PointCloudExportOptionsType {
+  encoding?: PointCloudEncoding
+  indices?: ArrayLike<number>
+  attributes?: string[]
+  precision?: number
+}
+
+/**
+ * 单通道属性
+ */
+export interface ExportFieldType {
+  name: string
+  type: ScalarType
+  values: ArrayLike<number>
+}
+
+/**
+ * 各格式共用的中间数据
+ *
+ * @param count         点数
+ * @param positionType  坐标类型，带 origin 的点云使用 float64 以保留精度
+ * @param positions     坐标，xyz 依次排列
+ * @param colors        颜色（可选），0-255，每个点 colorSize 个分量
+ * @param colorSize     3 为 RGB，4 为 RGBA
+ * @param fields        单通道属性
+ */
+export interface ExportDataType {
+  count: number
+  positionType: 'float32' | 'float64'
+  positions: Float32Array | Float64Array
+  colors?: Uint8Array
+  colorSize: 3 | 4
+  fields: ExportFieldType[]
+}
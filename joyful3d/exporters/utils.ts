@@ -0,0 +1,147 @@
+import Points from '../Points'
+import type { PointCloudData } from '../loaders'
+import type { ScalarType } from '../loaders/utils'
+import type {
+  ExportDataType,
+  ExportFieldType,
+  PointCloudExportOptionsType,
+  PointCloudExportSource,
+} from './types'
+
+/**
+ * 按类型向 DataView 写入一个数值，小端序
+ */
+export function writeScalar(view: DataView, offset: number, type: ScalarType, value: number) {
+  switch (type) {
+    case 'int8':
+      return view.setInt8(offset, value)
+    case 'uint8':
+      return view.setUint8(offset, value)
+    case 'int16':
+      return view.setInt16(offset, value, true)
+    case 'uint16':
+      return view.setUint16(offset, value, true)
+    case 'int32':
+      return view.setInt32(offset, value, true)
+    case 'uint32':
+      return view.setUint32(offset, value, true)
+    case 'float32':
+      return view.setFloat32(offset, value, true)
+    case 'float64':
+      return view.setFloat64(offset, value, true)
+  }
+}
+
+/**
+ * 文本格式的数值，浮点数按小数位数截断并去掉末尾的 0，整型原样输出
+ */
+export function formatScalar(value: number, type: ScalarType, precision: number) {
+  if (type !== 'float32' && type !== 'float64') return String(value)
+  const text = value.toFixed(precision)
+  const trimmed = text.includes('.') ? text.replace(/\.?0+$/, '') : text
+  return trimmed === '-0' ? '0' : trimmed
+}
+
+/**
+ * 颜色分量从 0-1 转换为 0-255
+ */
+function toByte(value: number) {
+  return Math.round(Math.min(Math.max(value, 0), 1) * 255)
+}
+
+/**
+ * 属性的存储类型，分类为 uint8，其余为 float32
+ */
+function getFieldType(name: string): ScalarType {
+  return name === 'classification' ? 'uint8' : 'float32'
+}
+
+function collectPoints(points: Points, options: PointCloudExportOptionsType): ExportDataType {
+  const count = points.getCount()
+  const indices = options.indices
+    ? Array.from(options.indices).filter((i) => i >= 0 && i < count)
+    : points.getIndices()
+  const geometry = points.getPoint().geometry
+  const position = geometry.attributes.position.array
+  const color = geometry.attributes.color.array
+  const colorSize = points.hasAlpha() ? 4 : 3
+
+  const positions = new Float32Array(indices.length * 3)
+  const colors = new Uint8Array(indices.length * colorSize)
+  indices.forEach((slot, i) => {
+    positions[i * 3] = position[slot * 3]
+    positions[i * 3 + 1] = position[slot * 3 + 1]
+    positions[i * 3 + 2] = position[slot * 3 + 2]
+    for (let k = 0; k < colorSize; k++)
+      colors[i * colorSize + k] = toByte(color[slot * colorSize + k])
+  })
+
+  const names = points.getAttributeNames()
+  const fields = (options.attributes ?? names)
+    .filter((name) => names.includes(name))
+    .map((name): ExportFieldType => {
+      const array = geometry.attributes[name].array
+      return { name, type: getFieldType(name), values: indices.map((slot) => array[slot]) }
+    })
+
+  return { count: indices.length, positionType: 'float32', positions, colors, colorSize, fields }
+}
+
+function collectPointCloud(
+  data: PointCloudData,
+  options: PointCloudExportOptionsType,
+): ExportDataType {
+  const indices = options.indices
+    ? Array.from(options.indices).filter((i) => i >= 0 && i < data.count)
+    : Array.from({ length: data.count }, (_, i) => i)
+
+  // 带 origin 时还原为绝对坐标，使用 float64 避免丢失精度
+  const origin = data.origin
+  const positions = origin
+    ? new Float64Array(indices.length * 3)
+    : new Float32Array(indices.length * 3)
+  const colors = data.colors ? new Uint8Array(indices.length * 3) : undefined
+  indices.forEach((index, i) => {
+    for (let k = 0; k < 3; k++) {
+      positions[i * 3 + k] = data.positions[index * 3 + k] + (origin ? origin[k] : 0)
+      if (colors) colors[i * 3 + k] = toByte(data.colors![index * 3 + k])
+    }
+  })
+
+  const channels: [string, ArrayLike<number> | undefined][] = [
+    ['intensity', data.intensity],
+    ['classification', data.classification],
+  ]
+  const fields = channels
+    .filter(
+      ([name, values]) => values && (!options.attributes || options.attributes.includes(name)),
+    )
+    .map(
+      ([name, values]): ExportFieldType => ({
+        name,
+        type: getFieldType(name),
+        values: indices.map((index) => values![index]),
+      }),
+    )
+
+  return {
+    count: indices.length,
+    positionType: origin ? 'float64' : 'float32',
+    positions,
+    colors,
+    colorSize: 3,
+    fields,
+  }
+}
+
+/**
+ * 把 Points 或 PointCloudData 整理为各格式共用的中间数据
+ */
+export function collectExportData(
+  source: PointCloudExportSource,
+  options: PointCloudExportOptionsType = {},
+): ExportDataType {
+  return source instanceof Points
+    ? collectPoints(source, options)
+    : collectPointCloud(source, options)
+}
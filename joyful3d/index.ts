@@ -1,18 +1,355 @@
 import Viewer from "./Viewer";
 import Points from "./Points";
 import Sprite from "./Sprite";
-import type { ViewerOptionsType } from "./Viewer";
-import type { PointsOptionsType } from "./Points";
-import type { SpriteOptionsType } from './Sprite';
+import Colormap from './Colormap'
+import PointMaterial from './PointMaterial'
+import PointAccumulator from './PointAccumulator'
+import Picker from './Picker'
+import CameraController from './CameraController'
+import Capture from './Capture'
+import LabelManager from './LabelManager'
+import Layer, { getLayerItemObject } from './Layer'
+import LayerManager from './LayerManager'
+import ClipManager, { CLIP_MAX_BOXES, CLIP_MAX_PLANES } from './ClipManager'
+import ClipVolume from './ClipVolume'
+import Viewport from './Viewport'
+import ViewportManager, { MINIMAP_LAYER } from './ViewportManager'
+import Measurement from './Measurement'
+import MeasureTool from './MeasureTool'
+import SelectionTool from './SelectionTool'
+import { encodeViewerState, decodeViewerState } from './state'
+import { bindRenderSource, invalidateRenderSources } from './renderSource'
+import {
+  PointCloudOctree,
+  MemoryOctreeSource,
+  HttpOctreeSource,
+  buildOctree,
+  buildOctreeInWorker,
+  serializeOctree,
+} from './octree'
+import { PointCloudLoader, parsePCD, parsePLY, parseLAS } from './loaders'
+import { PointCloudExporter, exportPLY, exportPCD, exportCSV } from './exporters'
+import { PostProcessing, EDLPass } from './postprocessing'
+import {
+  PointCloudPipeline,
+  PointCloudStream,
+  WebSocketSource,
+  decodeFrame,
+  decodeFields,
+  processFrame,
+  createJSONSchema,
+  createBinarySchema,
+} from './stream'
+import { RosbridgeClient, RosPointCloud, decodePointCloud2 } from './ros'
+import type {
+  ViewerOptionsType,
+  ViewerEventMap,
+  ViewerStateType,
+  SerializableType,
+  RenderModeType,
+  RenderSourceType,
+} from "./Viewer";
+import type { PickerOptionsType, PickResultType, PickEventType } from './Picker'
+import type {
+  CameraControllerOptionsType,
+  CameraControllerEventMap,
+  CameraProjectionType,
+  CameraControlModeType,
+  CameraViewType,
+  CameraTransitionOptionsType,
+  CameraFitOptionsType,
+  ViewpointType,
+} from './CameraController'
+import type {
+  CaptureImageFormatType,
+  CaptureImageOptionsType,
+  CaptureRenderOptionsType,
+  CaptureRecordOptionsType,
+  CaptureTurntableOptionsType,
+  CaptureKeyframeType,
+} from './Capture'
+import type {
+  MeasureType,
+  MeasurePlaneType,
+  MeasurementJSONType,
+  MeasurementOptionsType,
+} from './Measurement'
+import type {
+  LayerItemType,
+  LayerOptionsType,
+  LayerPropertyType,
+  LayerStateType,
+  LayerEventMap,
+} from './Layer'
+import type { LayerManagerOptionsType, LayerManagerEventMap } from './LayerManager'
+import type {
+  ClipModeType,
+  ClipManagerOptionsType,
+  ClipManagerEventMap,
+  ClipStateType,
+} from './ClipManager'
+import type {
+  ClipVolumeKindType,
+  ClipVolumeOptionsType,
+  ClipVolumeStateType,
+  ClipVolumeEventMap,
+} from './ClipVolume'
+import type { ViewportOptionsType, ViewportSyncType } from './Viewport'
+import type { ViewportManagerOptionsType, ViewportManagerEventMap } from './ViewportManager'
+import type { LabelManagerOptionsType, LabelOptionsType, LabelStateType } from './LabelManager'
+import type { MeasureToolOptionsType, MeasureToolEventMap } from './MeasureTool'
+import type {
+  SelectionShapeType,
+  SelectionOperationType,
+  SelectionToolOptionsType,
+  SelectionToolEventMap,
+  SelectionResultType,
+} from './SelectionTool'
+import type {
+  PointCloudOctreeOptionsType,
+  PointCloudOctreeEventMap,
+  OctreeBuildOptionsType,
+  OctreeBuildResultType,
+  OctreeMetadataType,
+  OctreeNodeInfoType,
+  OctreeSourceType,
+} from './octree'
+import type {
+  PointCloudPipelineOptionsType,
+  PointCloudPipelineEventMap,
+  PointCloudPipelineStatsType,
+  FrameFormatType,
+  FrameColorizeType,
+  FrameProcessOptionsType,
+  PointCloudStreamOptionsType,
+  PointCloudStreamEventMap,
+  PointCloudStreamStatsType,
+  WebSocketSourceOptionsType,
+  PointFieldType,
+  FieldLayoutType,
+  StreamStateType,
+  StreamSourceType,
+  MessageSchemaType,
+} from './stream'
+import type {
+  RosbridgeClientOptionsType,
+  RosbridgeClientEventMap,
+  RosSubscribeOptionsType,
+  RosPointCloudOptionsType,
+  RosPointCloudEventMap,
+  PointCloud2MessageType,
+} from './ros'
+import type {
+  PointsOptionsType,
+  PointsStateType,
+  ColorModeType,
+  PointDataType,
+  PointUpdateType,
+} from "./Points";
+import type { ColormapType, ColormapStops } from './Colormap'
+import type {
+  PointMaterialOptionsType,
+  PointSizeModeType,
+  PointShapeType,
+} from './PointMaterial'
+import type {
+  PointAccumulatorOptionsType,
+  AccumulatorFrameOptionsType,
+  AccumulatorFadeType,
+} from './PointAccumulator'
+import type {
+  SpriteOptionsType,
+  SpriteStyleType,
+  SpriteSizeModeType,
+  SpriteStateType,
+} from './Sprite';
+import type { PointCloudData, PointCloudFormat } from './loaders'
+import type {
+  PointCloudExportFormat,
+  PointCloudEncoding,
+  PointCloudExportSource,
+  PointCloudExportOptionsType,
+} from './exporters'
+import type {
+  PostEffectType,
+  PostEffectsType,
+  SSAOOptionsType,
+  OutlineOptionsType,
+  PostProcessingOptionsType,
+  PostProcessingEventMap,
+  EDLOptionsType,
+} from './postprocessing'
 
 export {
   Viewer,
   Points,
-  Sprite
+  Sprite,
+  Colormap,
+  PointMaterial,
+  PointAccumulator,
+  Picker,
+  CameraController,
+  Capture,
+  LabelManager,
+  Layer,
+  LayerManager,
+  getLayerItemObject,
+  ClipManager,
+  ClipVolume,
+  CLIP_MAX_BOXES,
+  CLIP_MAX_PLANES,
+  Viewport,
+  ViewportManager,
+  MINIMAP_LAYER,
+  Measurement,
+  MeasureTool,
+  SelectionTool,
+  encodeViewerState,
+  decodeViewerState,
+  bindRenderSource,
+  invalidateRenderSources,
+  PointCloudOctree,
+  MemoryOctreeSource,
+  HttpOctreeSource,
+  buildOctree,
+  buildOctreeInWorker,
+  serializeOctree,
+  PointCloudLoader,
+  parsePCD,
+  parsePLY,
+  parseLAS,
+  PointCloudExporter,
+  exportPLY,
+  exportPCD,
+  exportCSV,
+  PostProcessing,
+  EDLPass,
+  PointCloudPipeline,
+  PointCloudStream,
+  WebSocketSource,
+  decodeFrame,
+  decodeFields,
+  processFrame,
+  createJSONSchema,
+  createBinarySchema,
+  RosbridgeClient,
+  RosPointCloud,
+  decodePointCloud2
 }
 
 export type {
   ViewerOptionsType,
+  ViewerEventMap,
+  ViewerStateType,
+  SerializableType,
+  RenderModeType,
+  RenderSourceType,
+  PickerOptionsType,
+  PickResultType,
+  PickEventType,
+  CameraControllerOptionsType,
+  CameraControllerEventMap,
+  CameraProjectionType,
+  CameraControlModeType,
+  CameraViewType,
+  CameraTransitionOptionsType,
+  CameraFitOptionsType,
+  ViewpointType,
+  CaptureImageFormatType,
+  CaptureImageOptionsType,
+  CaptureRenderOptionsType,
+  CaptureRecordOptionsType,
+  CaptureTurntableOptionsType,
+  CaptureKeyframeType,
+  LayerItemType,
+  LayerOptionsType,
+  LayerPropertyType,
+  LayerStateType,
+  LayerEventMap,
+  LayerManagerOptionsType,
+  LayerManagerEventMap,
+  ClipModeType,
+  ClipManagerOptionsType,
+  ClipManagerEventMap,
+  ClipStateType,
+  ClipVolumeKindType,
+  ClipVolumeOptionsType,
+  ClipVolumeStateType,
+  ClipVolumeEventMap,
+  ViewportOptionsType,
+  ViewportSyncType,
+  ViewportManagerOptionsType,
+  ViewportManagerEventMap,
+  LabelManagerOptionsType,
+  LabelOptionsType,
+  LabelStateType,
+  MeasureType,
+  MeasurePlaneType,
+  MeasurementJSONType,
+  MeasurementOptionsType,
+  MeasureToolOptionsType,
+  MeasureToolEventMap,
+  SelectionShapeType,
+  SelectionOperationType,
+  SelectionToolOptionsType,
+  SelectionToolEventMap,
+  SelectionResultType,
+  PointCloudOctreeOptionsType,
+  PointCloudOctreeEventMap,
+  OctreeBuildOptionsType,
+  OctreeBuildResultType,
+  OctreeMetadataType,
+  OctreeNodeInfoType,
+  OctreeSourceType,
+  PointCloudPipelineOptionsType,
+  PointCloudPipelineEventMap,
+  PointCloudPipelineStatsType,
+  FrameFormatType,
+  FrameColorizeType,
+  FrameProcessOptionsType,
+  PointCloudStreamOptionsType,
+  PointCloudStreamEventMap,
+  PointCloudStreamStatsType,
+  WebSocketSourceOptionsType,
+  PointFieldType,
+  FieldLayoutType,
+  StreamStateType,
+  StreamSourceType,
+  MessageSchemaType,
+  RosbridgeClientOptionsType,
+  RosbridgeClientEventMap,
+  RosSubscribeOptionsType,
+  RosPointCloudOptionsType,
+  RosPointCloudEventMap,
+  PointCloud2MessageType,
   PointsOptionsType,
-  SpriteOptionsType
+  PointsStateType,
+  PointDataType,
+  PointUpdateType,
+  ColorModeType,
+  ColormapType,
+  ColormapStops,
+  PointMaterialOptionsType,
+  PointSizeModeType,
+  PointShapeType,
+  PointAccumulatorOptionsType,
+  AccumulatorFrameOptionsType,
+  AccumulatorFadeType,
+  SpriteOptionsType,
+  SpriteStyleType,
+  SpriteSizeModeType,
+  SpriteStateType,
+  PointCloudData,
+  PointCloudFormat,
+  PointCloudExportFormat,
+  PointCloudEncoding,
+  PointCloudExportSource,
+  PointCloudExportOptionsType,
+  PostEffectType,
+  PostEffectsType,
+  SSAOOptionsType,
+  OutlineOptionsType,
+  PostProcessingOptionsType,
+  PostProcessingEventMap,
+  EDLOptionsType
 }
@@ -0,0 +1,68 @@
+import type { PointCloudData, PointCloudFormat } from './types'
+import { parsePCD } from './pcd'
+import { parsePLY } from './ply'
+import { parseLAS } from './las'
+
+/**
+ * PointCloudLoader 点云文件加载类
+ *
+ * 用于加载和解析 PCD / PLY / LAS 点云文件，输出可直接写入 Points 的类型化数组。
+ *
+ * 主要功能：
+ * - 支持 ascii / binary / binary_compressed 的 PCD 文件
+ * - 支持 ascii / binary_little_endian 的 PLY 文件
+ * - 支持未压缩的 LAS 1.2 - 1.4 文件
+ * - 未指定格式时，根据文件头或文件扩展名自动识别
+ *
+ * 使用示例：
+ * const data = await new PointCloudLoader().load('/scan.pcd')
+ * const points = new Points({ scene, maxPoints: data.count })
+ * points.setPointCloud(data)
+ */
+export default class PointCloudLoader {
+  /**
+   * 通过 fetch 加载并解析点云文件
+   */
+  public async load(url: string, format?: PointCloudFormat): Promise<PointCloudData> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`PointCloudLoader: failed to load "${url}" (${response.status})`)
+    }
+
+    const buffer = await response.arrayBuffer()
+    return this.parse(buffer, format || PointCloudLoader.detectFormat(buffer, url))
+  }
+
+  /**
+   * 解析已读取到内存中的点云文件
+   */
+  public parse(buffer: ArrayBuffer, format?: PointCloudFormat): PointCloudData {
+    switch (format || PointCloudLoader.detectFormat(buffer)) {
+      case 'pcd':
+        return parsePCD(buffer)
+      case 'ply':
+        return parsePLY(buffer)
+      case 'las':
+        return parseLAS(buffer)
+    }
+  }
+
+  /**
+   * 根据文件头识别格式，无法识别时再根据文件扩展名判断
+   */
+  public static detectFormat(buffer: ArrayBuffer, name = ''): PointCloudFormat {
+    const head = new TextDecoder().decode(
+      new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64)),
+    )
+
+    if (head.startsWith('LASF')) return 'las'
+    if (head.startsWith('ply')) return 'ply'
+    if (/^(#\s*\.PCD|VERSION)/i.test(head)) return 'pcd'
+
+    const extension = name.split(/[?#]/)[0].split('.').pop()?.toLowerCase()
+    if (extension === 'pcd' || extension === 'ply' || extension === 'las') return extension
+    if (extension === 'laz') throw new Error('PointCloudLoader: LAZ files are not supported')
+
+    throw new Error(`PointCloudLoader: unable to detect point cloud format of "${name}"`)
+  }
+}
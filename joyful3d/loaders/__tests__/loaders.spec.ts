@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { parseLAS, parsePCD, parsePLY, type PointCloudData } from '../index'
+
+const load = (name: string) => {
+  const file = readFileSync(new URL(`./fixtures/${name}`, import.meta.url))
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer
+}
+
+const text = (value: string) => new TextEncoder().encode(value).buffer as ArrayBuffer
+
+const expectValues = (actual: ArrayLike<number> | undefined, expected: number[]) => {
+  expect(actual).toBeDefined()
+  expect(Array.from(actual!)).toHaveLength(expected.length)
+  expected.forEach((value, i) => expect(actual![i]).toBeCloseTo(value, 5))
+}
+
+// PCD / PLY 夹具中的同一组点，第三个点坐标为 NaN
+const expectFixturePoints = (data: PointCloudData) => {
+  expect(data.count).toBe(3)
+  expectValues(data.positions, [1, 2, 3, -1.5, 0.25, 4, 0, 0, -2])
+  expectValues(data.colors, [1, 0, 0, 0, 128 / 255, 1, 10 / 255, 20 / 255, 30 / 255])
+  expectValues(data.intensity, [10, 20, 30])
+  expectValues(data.classification, [1, 2, 6])
+}
+
+describe('parsePCD', () => {
+  it.each(['ascii', 'binary', 'binary-compressed'])(
+    'parses %s data and drops NaN points',
+    (format) => {
+      expectFixturePoints(parsePCD(load(`cloud-${format}.pcd`)))
+    },
+  )
+
+  it('rejects a file without x, y and z fields', () => {
+    const file =
+      'VERSION 0.7\nFIELDS x y\nSIZE 4 4\nTYPE F F\nCOUNT 1 1\nPOINTS 1\nDATA ascii\n1 2\n'
+    expect(() => parsePCD(text(file))).toThrow('PCD: fields x, y and z are required')
+  })
+
+  it('rejects truncated binary data', () => {
+    const bytes = new Uint8Array(load('cloud-binary.pcd'))
+    expect(() => parsePCD(bytes.slice(0, bytes.length - 10).buffer)).toThrow(/truncated/)
+  })
+
+  it('rejects corrupted compressed data', () => {
+    const bytes = new Uint8Array(load('cloud-binary-compressed.pcd'))
+    const corrupted = bytes.slice(0, bytes.length - 1)
+    // 同时缩小记录的压缩长度，使其通过长度检查进入解压
+    const header = new TextDecoder().decode(bytes).indexOf('DATA binary_compressed\n') + 23
+    new DataView(corrupted.buffer).setUint32(header, bytes.length - header - 9, true)
+    expect(() => parsePCD(corrupted.buffer)).toThrow('PCD: compressed data is corrupted')
+  })
+})
+
+describe('parsePLY', () => {
+  it.each(['ascii', 'binary'])('parses %s vertices and skips other elements', (format) => {
+    expectFixturePoints(parsePLY(load(`cloud-${format}.ply`)))
+  })
+
+  it('rejects big endian data', () => {
+    const file = 'ply\nformat binary_big_endian 1.0\nelement vertex 0\nend_header\n'
+    expect(() => parsePLY(text(file))).toThrow(/unsupported format "binary_big_endian"/)
+  })
+})
+
+describe('parseLAS', () => {
+  it('reads points relative to the bounding box minimum', () => {
+    const data = parseLAS(load('cloud.las'))
+
+    expect(data.count).toBe(3)
+    expect(data.origin).toEqual([1000, 2000, 10])
+    expectValues(data.positions, [0.5, 0.25, 0, 1, 1, 2.5, 0, 0, 1])
+    expectValues(data.colors, [
+      1,
+      0,
+      0,
+      0,
+      32896 / 65535,
+      1,
+      2570 / 65535,
+      5140 / 65535,
+      7710 / 65535,
+    ])
+    expectValues(data.intensity, [100, 200, 300])
+    expectValues(data.classification, [2, 5, 9])
+  })
+
+  it('rejects compressed (LAZ) point data', () => {
+    const bytes = new Uint8Array(load('cloud.las'))
+    bytes[104] |= 0x80
+    expect(() => parseLAS(bytes.buffer)).toThrow(
+      'LAS: compressed (LAZ) point data is not supported',
+    )
+  })
+})
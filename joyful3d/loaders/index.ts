@@ -0,0 +1,9 @@
+import PointCloudLoader from './PointCloudLoader'
+import { parsePCD } from './pcd'
+import { parsePLY } from './ply'
+import { parseLAS } from './las'
+import type { PointCloudData, PointCloudFormat } from './types'
+
+export { PointCloudLoader, parsePCD, parsePLY, parseLAS }
+
+export type { PointCloudData, PointCloudFormat }
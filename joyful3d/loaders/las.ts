@@ -0,0 +1,122 @@
+import type { PointCloudData } from './types'
+import { allocatePointCloud } from './utils'
+
+/**
+ * 各点数据格式（Point Data Record Format）的最小记录长度以及 RGB 字段偏移，
+ * 未包含 RGB 的格式 rgb 为 -1
+ */
+const POINT_FORMATS: Record<number, { length: number; rgb: number }> = {
+  0: { length: 20, rgb: -1 },
+  1: { length: 28, rgb: -1 },
+  2: { length: 26, rgb: 20 },
+  3: { length: 34, rgb: 28 },
+  4: { length: 57, rgb: -1 },
+  5: { length: 63, rgb: 28 },
+  6: { length: 30, rgb: -1 },
+  7: { length: 36, rgb: 30 },
+  8: { length: 38, rgb: 30 },
+  9: { length: 59, rgb: -1 },
+  10: { length: 67, rgb: 30 },
+}
+
+/**
+ * 解析未压缩的 LAS 1.2 - 1.4 文件
+ *
+ * 读取坐标、强度、分类以及 RGB（点格式 2/3/5/7/8/10），LAZ 压缩数据会直接报错。
+ * 由于 LAS 坐标通常是投影坐标（数值很大），positions 存储的是相对包围盒最小点的坐标，
+ * 该最小点记录在 origin 中
+ */
+export function parseLAS(buffer: ArrayBuffer): PointCloudData {
+  if (buffer.byteLength < 227) throw new Error('LAS: file is too small to contain a header')
+
+  const view = new DataView(buffer)
+  const signature = String.fromCharCode(
+    view.getUint8(0),
+    view.getUint8(1),
+    view.getUint8(2),
+    view.getUint8(3),
+  )
+  if (signature !== 'LASF') throw new Error('LAS: missing "LASF" file signature')
+
+  const major = view.getUint8(24)
+  const minor = view.getUint8(25)
+  if (major !== 1 || minor < 2 || minor > 4) {
+    throw new Error(`LAS: unsupported version ${major}.${minor}, only 1.2 - 1.4 are supported`)
+  }
+
+  const pointOffset = view.getUint32(96, true)
+  const formatByte = view.getUint8(104)
+  const recordLength = view.getUint16(105, true)
+
+  // LAZ 会将点格式的最高两位置位
+  if (formatByte & 0xc0) throw new Error('LAS: compressed (LAZ) point data is not supported')
+
+  const format = formatByte & 0x3f
+  const layout = POINT_FORMATS[format]
+  if (!layout) throw new Error(`LAS: unsupported point data record format ${format}`)
+  if (recordLength < layout.length) {
+    throw new Error(`LAS: record length ${recordLength} is too small for point format ${format}`)
+  }
+
+  let count = view.getUint32(107, true)
+  if (minor === 4 && buffer.byteLength >= 255) {
+    const extended = Number(view.getBigUint64(247, true))
+    if (extended > 0) count = extended
+  }
+
+  if (pointOffset + count * recordLength > buffer.byteLength) {
+    throw new Error(`LAS: point data is truncated, expected ${count} points`)
+  }
+
+  const scale = [view.getFloat64(131, true), view.getFloat64(139, true), view.getFloat64(147, true)]
+  const offset = [
+    view.getFloat64(155, true),
+    view.getFloat64(163, true),
+    view.getFloat64(171, true),
+  ]
+  const origin: [number, number, number] = [
+    view.getFloat64(187, true),
+    view.getFloat64(203, true),
+    view.getFloat64(219, true),
+  ]
+
+  const extendedFormat = format >= 6
+  const data = allocatePointCloud(count, {
+    color: layout.rgb >= 0,
+    intensity: true,
+    classification: true,
+  })
+  data.origin = origin
+
+  let maxColor = 0
+  for (let i = 0; i < count; i++) {
+    const base = pointOffset + i * recordLength
+
+    for (let axis = 0; axis < 3; axis++) {
+      const raw = view.getInt32(base + axis * 4, true)
+      data.positions[i * 3 + axis] = raw * scale[axis] + offset[axis] - origin[axis]
+    }
+
+    data.intensity![i] = view.getUint16(base + 12, true)
+    // 格式 0-5 的分类只占低 5 位，格式 6-10 占用整个字节
+    data.classification![i] = extendedFormat
+      ? view.getUint8(base + 16)
+      : view.getUint8(base + 15) & 0x1f
+
+    if (layout.rgb >= 0) {
+      for (let c = 0; c < 3; c++) {
+        const value = view.getUint16(base + layout.rgb + c * 2, true)
+        data.colors![i * 3 + c] = value
+        if (value > maxColor) maxColor = value
+      }
+    }
+  }
+
+  // 规范要求 RGB 为 16 位，但不少软件写入的是 8 位数值
+  if (data.colors) {
+    const range = maxColor > 255 ? 65535 : 255
+    for (let i = 0; i < data.colors.length; i++) data.colors[i] /= range
+  }
+
+  return data
+}
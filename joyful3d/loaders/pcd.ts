@@ -0,0 +1,223 @@
+import type { PointCloudData } from './types'
+import {
+  type ScalarType,
+  allocatePointCloud,
+  readHeaderLines,
+  readScalar,
+  truncatePointCloud,
+  unpackRGB,
+} from './utils'
+
+interface PCDField {
+  name: string
+  type: ScalarType
+  size: number
+  count: number
+  offset: number // binary 下的字节偏移
+  column: number // ascii 下的列序号
+}
+
+interface PCDHeader {
+  fields: PCDField[]
+  points: number
+  pointStep: number
+  data: string
+}
+
+const PCD_TYPES: Record<string, ScalarType> = {
+  F4: 'float32',
+  F8: 'float64',
+  U1: 'uint8',
+  U2: 'uint16',
+  U4: 'uint32',
+  I1: 'int8',
+  I2: 'int16',
+  I4: 'int32',
+}
+
+// 打包的 rgb 字段在 PCL 中以 float 存储，需要按位解释为 uint32
+const packed = new DataView(new ArrayBuffer(4))
+
+function parseHeader(lines: string[]): PCDHeader {
+  const entries: Record<string, string[]> = {}
+  for (const line of lines) {
+    if (!line || line.startsWith('#')) continue
+    const [key, ...values] = line.split(/\s+/)
+    entries[key.toUpperCase()] = values
+  }
+
+  const names = entries.FIELDS
+  const sizes = entries.SIZE
+  const types = entries.TYPE
+  if (!names || !sizes || !types) {
+    throw new Error('PCD: header must declare FIELDS, SIZE and TYPE')
+  }
+  if (sizes.length !== names.length || types.length !== names.length) {
+    throw new Error('PCD: FIELDS, SIZE and TYPE have different lengths')
+  }
+
+  const counts = entries.COUNT || names.map(() => '1')
+  const fields: PCDField[] = []
+  let offset = 0
+  let column = 0
+
+  names.forEach((name, i) => {
+    const key = `${types[i].toUpperCase()}${sizes[i]}`
+    const type = PCD_TYPES[key]
+    if (!type) throw new Error(`PCD: unsupported field type "${key}" for field "${name}"`)
+
+    const size = Number(sizes[i])
+    const count = Number(counts[i]) || 1
+    fields.push({ name, type, size, count, offset, column })
+    offset += size * count
+    column += count
+  })
+
+  const width = Number(entries.WIDTH?.[0] || 0)
+  const height = Number(entries.HEIGHT?.[0] || 1)
+  const points = Number(entries.POINTS?.[0] || width * height)
+
+  return { fields, points, pointStep: offset, data: entries.DATA?.[0]?.toLowerCase() || '' }
+}
+
+/**
+ * LZF 解压，binary_compressed 的数据区使用 LZF 压缩
+ */
+function decompressLZF(input: Uint8Array, outputLength: number) {
+  const output = new Uint8Array(outputLength)
+  let i = 0
+  let o = 0
+
+  while (i < input.length) {
+    let control = input[i++]
+    if (control < 32) {
+      // 字面量：后面 control + 1 个字节原样复制
+      control++
+      if (i + control > input.length || o + control > outputLength) {
+        throw new Error('PCD: compressed data is corrupted')
+      }
+      output.set(input.subarray(i, i + control), o)
+      i += control
+      o += control
+    } else {
+      // 回溯引用：从已解压的数据中复制 length 个字节
+      let length = control >> 5
+      if (length === 7) length += input[i++]
+      const reference = o - ((control & 0x1f) << 8) - input[i++] - 1
+      length += 2
+      if (reference < 0 || i > input.length || o + length > outputLength) {
+        throw new Error('PCD: compressed data is corrupted')
+      }
+      for (let k = 0; k < length; k++) output[o++] = output[reference + k]
+    }
+  }
+
+  if (o !== outputLength) throw new Error('PCD: compressed data is corrupted')
+  return output
+}
+
+/**
+ * 解析 PCD 文件，支持 ascii、binary 与 binary_compressed 三种数据格式
+ *
+ * 读取 x/y/z、rgb（或 rgba）、intensity 以及 label/classification 字段，坐标非法（NaN）的点会被丢弃
+ */
+export function parsePCD(buffer: ArrayBuffer): PointCloudData {
+  const bytes = new Uint8Array(buffer)
+  const { lines, byteLength } = readHeaderLines(bytes, (line) => /^DATA\b/i.test(line), 'PCD')
+  const header = parseHeader(lines)
+
+  const find = (...names: string[]) => header.fields.find((f) => names.includes(f.name))
+  const x = find('x')
+  const y = find('y')
+  const z = find('z')
+  if (!x || !y || !z) throw new Error('PCD: fields x, y and z are required')
+
+  const rgb = find('rgb', 'rgba')
+  const intensity = find('intensity')
+  const classification = find('label', 'classification')
+
+  const data = allocatePointCloud(header.points, {
+    color: !!rgb,
+    intensity: !!intensity,
+    classification: !!classification,
+  })
+
+  let read: (i: number, field: PCDField) => number
+  let readBits: (i: number, field: PCDField) => number
+
+  if (header.data === 'ascii') {
+    const text = new TextDecoder().decode(bytes.subarray(byteLength))
+    const rows = text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((line) => line.split(/\s+/))
+
+    if (rows.length < header.points) {
+      throw new Error(`PCD: expected ${header.points} points but found ${rows.length}`)
+    }
+
+    read = (i, field) => Number(rows[i][field.column])
+    readBits = (i, field) => {
+      const value = Number(rows[i][field.column])
+      if (field.type !== 'float32') return value
+      packed.setFloat32(0, value)
+      return packed.getUint32(0)
+    }
+  } else if (header.data === 'binary') {
+    if (bytes.length - byteLength < header.points * header.pointStep) {
+      throw new Error(`PCD: binary data is truncated, expected ${header.points} points`)
+    }
+
+    const view = new DataView(buffer, byteLength)
+    read = (i, field) => readScalar(view, i * header.pointStep + field.offset, field.type)
+    readBits = (i, field) => view.getUint32(i * header.pointStep + field.offset, true)
+  } else if (header.data === 'binary_compressed') {
+    if (bytes.length - byteLength < 8) throw new Error('PCD: compressed data is truncated')
+
+    const sizes = new DataView(buffer, byteLength, 8)
+    const compressedSize = sizes.getUint32(0, true)
+    const size = sizes.getUint32(4, true)
+    if (bytes.length - byteLength - 8 < compressedSize) {
+      throw new Error('PCD: compressed data is truncated')
+    }
+    if (size < header.points * header.pointStep) {
+      throw new Error(`PCD: compressed data is truncated, expected ${header.points} points`)
+    }
+
+    // 解压后按字段依次存储（先是所有点的 x，再是所有点的 y……）
+    const start = byteLength + 8
+    const view = new DataView(
+      decompressLZF(bytes.subarray(start, start + compressedSize), size).buffer,
+    )
+    const stride = (field: PCDField) => field.size * field.count
+    const offsetOf = (i: number, field: PCDField) =>
+      field.offset * header.points + i * stride(field)
+    read = (i, field) => readScalar(view, offsetOf(i, field), field.type)
+    readBits = (i, field) => view.getUint32(offsetOf(i, field), true)
+  } else {
+    throw new Error(
+      `PCD: unsupported DATA format "${header.data}", only ascii, binary and binary_compressed are supported`,
+    )
+  }
+
+  let n = 0
+  for (let i = 0; i < header.points; i++) {
+    const px = read(i, x)
+    const py = read(i, y)
+    const pz = read(i, z)
+    if (!Number.isFinite(px) || !Number.isFinite(py) || !Number.isFinite(pz)) continue
+
+    data.positions[n * 3] = px
+    data.positions[n * 3 + 1] = py
+    data.positions[n * 3 + 2] = pz
+
+    if (rgb) unpackRGB(readBits(i, rgb), data.colors!, n)
+    if (intensity) data.intensity![n] = read(i, intensity)
+    if (classification) data.classification![n] = read(i, classification)
+
+    n++
+  }
+
+  return truncatePointCloud(data, n)
+}
@@ -0,0 +1,200 @@
+import type { PointCloudData } from './types'
+import {
+  type ScalarType,
+  SCALAR_SIZE,
+  allocatePointCloud,
+  normalizeColor,
+  readHeaderLines,
+  readScalar,
+  truncatePointCloud,
+} from './utils'
+
+interface PLYProperty {
+  name: string
+  type: ScalarType
+  listCountType?: ScalarType // 存在时表示 list 属性
+}
+
+interface PLYElement {
+  name: string
+  count: number
+  properties: PLYProperty[]
+}
+
+const PLY_TYPES: Record<string, ScalarType> = {
+  char: 'int8',
+  int8: 'int8',
+  uchar: 'uint8',
+  uint8: 'uint8',
+  short: 'int16',
+  int16: 'int16',
+  ushort: 'uint16',
+  uint16: 'uint16',
+  int: 'int32',
+  int32: 'int32',
+  uint: 'uint32',
+  uint32: 'uint32',
+  float: 'float32',
+  float32: 'float32',
+  double: 'float64',
+  float64: 'float64',
+}
+
+function toType(name: string) {
+  const type = PLY_TYPES[name]
+  if (!type) throw new Error(`PLY: unsupported property type "${name}"`)
+  return type
+}
+
+function parseHeader(lines: string[]) {
+  if (lines[0] !== 'ply') throw new Error('PLY: missing "ply" magic number')
+
+  let format = ''
+  const elements: PLYElement[] = []
+
+  for (const line of lines.slice(1)) {
+    const tokens = line.split(/\s+/)
+    switch (tokens[0]) {
+      case 'format':
+        format = tokens[1]
+        break
+      case 'element':
+        elements.push({ name: tokens[1], count: Number(tokens[2]), properties: [] })
+        break
+      case 'property': {
+        const element = elements[elements.length - 1]
+        if (!element) throw new Error('PLY: property declared before any element')
+
+        if (tokens[1] === 'list') {
+          element.properties.push({
+            name: tokens[4],
+            type: toType(tokens[3]),
+            listCountType: toType(tokens[2]),
+          })
+        } else {
+          element.properties.push({ name: tokens[2], type: toType(tokens[1]) })
+        }
+        break
+      }
+    }
+  }
+
+  return { format, elements }
+}
+
+/**
+ * 解析 PLY 文件，支持 ascii 与 binary_little_endian 两种格式
+ *
+ * 只读取 vertex 元素中的 x/y/z、red/green/blue、intensity 以及 classification/label 属性，
+ * 其余元素（如 face）会被跳过
+ */
+export function parsePLY(buffer: ArrayBuffer): PointCloudData {
+  const bytes = new Uint8Array(buffer)
+  const { lines, byteLength } = readHeaderLines(bytes, (line) => line === 'end_header', 'PLY')
+  const { format, elements } = parseHeader(lines)
+
+  if (format !== 'ascii' && format !== 'binary_little_endian') {
+    throw new Error(
+      `PLY: unsupported format "${format}", only ascii and binary_little_endian are supported`,
+    )
+  }
+
+  const vertex = elements.find((e) => e.name === 'vertex')
+  if (!vertex) throw new Error('PLY: no vertex element found')
+
+  const indexOf = (...names: string[]) =>
+    vertex.properties.findIndex((p) => names.includes(p.name) && !p.listCountType)
+  const x = indexOf('x')
+  const y = indexOf('y')
+  const z = indexOf('z')
+  if (x < 0 || y < 0 || z < 0) throw new Error('PLY: vertex properties x, y and z are required')
+
+  const red = indexOf('red', 'diffuse_red')
+  const green = indexOf('green', 'diffuse_green')
+  const blue = indexOf('blue', 'diffuse_blue')
+  const hasColor = red >= 0 && green >= 0 && blue >= 0
+  const intensity = indexOf('intensity', 'scalar_intensity')
+  const classification = indexOf('classification', 'scalar_classification', 'label')
+
+  const data = allocatePointCloud(vertex.count, {
+    color: hasColor,
+    intensity: intensity >= 0,
+    classification: classification >= 0,
+  })
+  const values = new Float64Array(vertex.properties.length)
+
+  // 按顺序读取一行（一个元素实例）的所有属性，list 属性只跳过不保存
+  let readRow: (element: PLYElement, out?: Float64Array) => void
+
+  if (format === 'ascii') {
+    const rows = new TextDecoder()
+      .decode(bytes.subarray(byteLength))
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+    let row = 0
+
+    readRow = (element, out) => {
+      const tokens = rows[row++]?.split(/\s+/)
+      if (!tokens) throw new Error(`PLY: unexpected end of data in element "${element.name}"`)
+
+      let k = 0
+      element.properties.forEach((p, i) => {
+        if (p.listCountType) {
+          k += Number(tokens[k]) + 1
+        } else {
+          if (out) out[i] = Number(tokens[k])
+          k++
+        }
+      })
+    }
+  } else {
+    const view = new DataView(buffer, byteLength)
+    let offset = 0
+
+    readRow = (element, out) => {
+      element.properties.forEach((p, i) => {
+        if (offset >= view.byteLength) {
+          throw new Error(`PLY: unexpected end of data in element "${element.name}"`)
+        }
+        if (p.listCountType) {
+          const length = readScalar(view, offset, p.listCountType)
+          offset += SCALAR_SIZE[p.listCountType] + length * SCALAR_SIZE[p.type]
+        } else {
+          if (out) out[i] = readScalar(view, offset, p.type)
+          offset += SCALAR_SIZE[p.type]
+        }
+      })
+    }
+  }
+
+  // vertex 之前的元素需要按顺序跳过，vertex 之后的元素不再读取
+  for (const element of elements) {
+    if (element === vertex) break
+    for (let i = 0; i < element.count; i++) readRow(element)
+  }
+
+  let n = 0
+  for (let i = 0; i < vertex.count; i++) {
+    readRow(vertex, values)
+    if (!Number.isFinite(values[x]) || !Number.isFinite(values[y]) || !Number.isFinite(values[z])) {
+      continue
+    }
+
+    data.positions[n * 3] = values[x]
+    data.positions[n * 3 + 1] = values[y]
+    data.positions[n * 3 + 2] = values[z]
+
+    if (hasColor) {
+      data.colors![n * 3] = normalizeColor(values[red], vertex.properties[red].type)
+      data.colors![n * 3 + 1] = normalizeColor(values[green], vertex.properties[green].type)
+      data.colors![n * 3 + 2] = normalizeColor(values[blue], vertex.properties[blue].type)
+    }
+    if (intensity >= 0) data.intensity![n] = values[intensity]
+    if (classification >= 0) data.classification![n] = values[classification]
+
+    n++
+  }
+
+  return truncatePointCloud(data, n)
+}
@@ -0,0 +1,23 @@
+/**
+ * 点云文件格式
+ */
+export type PointCloudFormat = 'pcd' | 'ply' | 'las'
+
+/**
+ * 点云解析结果，所有数据均以类型化数组保存，可直接写入 Points
+ *
+ * @param count           点数
+ * @param positions       坐标，xyz 依次排列，长度为 count * 3
+ * @param colors          颜色（可选），rgb 依次排列并归一化到 0-1，长度为 count * 3
+ * @param intensity       强度（可选），保留文件中的原始数值
+ * @param classification  分类标签（可选）
+ * @param origin          坐标原点（可选），positions 为相对该原点的坐标，用于避免大坐标在 Float32 下丢失精度
+ */
+export interface PointCloudData {
+  count: number
+  positions: Float32Array
+  colors?: Float32Array
+  intensity?: Float32Array
+  classification?: Uint8Array
+  origin?: [number, number, number]
+}
@@ -0,0 +1,131 @@
+import type { PointCloudData } from './types'
+
+export type ScalarType =
+  | 'int8'
+  | 'uint8'
+  | 'int16'
+  | 'uint16'
+  | 'int32'
+  | 'uint32'
+  | 'float32'
+  | 'float64'
+
+export const SCALAR_SIZE: Record<ScalarType, number> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float32: 4,
+  float64: 8,
+}
+
+/**
+ * 按类型从 DataView 中读取一个数值，默认小端序
+ */
+export function readScalar(view: DataView, offset: number, type: ScalarType, littleEndian = true) {
+  switch (type) {
+    case 'int8':
+      return view.getInt8(offset)
+    case 'uint8':
+      return view.getUint8(offset)
+    case 'int16':
+      return view.getInt16(offset, littleEndian)
+    case 'uint16':
+      return view.getUint16(offset, littleEndian)
+    case 'int32':
+      return view.getInt32(offset, littleEndian)
+    case 'uint32':
+      return view.getUint32(offset, littleEndian)
+    case 'float32':
+      return view.getFloat32(offset, littleEndian)
+    case 'float64':
+      return view.getFloat64(offset, littleEndian)
+  }
+}
+
+/**
+ * 逐行读取文本头部，直到 isLast 返回 true 的那一行（包含该行）
+ *
+ * 返回头部的所有行，以及头部占用的字节数（即数据区的起始偏移）
+ */
+export function readHeaderLines(
+  bytes: Uint8Array,
+  isLast: (line: string) => boolean,
+  format: string,
+): { lines: string[]; byteLength: number } {
+  const decoder = new TextDecoder()
+  const lines: string[] = []
+  let start = 0
+
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0x0a) continue
+
+    const line = decoder.decode(bytes.subarray(start, i)).replace(/\r$/, '').trim()
+    lines.push(line)
+    start = i + 1
+
+    if (isLast(line)) return { lines, byteLength: start }
+  }
+
+  throw new Error(`${format}: header is incomplete or missing`)
+}
+
+/**
+ * 根据需要的通道分配点云数组
+ */
+export function allocatePointCloud(
+  count: number,
+  channels: { color?: boolean; intensity?: boolean; classification?: boolean },
+): PointCloudData {
+  return {
+    count,
+    positions: new Float32Array(count * 3),
+    colors: channels.color ? new Float32Array(count * 3) : undefined,
+    intensity: channels.intensity ? new Float32Array(count) : undefined,
+    classification: channels.classification ? new Uint8Array(count) : undefined,
+  }
+}
+
+/**
+ * 丢弃无效点后，将数组截断到实际点数
+ */
+export function truncatePointCloud(data: PointCloudData, count: number): PointCloudData {
+  if (count === data.count) return data
+
+  return {
+    ...data,
+    count,
+    positions: data.positions.slice(0, count * 3),
+    colors: data.colors?.slice(0, count * 3),
+    intensity: data.intensity?.slice(0, count),
+    classification: data.classification?.slice(0, count),
+  }
+}
+
+/**
+ * 解包以 0x00RRGGBB 存储的颜色，写入第 i 个点
+ */
+export function unpackRGB(bits: number, out: Float32Array, i: number) {
+  out[i * 3] = ((bits >> 16) & 0xff) / 255
+  out[i * 3 + 1] = ((bits >> 8) & 0xff) / 255
+  out[i * 3 + 2] = (bits & 0xff) / 255
+}
+
+/**
+ * 颜色分量归一化到 0-1，整型按其位宽取最大值，浮点型视为已归一化
+ */
+export function normalizeColor(value: number, type: ScalarType) {
+  switch (type) {
+    case 'uint8':
+      return value / 255
+    case 'uint16':
+      return value / 65535
+    case 'float32':
+    case 'float64':
+      return value
+    default:
+      return value / 255
+  }
+}
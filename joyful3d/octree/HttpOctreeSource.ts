@@ -0,0 +1,47 @@
+import type { PointCloudData } from '../loaders'
+import type { OctreeMetadataType, OctreeSourceType } from './types'
+import { decodeOctreeNode } from './encoding'
+
+/**
+ * HttpOctreeSource HTTP 目录八叉树数据源
+ *
+ * 读取 serializeOctree 写出的目录：metadata.json 与 nodes/<id>.bin。
+ *
+ * 构造参数:
+ * @param baseUrl  目录地址，如 /octree/scan
+ */
+export default class HttpOctreeSource implements OctreeSourceType {
+  private metadata: Promise<OctreeMetadataType> | null = null
+
+  constructor(private baseUrl: string) {
+    this.baseUrl = this.baseUrl.replace(/\/+$/, '')
+  }
+
+  /**
+   * 读取元数据，成功后缓存；失败时清除缓存，下次调用重新请求
+   */
+  public getMetadata() {
+    this.metadata ??= this.fetch(`${this.baseUrl}/metadata.json`)
+      .then((res) => res.json())
+      .catch((error) => {
+        this.metadata = null
+        throw error
+      })
+    return this.metadata
+  }
+
+  public async loadNode(id: string): Promise<PointCloudData> {
+    const metadata = await this.getMetadata()
+    const node = metadata.nodes.find((n) => n.id === id)
+    if (!node) throw new Error(`Octree: node "${id}" does not exist`)
+
+    const response = await this.fetch(`${this.baseUrl}/nodes/${id}.bin`)
+    return decodeOctreeNode(await response.arrayBuffer(), node.count, metadata.attributes)
+  }
+
+  private async fetch(url: string) {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`Octree: failed to load "${url}" (${response.status})`)
+    return response
+  }
+}
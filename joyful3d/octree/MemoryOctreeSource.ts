@@ -0,0 +1,26 @@
+import type { PointCloudData } from '../loaders'
+import type { OctreeMetadataType, OctreeSourceType } from './types'
+
+/**
+ * MemoryOctreeSource 内存八叉树数据源
+ *
+ * 直接使用 buildOctree 的构建结果，适合本地构建或离线测试。
+ *
+ * 构造参数:
+ * @param result  buildOctree / buildOctreeInWorker 的返回值
+ */
+export default class MemoryOctreeSource implements OctreeSourceType {
+  constructor(
+    private result: { metadata: OctreeMetadataType; nodes: Record<string, PointCloudData> },
+  ) {}
+
+  public async getMetadata() {
+    return this.result.metadata
+  }
+
+  public async loadNode(id: string) {
+    const node = this.result.nodes[id]
+    if (!node) throw new Error(`Octree: node "${id}" does not exist`)
+    return node
+  }
+}
@@ -0,0 +1,331 @@
+import * as THREE from 'three'
+import Points from '../Points'
+import type { PointsOptionsType } from '../Points'
+import type Viewer from '../Viewer'
+import type { OctreeMetadataType, OctreeNodeInfoType, OctreeSourceType } from './types'
+
+export interface PointCloudOctreeOptionsType {
+  source: OctreeSourceType
+  viewer?: Viewer
+  pointBudget?: number
+  maxScreenSpaceError?: number
+  maxConcurrentLoads?: number
+  cacheSize?: number
+  maxRetries?: number
+  retryDelay?: number
+  pointsOptions?: Omit<PointsOptionsType, 'scene' | 'maxPoints'>
+}
+
+export interface PointCloudOctreeEventMap {
+  ready: { metadata: OctreeMetadataType }
+  load: { id: string }
+  unload: { id: string }
+  error: { id: string; error: unknown }
+}
+
+interface LoadedNodeType {
+  points: Points
+  lastVisible: number // 最近一次可见的帧序号
+}
+
+interface FailedNodeType {
+  attempts: number // 已失败的次数
+  retryAt: number // 可以重试的时间（performance.now）
+}
+
+interface QueueItemType {
+  node: OctreeNodeInfoType
+  priority: number
+}
+
+/**
+ * PointCloudOctree 八叉树点云类
+ *
+ * 按相机视锥与屏幕空间误差选择可见节点，在点数预算内按需加载、卸载节点，用于渲染超大点云。
+ *
+ * 主要功能：
+ * - 视锥剔除，并优先细化屏幕空间误差大的节点
+ * - 总点数不超过 pointBudget
+ * - 节点数据源可替换：内存（MemoryOctreeSource）或 HTTP 目录（HttpOctreeSource）
+ * - 已加载节点按最近可见时间淘汰，缓存点数不超过 cacheSize
+ * - 加载失败的节点按指数退避重试，超过 maxRetries 次后不再加载
+ * - 传入 viewer 时自动加入场景并每帧更新，否则需手动调用 update
+ *
+ * 构造参数 PointCloudOctreeOptionsType:
+ * @param source              节点数据源
+ * @param viewer              Viewer 实例（可选）
+ * @param pointBudget         同时显示的最大点数，默认 1000000
+ * @param maxScreenSpaceError 节点间距投影到屏幕超过该像素数时继续细化，默认 2
+ * @param maxConcurrentLoads  同时加载的节点数，默认 4
+ * @param cacheSize           已加载节点的最大总点数，默认为 pointBudget 的 2 倍
+ * @param maxRetries          节点加载失败后的最大重试次数，默认 3
+ * @param retryDelay          第一次重试前的等待时间（毫秒），之后每次加倍，默认 1000
+ * @param pointsOptions       节点 Points 的配置，如 colorMode、colormap
+ */
+export default class PointCloudOctree extends THREE.EventDispatcher<PointCloudOctreeEventMap> {
+  public ready: Promise<OctreeMetadataType>
+
+  private root = new THREE.Group()
+  private metadata: OctreeMetadataType | null = null
+  private nodes = new Map<string, OctreeNodeInfoType>()
+  private loaded = new Map<string, LoadedNodeType>()
+  private loading = new Set<string>()
+  private failed = new Map<string, FailedNodeType>()
+  private visibleNodes: OctreeNodeInfoType[] = []
+  private frame = 0
+  private disposed = false
+
+  private pointBudget: number
+  private maxScreenSpaceError: number
+  private maxConcurrentLoads: number
+  private cacheSize: number
+  private maxRetries: number
+  private retryDelay: number
+
+  private frustum = new THREE.Frustum()
+  private matrix = new THREE.Matrix4()
+  private box = new THREE.Box3()
+  private sphere = new THREE.Sphere()
+  private cameraPosition = new THREE.Vector3()
+
+  constructor(private options: PointCloudOctreeOptionsType) {
+    super()
+    this.pointBudget = this.options.pointBudget ?? 1_000_000
+    this.maxScreenSpaceError = this.options.maxScreenSpaceError ?? 2
+    this.maxConcurrentLoads = this.options.maxConcurrentLoads ?? 4
+    this.cacheSize = this.options.cacheSize ?? this.pointBudget * 2
+    this.maxRetries = this.options.maxRetries ?? 3
+    this.retryDelay = this.options.retryDelay ?? 1000
+
+    this.options.viewer?.add(this.root)
+    this.options.viewer?.addEventListener('beforeRender', this.onBeforeRender)
+
+    this.ready = this.options.source.getMetadata().then((metadata) => {
+      this.metadata = metadata
+      metadata.nodes.forEach((node) => this.nodes.set(node.id, node))
+      this.dispatchEvent({ type: 'ready', metadata })
+      return metadata
+    })
+  }
+
+  private onBeforeRender = () => {
+    const camera = this.options.viewer?.getCamera()
+    const renderer = this.options.viewer?.getRenderer()
+    if (camera && renderer) this.update(camera, renderer.domElement.clientHeight)
+  }
+
+  public getObject() {
+    return this.root
+  }
+
+  public getMetadata() {
+    return this.metadata
+  }
+
+  /**
+   * 当前选中的可见节点
+   */
+  public getVisibleNodes() {
+    return [...this.visibleNodes]
+  }
+
+  /**
+   * 当前实际显示的点数（只统计已加载的可见节点）
+   */
+  public getVisiblePointCount() {
+    return this.visibleNodes.reduce(
+      (sum, node) => sum + (this.loaded.has(node.id) ? node.count : 0),
+      0,
+    )
+  }
+
+  public setPointBudget(budget: number) {
+    this.pointBudget = budget
+  }
+
+  /**
+   * 根据相机选择可见节点，并加载缺失的节点、淘汰多余的缓存
+   *
+   * @param camera  当前相机
+   * @param height  画布高度（像素），用于计算屏幕空间误差
+   */
+  public update(camera: THREE.Camera, height: number) {
+    const root = this.nodes.get('r')
+    if (!root || this.disposed) return
+
+    this.frame++
+    this.root.updateMatrixWorld()
+    camera.updateMatrixWorld()
+    camera.getWorldPosition(this.cameraPosition)
+    this.matrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+    this.frustum.setFromProjectionMatrix(this.matrix)
+
+    const scale = this.root.matrixWorld.getMaxScaleOnAxis()
+    const queue: QueueItemType[] = [{ node: root, priority: Infinity }]
+    const visible: OctreeNodeInfoType[] = []
+    let points = 0
+
+    while (queue.length) {
+      const { node } = queue.shift()!
+      if (!this.frustum.intersectsBox(this.getNodeBox(node))) continue
+      if (points + node.count > this.pointBudget) break
+
+      visible.push(node)
+      points += node.count
+
+      for (const id of node.children) {
+        const child = this.nodes.get(id)!
+        const error = this.getScreenSpaceError(child, camera, height, scale)
+        // 父节点的间距约为子节点的 2 倍，其投影超过阈值时说明精度不够，需要继续细化
+        if (error * 2 <= this.maxScreenSpaceError) continue
+
+        const index = queue.findIndex((item) => item.priority < error)
+        queue.splice(index < 0 ? queue.length : index, 0, { node: child, priority: error })
+      }
+    }
+
+    this.visibleNodes = visible
+    const visibleIds = new Set(visible.map((node) => node.id))
+
+    this.loaded.forEach((item, id) => {
+      const show = visibleIds.has(id)
+      item.points.getPoint().visible = show
+      if (show) item.lastVisible = this.frame
+    })
+
+    const now = performance.now()
+    for (const node of visible) {
+      if (this.loading.size >= this.maxConcurrentLoads) break
+      if (this.loaded.has(node.id) || this.loading.has(node.id)) continue
+
+      const failed = this.failed.get(node.id)
+      if (failed && (failed.attempts > this.maxRetries || now < failed.retryAt)) continue
+      this.loadNode(node)
+    }
+
+    this.evict(visibleIds)
+  }
+
+  private getNodeBox(node: OctreeNodeInfoType) {
+    const [x, y, z] = node.min
+    this.box.min.set(x, y, z)
+    this.box.max.set(x + node.size, y + node.size, z + node.size)
+    return this.box.applyMatrix4(this.root.matrixWorld)
+  }
+
+  /**
+   * 节点间距（几何误差）投影到屏幕上的像素数
+   */
+  private getScreenSpaceError(
+    node: OctreeNodeInfoType,
+    camera: THREE.Camera,
+    height: number,
+    scale: number,
+  ) {
+    const spacing = node.spacing * scale
+
+    if (camera instanceof THREE.OrthographicCamera) {
+      return (spacing * camera.zoom * height) / (camera.top - camera.bottom)
+    }
+
+    const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov : 75
+    this.getNodeBox(node).getBoundingSphere(this.sphere)
+    const distance = Math.max(this.sphere.distanceToPoint(this.cameraPosition), 1e-6)
+    return (spacing * height) / (2 * distance * Math.tan(THREE.MathUtils.degToRad(fov) / 2))
+  }
+
+  private loadNode(node: OctreeNodeInfoType) {
+    this.loading.add(node.id)
+
+    this.options.source
+      .loadNode(node.id)
+      .then((data) => {
+        this.loading.delete(node.id)
+        this.failed.delete(node.id)
+        if (this.disposed) return
+
+        const points = new Points({
+          ...this.getDefaultPointsOptions(),
+          ...this.options.pointsOptions,
+          maxPoints: Math.max(data.count, 1),
+        })
+        points.setPointCloud(data)
+        points.getPoint().visible = false
+        this.root.add(points.getPoint())
+
+        this.loaded.set(node.id, { points, lastVisible: this.frame })
+        this.dispatchEvent({ type: 'load', id: node.id })
+      })
+      .catch((error) => {
+        this.loading.delete(node.id)
+        if (this.disposed) return
+
+        const attempts = (this.failed.get(node.id)?.attempts ?? 0) + 1
+        const delay = this.retryDelay * 2 ** (attempts - 1)
+        this.failed.set(node.id, { attempts, retryAt: performance.now() + delay })
+        this.dispatchEvent({ type: 'error', id: node.id, error })
+
+        // 按需渲染时 Viewer 可能处于空闲，到期后请求一帧以便重试
+        if (attempts <= this.maxRetries) {
+          setTimeout(() => {
+            if (!this.disposed) this.options.viewer?.requestRender()
+          }, delay)
+        }
+      })
+  }
+
+  /**
+   * 所有节点共用同一个色带范围，避免节点之间颜色不连续
+   */
+  private getDefaultPointsOptions(): Omit<PointsOptionsType, 'scene' | 'maxPoints'> {
+    const mode = this.options.pointsOptions?.colorMode
+    const root = this.nodes.get('r')
+    if (!root || !this.metadata) return {}
+
+    if (mode === 'height') {
+      const axis = this.options.pointsOptions?.colorAxis ?? 'y'
+      if (typeof axis === 'string') {
+        const min = root.min[{ x: 0, y: 1, z: 2 }[axis]]
+        return { colorRange: [min, min + root.size] }
+      }
+    }
+    if (mode === 'intensity' && this.metadata.ranges.intensity) {
+      return { colorRange: this.metadata.ranges.intensity }
+    }
+    return {}
+  }
+
+  /**
+   * 缓存超出 cacheSize 时，按最近可见时间从旧到新卸载不可见的节点
+   */
+  private evict(visibleIds: Set<string>) {
+    let cached = 0
+    this.loaded.forEach((_item, id) => (cached += this.nodes.get(id)!.count))
+    if (cached <= this.cacheSize) return
+
+    const candidates = [...this.loaded.entries()]
+      .filter(([id]) => !visibleIds.has(id))
+      .sort((a, b) => a[1].lastVisible - b[1].lastVisible)
+
+    for (const [id, item] of candidates) {
+      if (cached <= this.cacheSize) break
+
+      item.points.dispose()
+      item.points.getPoint().removeFromParent()
+      this.loaded.delete(id)
+      cached -= this.nodes.get(id)!.count
+      this.dispatchEvent({ type: 'unload', id })
+    }
+  }
+
+  public dispose() {
+    this.disposed = true
+    this.options.viewer?.removeEventListener('beforeRender', this.onBeforeRender)
+    this.options.viewer?.remove(this.root)
+
+    this.loaded.forEach((item) => item.points.dispose())
+    this.loaded.clear()
+    this.failed.clear()
+    this.root.clear()
+  }
+}
@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
+import type { PointCloudData } from '../../loaders'
+import {
+  HttpOctreeSource,
+  MemoryOctreeSource,
+  PointCloudOctree,
+  buildOctree,
+  type OctreeSourceType,
+} from '../index'
+
+// 边长为 size 的立方体网格点云，intensity 为点的序号
+const createGrid = (size: number): PointCloudData => {
+  const count = size ** 3
+  const positions = new Float32Array(count * 3)
+  const intensity = new Float32Array(count)
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = i % size
+    positions[i * 3 + 1] = Math.floor(i / size) % size
+    positions[i * 3 + 2] = Math.floor(i / size / size)
+    intensity[i] = i
+  }
+  return { count, positions, intensity }
+}
+
+// 等待数据源的 Promise 与 PointCloudOctree 中的回调执行完
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const createCamera = (distance: number) => {
+  const camera = new THREE.PerspectiveCamera(60, 1, 0.1, 1e6)
+  camera.position.set(5, 5, 5 + distance)
+  camera.lookAt(5, 5, 5)
+  camera.updateMatrixWorld()
+  return camera
+}
+
+describe('buildOctree', () => {
+  const data = createGrid(12)
+  const result = buildOctree(data, { maxPointsPerNode: 200 })
+
+  it('stores every point exactly once and keeps nodes within the point limit', () => {
+    const { metadata, nodes } = result
+    const seen = new Set<number>()
+    metadata.nodes.forEach((info) => {
+      const node = nodes[info.id]
+      expect(node.count).toBe(info.count)
+      expect(node.count).toBeLessThanOrEqual(200)
+      node.intensity!.forEach((id) => seen.add(id))
+    })
+
+    expect(metadata.count).toBe(data.count)
+    expect(seen.size).toBe(data.count)
+    expect(metadata.nodes.reduce((sum, info) => sum + info.count, 0)).toBe(data.count)
+    expect(metadata.ranges.intensity).toEqual([0, data.count - 1])
+  })
+
+  it('places children inside their parent with half the size and spacing', () => {
+    const infos = new Map(result.metadata.nodes.map((info) => [info.id, info]))
+    expect(result.metadata.nodes[0].id).toBe('r')
+
+    result.metadata.nodes.forEach((parent) =>
+      parent.children.forEach((id) => {
+        const child = infos.get(id)!
+        expect(child.level).toBe(parent.level + 1)
+        expect(child.size).toBeCloseTo(parent.size / 2)
+        expect(child.spacing).toBeCloseTo(parent.spacing / 2)
+        child.min.forEach((value, axis) => {
+          expect(value).toBeGreaterThanOrEqual(parent.min[axis])
+          expect(value + child.size).toBeLessThanOrEqual(parent.min[axis] + parent.size + 1e-6)
+        })
+      }),
+    )
+  })
+
+  it('rejects options that would never finish subdividing', () => {
+    expect(() => buildOctree(data, { maxPointsPerNode: 0 })).toThrow(/maxPointsPerNode/)
+    expect(() => buildOctree(data, { spacing: 0 })).toThrow(/spacing/)
+  })
+})
+
+describe('PointCloudOctree', () => {
+  const result = buildOctree(createGrid(12), { maxPointsPerNode: 200 })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('refines nodes as the camera gets closer and loads them from the source', async () => {
+    const octree = new PointCloudOctree({
+      source: new MemoryOctreeSource(result),
+      maxConcurrentLoads: 100,
+    })
+    const loaded: string[] = []
+    octree.addEventListener('load', ({ id }) => loaded.push(id))
+    await octree.ready
+
+    octree.update(createCamera(1e5), 1000)
+    expect(octree.getVisibleNodes().map((node) => node.id)).toEqual(['r'])
+
+    octree.update(createCamera(20), 1000)
+    const visible = octree.getVisibleNodes()
+    expect(visible.length).toBeGreaterThan(1)
+    expect(visible[0].id).toBe('r')
+
+    await settle()
+    expect(loaded.sort()).toEqual(visible.map((node) => node.id).sort())
+    octree.update(createCamera(20), 1000)
+    expect(octree.getVisiblePointCount()).toBe(visible.reduce((sum, node) => sum + node.count, 0))
+    octree.dispose()
+  })
+
+  it('keeps the visible points within the point budget', async () => {
+    const root = result.metadata.nodes[0]
+    const octree = new PointCloudOctree({
+      source: new MemoryOctreeSource(result),
+      pointBudget: root.count + 1,
+    })
+    await octree.ready
+
+    octree.update(createCamera(20), 1000)
+    expect(octree.getVisibleNodes().map((node) => node.id)).toEqual(['r'])
+    octree.dispose()
+  })
+
+  it('unloads the least recently visible nodes beyond the cache size', async () => {
+    const root = result.metadata.nodes[0]
+    const octree = new PointCloudOctree({
+      source: new MemoryOctreeSource(result),
+      cacheSize: root.count,
+      maxConcurrentLoads: 100,
+    })
+    const unloaded: string[] = []
+    octree.addEventListener('unload', ({ id }) => unloaded.push(id))
+    await octree.ready
+
+    octree.update(createCamera(20), 1000)
+    const children = octree
+      .getVisibleNodes()
+      .filter((node) => node.id !== 'r')
+      .map((node) => node.id)
+    await settle()
+
+    // 远离后只有根节点可见，其余节点超出缓存被卸载
+    octree.update(createCamera(1e5), 1000)
+    expect(unloaded.sort()).toEqual(children.sort())
+    octree.dispose()
+  })
+
+  it('retries failed nodes with backoff up to maxRetries', async () => {
+    const memory = new MemoryOctreeSource(result)
+    let failures = 2
+    const source: OctreeSourceType = {
+      getMetadata: () => memory.getMetadata(),
+      loadNode: vi.fn((id: string) =>
+        failures-- > 0 ? Promise.reject(new Error('offline')) : memory.loadNode(id),
+      ),
+    }
+    let now = 0
+    vi.spyOn(performance, 'now').mockImplementation(() => now)
+
+    const octree = new PointCloudOctree({ source, retryDelay: 100, maxRetries: 2 })
+    const errors: string[] = []
+    const loaded: string[] = []
+    octree.addEventListener('error', ({ id }) => errors.push(id))
+    octree.addEventListener('load', ({ id }) => loaded.push(id))
+    await octree.ready
+
+    const camera = createCamera(1e5)
+    octree.update(camera, 1000)
+    await settle()
+    expect(errors).toEqual(['r'])
+
+    // 等待期间不重试
+    now = 99
+    octree.update(camera, 1000)
+    expect(source.loadNode).toHaveBeenCalledTimes(1)
+
+    now = 100
+    octree.update(camera, 1000)
+    await settle()
+    expect(errors).toEqual(['r', 'r'])
+
+    // 第二次失败后等待时间加倍
+    now = 299
+    octree.update(camera, 1000)
+    expect(source.loadNode).toHaveBeenCalledTimes(2)
+
+    now = 300
+    octree.update(camera, 1000)
+    await settle()
+    expect(loaded).toEqual(['r'])
+    octree.dispose()
+  })
+
+  it('stops loading a node after maxRetries failures', async () => {
+    const memory = new MemoryOctreeSource(result)
+    const source: OctreeSourceType = {
+      getMetadata: () => memory.getMetadata(),
+      loadNode: vi.fn(() => Promise.reject(new Error('offline'))),
+    }
+    let now = 0
+    vi.spyOn(performance, 'now').mockImplementation(() => now)
+
+    const octree = new PointCloudOctree({ source, retryDelay: 1, maxRetries: 1 })
+    octree.addEventListener('error', () => {})
+    await octree.ready
+
+    const camera = createCamera(1e5)
+    for (let i = 0; i < 4; i++) {
+      now += 1000
+      octree.update(camera, 1000)
+      await settle()
+    }
+    expect(source.loadNode).toHaveBeenCalledTimes(2)
+    octree.dispose()
+  })
+})
+
+describe('HttpOctreeSource', () => {
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('requests the metadata again after a failed request', async () => {
+    const metadata = buildOctree(createGrid(2)).metadata
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockResolvedValueOnce(Response.json(metadata))
+    vi.stubGlobal('fetch', fetch)
+
+    const source = new HttpOctreeSource('/octree/')
+    await expect(source.getMetadata()).rejects.toThrow(/503/)
+    await expect(source.getMetadata()).resolves.toEqual(metadata)
+    await source.getMetadata()
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(fetch).toHaveBeenCalledWith('/octree/metadata.json')
+  })
+})
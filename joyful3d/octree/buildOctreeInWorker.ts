@@ -0,0 +1,30 @@
+import type { PointCloudData } from '../loaders'
+import type { OctreeBuildOptionsType, OctreeBuildResultType } from './builder'
+
+/**
+ * 在 Worker 中构建八叉树，避免大点云阻塞主线程
+ *
+ * 输入数据会被复制到 Worker 中，调用方的数组仍可继续使用
+ */
+export function buildOctreeInWorker(
+  data: PointCloudData,
+  options: OctreeBuildOptionsType = {},
+): Promise<OctreeBuildResultType> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./builder.worker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (
+      event: MessageEvent<{ result?: OctreeBuildResultType; error?: string }>,
+    ) => {
+      worker.terminate()
+      if (event.data.result) resolve(event.data.result)
+      else reject(new Error(`Octree: ${event.data.error}`))
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(`Octree: ${event.message}`))
+    }
+
+    worker.postMessage({ data, options })
+  })
+}
@@ -0,0 +1,197 @@
+import type { PointCloudData } from '../loaders'
+import type { OctreeMetadataType, OctreeNodeInfoType } from './types'
+
+export interface OctreeBuildOptionsType {
+  maxPointsPerNode?: number // 节点点数不超过该值时不再细分，默认 20000
+  maxDepth?: number // 最大层级，默认 10
+  spacing?: number // 根节点的初始采样间距，默认为包围盒边长的 1/128，节点点数超限时自动加大
+}
+
+export interface OctreeBuildResultType {
+  metadata: OctreeMetadataType
+  nodes: Record<string, PointCloudData>
+}
+
+/**
+ * 按索引抽取点云子集
+ */
+function selectPoints(data: PointCloudData, indices: Uint32Array): PointCloudData {
+  const count = indices.length
+  const positions = new Float32Array(count * 3)
+  const colors = data.colors ? new Float32Array(count * 3) : undefined
+  const intensity = data.intensity ? new Float32Array(count) : undefined
+  const classification = data.classification ? new Uint8Array(count) : undefined
+
+  for (let i = 0; i < count; i++) {
+    const j = indices[i]
+    positions[i * 3] = data.positions[j * 3]
+    positions[i * 3 + 1] = data.positions[j * 3 + 1]
+    positions[i * 3 + 2] = data.positions[j * 3 + 2]
+    if (colors) {
+      colors[i * 3] = data.colors![j * 3]
+      colors[i * 3 + 1] = data.colors![j * 3 + 1]
+      colors[i * 3 + 2] = data.colors![j * 3 + 2]
+    }
+    if (intensity) intensity[i] = data.intensity![j]
+    if (classification) classification[i] = data.classification![j]
+  }
+
+  return { count, positions, colors, intensity, classification }
+}
+
+/**
+ * 构建 Potree 风格的八叉树
+ *
+ * 每个节点按间距做网格抽稀（子节点间距为父节点的一半）：每个网格只保留第一个落入的点，其余的点下放到子节点，
+ * 因此父子节点之间没有重复的点，渲染时父节点与已加载的子节点叠加显示。
+ * 该函数不依赖 DOM 与 three.js，可以在 Worker 或 Node 中离线执行
+ */
+export function buildOctree(
+  data: PointCloudData,
+  options: OctreeBuildOptionsType = {},
+): OctreeBuildResultType {
+  const maxPointsPerNode = options.maxPointsPerNode ?? 20000
+  const maxDepth = options.maxDepth ?? 10
+  // 间距加倍直到点数不超过 maxPointsPerNode，两者不为正数时无法结束
+  if (!(maxPointsPerNode >= 1)) throw new Error('Octree: maxPointsPerNode must be at least 1')
+  if (options.spacing !== undefined && !(options.spacing > 0)) {
+    throw new Error('Octree: spacing must be greater than 0')
+  }
+
+  // 根节点使用包围盒的外接立方体，保证子节点也是立方体
+  const min: [number, number, number] = [Infinity, Infinity, Infinity]
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < data.count; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = data.positions[i * 3 + axis]
+      if (value < min[axis]) min[axis] = value
+      if (value > max[axis]) max[axis] = value
+    }
+  }
+  if (data.count === 0) min.fill(0)
+  const size = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-6)
+  const rootSpacing = options.spacing ?? size / 128
+
+  const nodes: Record<string, PointCloudData> = {}
+  const infos: OctreeNodeInfoType[] = []
+
+  // 按间距做网格抽稀：每个网格保留第一个落入的点，其余点按象限分给子节点
+  const sample = (
+    nodeMin: [number, number, number],
+    nodeSize: number,
+    spacing: number,
+    indices: Uint32Array,
+  ) => {
+    const cells = Math.ceil(nodeSize / spacing) + 1
+    const numeric = cells <= 131072 // cells^3 需在安全整数范围内
+    const occupied = new Set<number | string>()
+    const accepted: number[] = []
+    const octants: number[][] = [[], [], [], [], [], [], [], []]
+    const half = nodeSize / 2
+
+    for (let i = 0; i < indices.length; i++) {
+      const j = indices[i]
+      const x = data.positions[j * 3] - nodeMin[0]
+      const y = data.positions[j * 3 + 1] - nodeMin[1]
+      const z = data.positions[j * 3 + 2] - nodeMin[2]
+
+      const ix = Math.floor(x / spacing)
+      const iy = Math.floor(y / spacing)
+      const iz = Math.floor(z / spacing)
+      const key = numeric ? ix + cells * (iy + cells * iz) : `${ix},${iy},${iz}`
+
+      if (!occupied.has(key)) {
+        occupied.add(key)
+        accepted.push(j)
+      } else {
+        const octant = (x >= half ? 4 : 0) | (y >= half ? 2 : 0) | (z >= half ? 1 : 0)
+        octants[octant].push(j)
+      }
+    }
+
+    return { accepted, octants }
+  }
+
+  const process = (
+    id: string,
+    level: number,
+    nodeMin: [number, number, number],
+    nodeSize: number,
+    spacing: number,
+    indices: Uint32Array,
+  ) => {
+    const info: OctreeNodeInfoType = {
+      id,
+      level,
+      min: nodeMin,
+      size: nodeSize,
+      spacing,
+      count: 0,
+      children: [],
+    }
+    infos.push(info)
+
+    if (indices.length <= maxPointsPerNode || level >= maxDepth) {
+      info.count = indices.length
+      nodes[id] = selectPoints(data, indices)
+      return
+    }
+
+    // 抽稀后的点数超过 maxPointsPerNode 时加大间距重新抽稀
+    let result = sample(nodeMin, nodeSize, spacing, indices)
+    while (result.accepted.length > maxPointsPerNode) {
+      spacing *= 2
+      result = sample(nodeMin, nodeSize, spacing, indices)
+    }
+    const { accepted, octants } = result
+    const half = nodeSize / 2
+    info.spacing = spacing
+
+    info.count = accepted.length
+    nodes[id] = selectPoints(data, Uint32Array.from(accepted))
+
+    octants.forEach((childIndices, octant) => {
+      if (childIndices.length === 0) return
+
+      const childId = `${id}${octant}`
+      const childMin: [number, number, number] = [
+        nodeMin[0] + (octant & 4 ? half : 0),
+        nodeMin[1] + (octant & 2 ? half : 0),
+        nodeMin[2] + (octant & 1 ? half : 0),
+      ]
+      info.children.push(childId)
+      process(childId, level + 1, childMin, half, spacing / 2, Uint32Array.from(childIndices))
+    })
+  }
+
+  const all = new Uint32Array(data.count)
+  for (let i = 0; i < data.count; i++) all[i] = i
+  process('r', 0, min, size, rootSpacing, all)
+
+  const ranges: Record<string, [number, number]> = {}
+  if (data.intensity && data.count > 0) {
+    let low = Infinity
+    let high = -Infinity
+    for (let i = 0; i < data.count; i++) {
+      low = Math.min(low, data.intensity[i])
+      high = Math.max(high, data.intensity[i])
+    }
+    ranges.intensity = [low, high]
+  }
+
+  return {
+    metadata: {
+      version: 1,
+      count: data.count,
+      origin: data.origin,
+      attributes: {
+        color: !!data.colors,
+        intensity: !!data.intensity,
+        classification: !!data.classification,
+      },
+      ranges,
+      nodes: infos,
+    },
+    nodes,
+  }
+}
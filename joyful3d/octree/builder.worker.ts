@@ -0,0 +1,27 @@
+import { buildOctree } from './builder'
+import type { PointCloudData } from '../loaders'
+import type { OctreeBuildOptionsType } from './builder'
+
+/**
+ * 八叉树构建 Worker，由 buildOctreeInWorker 创建
+ */
+self.onmessage = (
+  event: MessageEvent<{ data: PointCloudData; options: OctreeBuildOptionsType }>,
+) => {
+  try {
+    const result = buildOctree(event.data.data, event.data.options)
+
+    const transfer: ArrayBuffer[] = []
+    for (const id in result.nodes) {
+      const node = result.nodes[id]
+      transfer.push(node.positions.buffer as ArrayBuffer)
+      if (node.colors) transfer.push(node.colors.buffer as ArrayBuffer)
+      if (node.intensity) transfer.push(node.intensity.buffer as ArrayBuffer)
+      if (node.classification) transfer.push(node.classification.buffer as ArrayBuffer)
+    }
+
+    self.postMessage({ result }, { transfer })
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,91 @@
+import type { PointCloudData } from '../loaders'
+import type { OctreeMetadataType } from './types'
+
+/**
+ * 将节点数据编码为二进制
+ *
+ * 依次存储 positions(float32 * 3)、colors(float32 * 3)、intensity(float32)、classification(uint8)，
+ * 后三者只在 attributes 中声明时存在，点数由元数据记录
+ */
+export function encodeOctreeNode(
+  data: PointCloudData,
+  attributes: OctreeMetadataType['attributes'],
+): ArrayBuffer {
+  const { count } = data
+  const floats = count * 3 + (attributes.color ? count * 3 : 0) + (attributes.intensity ? count : 0)
+  const buffer = new ArrayBuffer(floats * 4 + (attributes.classification ? count : 0))
+
+  let offset = 0
+  const write = (
+    values: ArrayLike<number> | undefined,
+    length: number,
+    Type: Float32ArrayConstructor | Uint8ArrayConstructor,
+  ) => {
+    const target = new Type(buffer, offset, length)
+    if (values) target.set(values)
+    offset += length * Type.BYTES_PER_ELEMENT
+  }
+
+  write(data.positions, count * 3, Float32Array)
+  if (attributes.color) write(data.colors, count * 3, Float32Array)
+  if (attributes.intensity) write(data.intensity, count, Float32Array)
+  if (attributes.classification) write(data.classification, count, Uint8Array)
+
+  return buffer
+}
+
+/**
+ * 解码 encodeOctreeNode 生成的二进制节点数据
+ */
+export function decodeOctreeNode(
+  buffer: ArrayBuffer,
+  count: number,
+  attributes: OctreeMetadataType['attributes'],
+): PointCloudData {
+  let offset = 0
+  const read = <T extends Float32ArrayConstructor | Uint8ArrayConstructor>(
+    Type: T,
+    length: number,
+  ) => {
+    const values = new Type(buffer, offset, length) as InstanceType<T>
+    offset += length * Type.BYTES_PER_ELEMENT
+    return values
+  }
+
+  const expected =
+    count * 12 +
+    (attributes.color ? count * 12 : 0) +
+    (attributes.intensity ? count * 4 : 0) +
+    (attributes.classification ? count : 0)
+  if (buffer.byteLength < expected) {
+    throw new Error(`Octree: node data is truncated, expected ${expected} bytes`)
+  }
+
+  return {
+    count,
+    positions: read(Float32Array, count * 3),
+    colors: attributes.color ? read(Float32Array, count * 3) : undefined,
+    intensity: attributes.intensity ? read(Float32Array, count) : undefined,
+    classification: attributes.classification ? read(Uint8Array, count) : undefined,
+  }
+}
+
+/**
+ * 将八叉树序列化为文件列表，写入目录后可由 HttpOctreeSource 读取
+ *
+ * 目录结构：metadata.json 与 nodes/<id>.bin
+ */
+export function serializeOctree(result: {
+  metadata: OctreeMetadataType
+  nodes: Record<string, PointCloudData>
+}): Record<string, string | ArrayBuffer> {
+  const files: Record<string, string | ArrayBuffer> = {
+    'metadata.json': JSON.stringify(result.metadata),
+  }
+
+  for (const id in result.nodes) {
+    files[`nodes/${id}.bin`] = encodeOctreeNode(result.nodes[id], result.metadata.attributes)
+  }
+
+  return files
+}
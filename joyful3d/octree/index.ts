@@ -0,0 +1,30 @@
+import PointCloudOctree from './PointCloudOctree'
+import MemoryOctreeSource from './MemoryOctreeSource'
+import HttpOctreeSource from './HttpOctreeSource'
+import { buildOctree } from './builder'
+import { buildOctreeInWorker } from './buildOctreeInWorker'
+import { encodeOctreeNode, decodeOctreeNode, serializeOctree } from './encoding'
+import type { PointCloudOctreeOptionsType, PointCloudOctreeEventMap } from './PointCloudOctree'
+import type { OctreeBuildOptionsType, OctreeBuildResultType } from './builder'
+import type { OctreeMetadataType, OctreeNodeInfoType, OctreeSourceType } from './types'
+
+export {
+  PointCloudOctree,
+  MemoryOctreeSource,
+  HttpOctreeSource,
+  buildOctree,
+  buildOctreeInWorker,
+  encodeOctreeNode,
+  decodeOctreeNode,
+  serializeOctree,
+}
+
+export type {
+  PointCloudOctreeOptionsType,
+  PointCloudOctreeEventMap,
+  OctreeBuildOptionsType,
+  OctreeBuildResultType,
+  OctreeMetadataType,
+  OctreeNodeInfoType,
+  OctreeSourceType,
+}
@@ -0,0 +1,48 @@
+import type { PointCloudData } from '../loaders'
+
+/**
+ * 八叉树节点信息
+ *
+ * @param id        节点 id，根节点为 r，子节点在父节点 id 后追加 0-7 的象限编号
+ * @param level     层级，根节点为 0
+ * @param min       节点立方体的最小点
+ * @param size      节点立方体的边长
+ * @param spacing   节点内点的最小间距，即该层级的几何误差
+ * @param count     节点内的点数
+ * @param children  子节点 id
+ */
+export interface OctreeNodeInfoType {
+  id: string
+  level: number
+  min: [number, number, number]
+  size: number
+  spacing: number
+  count: number
+  children: string[]
+}
+
+/**
+ * 八叉树元数据
+ *
+ * @param count       总点数
+ * @param origin      原始点云的坐标原点（可选），同 PointCloudData.origin
+ * @param attributes  节点数据中包含的通道
+ * @param ranges      各标量属性的数值范围，用于统一色带范围
+ * @param nodes       所有节点信息，父节点在子节点之前
+ */
+export interface OctreeMetadataType {
+  version: 1
+  count: number
+  origin?: [number, number, number]
+  attributes: { color: boolean; intensity: boolean; classification: boolean }
+  ranges: Record<string, [number, number]>
+  nodes: OctreeNodeInfoType[]
+}
+
+/**
+ * 八叉树节点数据源，PointCloudOctree 通过它按需加载节点
+ */
+export interface OctreeSourceType {
+  getMetadata(): Promise<OctreeMetadataType>
+  loadNode(id: string): Promise<PointCloudData>
+}
@@ -0,0 +1,142 @@
+import * as THREE from 'three'
+import { Pass, FullScreenQuad } from 'three/examples/jsm/postprocessing/Pass.js'
+
+export interface EDLOptionsType {
+  strength?: number // 明暗强度，默认 1
+  radius?: number // 采样半径（像素），默认 1.4
+}
+
+const EDL_NEIGHBOURS = 8
+
+const EDL_SHADER = {
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    #include <packing>
+
+    uniform sampler2D tDiffuse;
+    uniform sampler2D tDepth;
+    uniform vec2 resolution;
+    uniform float cameraNear;
+    uniform float cameraFar;
+    uniform bool isOrthographic;
+    uniform float edlStrength;
+    uniform float edlRadius;
+    varying vec2 vUv;
+
+    // 相机距离的对数，背景返回 0
+    float getLogDepth(vec2 uv) {
+      float depth = texture2D(tDepth, uv).x;
+      if (depth >= 1.0) return 0.0;
+      float viewZ = isOrthographic
+        ? orthographicDepthToViewZ(depth, cameraNear, cameraFar)
+        : perspectiveDepthToViewZ(depth, cameraNear, cameraFar);
+      return log2(max(-viewZ, 1e-6));
+    }
+
+    void main() {
+      vec4 color = texture2D(tDiffuse, vUv);
+      if (texture2D(tDepth, vUv).x >= 1.0) {
+        gl_FragColor = color;
+        return;
+      }
+
+      // 比周围像素更靠前的程度，轮廓与深度突变处变暗
+      float depth = getLogDepth(vUv);
+      float response = 0.0;
+      for (int i = 0; i < ${EDL_NEIGHBOURS}; i++) {
+        float angle = float(i) * ${((2 * Math.PI) / EDL_NEIGHBOURS).toFixed(10)};
+        vec2 offset = vec2(cos(angle), sin(angle)) * edlRadius / resolution;
+        response += max(0.0, depth - getLogDepth(vUv + offset));
+      }
+      response /= ${EDL_NEIGHBOURS}.0;
+
+      float shade = exp(-response * 300.0 * edlStrength);
+      gl_FragColor = vec4(color.rgb * shade, color.a);
+    }
+  `,
+}
+
+/**
+ * EDLPass 视觉深度光照（Eye-Dome Lighting）后处理
+ *
+ * 只依赖深度缓冲，不需要法线，适合没有光照的点云：按像素与周围像素的对数深度差使轮廓和前后遮挡处变暗。
+ * 需要读缓冲带有 depthTexture，由 PostProcessing 创建。
+ * 只对写入深度的物体生效，不写入深度的半透明点（如按透明度淡出的 PointAccumulator）不会显出轮廓。
+ *
+ * @param camera    当前相机，用于把深度转换为相机距离
+ * @param strength  明暗强度，默认 1
+ * @param radius    采样半径（像素），默认 1.4
+ */
+export default class EDLPass extends Pass {
+  public camera: THREE.Camera
+
+  private material: THREE.ShaderMaterial
+  private quad: FullScreenQuad
+
+  constructor(camera: THREE.Camera, options: EDLOptionsType = {}) {
+    super()
+    this.camera = camera
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        tDepth: { value: null },
+        resolution: { value: new THREE.Vector2(1, 1) },
+        cameraNear: { value: 0.1 },
+        cameraFar: { value: 1000 },
+        isOrthographic: { value: false },
+        edlStrength: { value: options.strength ?? 1 },
+        edlRadius: { value: options.radius ?? 1.4 },
+      },
+      vertexShader: EDL_SHADER.vertexShader,
+      fragmentShader: EDL_SHADER.fragmentShader,
+      depthTest: false,
+      depthWrite: false,
+    })
+    this.quad = new FullScreenQuad(this.material)
+  }
+
+  public setOptions(options: EDLOptionsType) {
+    const uniforms = this.material.uniforms
+    if (options.strength !== undefined) uniforms.edlStrength.value = options.strength
+    if (options.radius !== undefined) uniforms.edlRadius.value = options.radius
+  }
+
+  public getOptions(): Required<EDLOptionsType> {
+    const uniforms = this.material.uniforms
+    return { strength: uniforms.edlStrength.value, radius: uniforms.edlRadius.value }
+  }
+
+  public setSize(width: number, height: number) {
+    this.material.uniforms.resolution.value.set(width, height)
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+  ) {
+    const uniforms = this.material.uniforms
+    const camera = this.camera as THREE.PerspectiveCamera | THREE.OrthographicCamera
+    uniforms.tDiffuse.value = readBuffer.texture
+    uniforms.tDepth.value = readBuffer.depthTexture
+    uniforms.cameraNear.value = camera.near
+    uniforms.cameraFar.value = camera.far
+    uniforms.isOrthographic.value = camera instanceof THREE.OrthographicCamera
+
+    renderer.setRenderTarget(this.renderToScreen ? null : writeBuffer)
+    if (this.clear) renderer.clear()
+    this.quad.render(renderer)
+  }
+
+  public dispose() {
+    this.material.dispose()
+    this.quad.dispose()
+  }
+}
@@ -0,0 +1,349 @@
+import * as THREE from 'three'
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js'
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js'
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js'
+import { SSAOPass } from 'three/examples/jsm/postprocessing/SSAOPass.js'
+import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js'
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js'
+import type { Pass } from 'three/examples/jsm/postprocessing/Pass.js'
+import { FXAAShader } from 'three/examples/jsm/shaders/FXAAShader.js'
+import { CopyShader } from 'three/examples/jsm/shaders/CopyShader.js'
+import EDLPass, { type EDLOptionsType } from './EDLPass'
+
+/**
+ * 后处理效果：edl 视觉深度光照（点云），ssao 环境光遮蔽（网格），outline 选中对象描边，fxaa 快速抗锯齿
+ */
+export type PostEffectType = 'edl' | 'ssao' | 'outline' | 'fxaa'
+
+export type PostEffectsType = Partial<Record<PostEffectType, boolean>>
+
+export interface SSAOOptionsType {
+  kernelRadius?: number // 采样半径（世界单位），默认 8
+  minDistance?: number // 产生遮蔽的最小深度差（归一化），默认 0.005
+  maxDistance?: number // 产生遮蔽的最大深度差（归一化），默认 0.1
+}
+
+export interface OutlineOptionsType {
+  color?: THREE.ColorRepresentation // 可见部分的描边颜色，默认 #ffffff
+  hiddenColor?: THREE.ColorRepresentation // 被遮挡部分的描边颜色，默认 #190a05
+  thickness?: number // 描边宽度，默认 1
+  strength?: number // 描边强度，默认 3
+}
+
+export interface PostProcessingOptionsType {
+  renderer: THREE.WebGLRenderer
+  scene: THREE.Scene
+  camera: THREE.Camera
+  effects?: PostEffectsType // 初始开启的效果，默认全部关闭
+  edl?: EDLOptionsType
+  ssao?: SSAOOptionsType
+  outline?: OutlineOptionsType
+}
+
+export interface PostProcessingEventMap {
+  change: { effect: PostEffectType } // 效果开关或参数变化时触发
+}
+
+// 在 RenderPass 与 OutputPass 之间的顺序，fxaa 在 OutputPass 之后（sRGB 空间）处理
+const EFFECT_ORDER: PostEffectType[] = ['edl', 'ssao', 'outline', 'fxaa']
+
+/**
+ * PostProcessing 后处理管线
+ *
+ * 基于 EffectComposer 按 RenderPass → EDL → SSAO → Outline → OutputPass → FXAA 的顺序串联，由 Viewer 创建。
+ *
+ * 主要功能：
+ * - EDL：只依赖深度，让没有光照的点云显出轮廓与前后层次
+ * - SSAO：网格的环境光遮蔽，点与线不参与遮蔽计算
+ * - Outline：为选中的对象描边
+ * - FXAA：比渲染器的 antialias 更省的抗锯齿，EffectComposer 的离屏缓冲本身没有多重采样
+ * - 每个效果都可在运行时开关，首次开启时才创建对应的 Pass 与缓冲
+ * - 尺寸与像素比随 Viewer 的 ResizeObserver 更新，切换投影方式时自动更新相机
+ *
+ * 构造参数 PostProcessingOptionsType:
+ * @param renderer  渲染器
+ * @param scene     场景
+ * @param camera    当前相机
+ * @param effects   初始开启的效果，默认全部关闭
+ * @param edl       EDL 参数 strength / radius
+ * @param ssao      SSAO 参数 kernelRadius / minDistance / maxDistance
+ * @param outline   描边参数 color / hiddenColor / thickness / strength
+ */
+export default class PostProcessing extends THREE.EventDispatcher<PostProcessingEventMap> {
+  private camera: THREE.Camera
+  private width: number
+  private height: number
+  private composer: EffectComposer | null = null
+  private renderPass: RenderPass | null = null
+  private copyPass: ShaderPass | null = null // renderTo 时把结果复制到目标
+  private passes = new Map<PostEffectType, Pass>()
+  private effects: Record<PostEffectType, boolean> = {
+    edl: false,
+    ssao: false,
+    outline: false,
+    fxaa: false,
+  }
+  private edlOptions: EDLOptionsType
+  private ssaoOptions: SSAOOptionsType
+  private outlineOptions: OutlineOptionsType
+  private outlineObjects: THREE.Object3D[] = []
+
+  constructor(private options: PostProcessingOptionsType) {
+    super()
+    const size = this.options.renderer.getSize(new THREE.Vector2())
+    this.width = size.x
+    this.height = size.y
+    this.camera = this.options.camera
+    this.edlOptions = { ...this.options.edl }
+    this.ssaoOptions = { ...this.options.ssao }
+    this.outlineOptions = { ...this.options.outline }
+
+    Object.entries(this.options.effects ?? {}).forEach(([effect, enabled]) => {
+      if (enabled) this.setEnabled(effect as PostEffectType, true)
+    })
+  }
+
+  /**
+   * 开启或关闭效果
+   */
+  public setEnabled(effect: PostEffectType, enabled: boolean) {
+    this.effects[effect] = enabled
+    if (enabled || this.passes.has(effect)) this.getPass(effect).enabled = enabled
+    this.dispatchEvent({ type: 'change', effect })
+  }
+
+  public isEnabled(effect: PostEffectType) {
+    return this.effects[effect]
+  }
+
+  public getEffects(): Record<PostEffectType, boolean> {
+    return { ...this.effects }
+  }
+
+  /**
+   * 是否有开启的效果，没有时 Viewer 直接渲染，不经过 EffectComposer
+   */
+  public isActive() {
+    return EFFECT_ORDER.some((effect) => this.effects[effect])
+  }
+
+  public setEDL(options: EDLOptionsType) {
+    Object.assign(this.edlOptions, options)
+    ;(this.passes.get('edl') as EDLPass | undefined)?.setOptions(options)
+    this.dispatchEvent({ type: 'change', effect: 'edl' })
+  }
+
+  public setSSAO(options: SSAOOptionsType) {
+    Object.assign(this.ssaoOptions, options)
+    const pass = this.passes.get('ssao') as SSAOPass | undefined
+    if (pass) this.applySSAOOptions(pass)
+    this.dispatchEvent({ type: 'change', effect: 'ssao' })
+  }
+
+  public setOutline(options: OutlineOptionsType) {
+    Object.assign(this.outlineOptions, options)
+    const pass = this.passes.get('outline') as OutlinePass | undefined
+    if (pass) this.applyOutlineOptions(pass)
+    this.dispatchEvent({ type: 'change', effect: 'outline' })
+  }
+
+  /**
+   * 设置需要描边的对象，如拾取或选中的对象
+   */
+  public setOutlineObjects(objects: THREE.Object3D[]) {
+    this.outlineObjects = [...objects]
+    const pass = this.passes.get('outline') as OutlinePass | undefined
+    if (pass) pass.selectedObjects = this.outlineObjects
+    this.dispatchEvent({ type: 'change', effect: 'outline' })
+  }
+
+  public getOutlineObjects() {
+    return [...this.outlineObjects]
+  }
+
+  /**
+   * 切换相机，SSAO 与描边的着色器与投影方式有关，需要重新创建
+   */
+  public setCamera(camera: THREE.Camera) {
+    if (camera === this.camera) return
+    this.camera = camera
+    if (this.renderPass) this.renderPass.camera = camera
+    const edl = this.passes.get('edl') as EDLPass | undefined
+    if (edl) edl.camera = camera
+
+    const recreate = (['ssao', 'outline'] as PostEffectType[]).filter((e) => this.passes.has(e))
+    recreate.forEach((effect) => {
+      const pass = this.passes.get(effect)!
+      this.composer!.removePass(pass)
+      pass.dispose()
+      this.passes.delete(effect)
+    })
+    recreate.forEach((effect) => (this.getPass(effect).enabled = this.effects[effect]))
+  }
+
+  /**
+   * 更新尺寸（CSS 像素），像素比与渲染器保持一致
+   */
+  public setSize(width: number, height: number) {
+    this.width = width
+    this.height = height
+    if (!this.composer) return
+
+    this.composer.setPixelRatio(this.options.renderer.getPixelRatio())
+    this.composer.setSize(width, height)
+    this.updateFXAAResolution()
+  }
+
+  /**
+   * 按开启的效果渲染一帧到画布
+   */
+  public render() {
+    if (!this.composer) return
+
+    // SSAO 只在 setSize 时读取投影矩阵，缩放相机后需要同步
+    const ssao = this.passes.get('ssao') as SSAOPass | undefined
+    if (ssao?.enabled) {
+      const camera = this.camera as THREE.PerspectiveCamera | THREE.OrthographicCamera
+      const uniforms = ssao.ssaoMaterial.uniforms
+      uniforms.cameraNear.value = camera.near
+      uniforms.cameraFar.value = camera.far
+      uniforms.cameraProjectionMatrix.value.copy(camera.projectionMatrix)
+      uniforms.cameraInverseProjectionMatrix.value.copy(camera.projectionMatrixInverse)
+    }
+
+    this.composer.render()
+  }
+
+  /**
+   * 按开启的效果离屏渲染到 target，尺寸取 target 的像素尺寸，用于截图与录制
+   *
+   * 结果已经过 OutputPass 转换为 sRGB，渲染后恢复画布的尺寸
+   */
+  public renderTo(target: THREE.WebGLRenderTarget) {
+    if (!this.composer) return
+
+    const { renderer } = this.options
+    const { width, height } = this
+    this.copyPass ??= new ShaderPass(CopyShader)
+    this.composer.setPixelRatio(1)
+    this.composer.setSize(target.width, target.height)
+    this.setFXAAResolution(target.width, target.height)
+    this.composer.renderToScreen = false
+
+    try {
+      this.render()
+      // 最后一个 Pass 交换缓冲后结果位于 readBuffer
+      this.copyPass.render(renderer, target, this.composer.readBuffer, 0, false)
+    } finally {
+      this.composer.renderToScreen = true
+      this.setSize(width, height)
+    }
+  }
+
+  public getComposer() {
+    return this.composer
+  }
+
+  public dispose() {
+    this.passes.clear()
+    this.renderPass = null
+    if (this.composer) {
+      this.composer.passes.forEach((pass) => pass.dispose())
+      this.composer.dispose()
+      this.composer = null
+    }
+    this.outlineObjects = []
+    this.copyPass?.dispose()
+    this.copyPass = null
+  }
+
+  /**
+   * 首次使用时创建 EffectComposer，离屏缓冲带有 depthTexture 供 EDL 读取深度
+   */
+  private initComposer() {
+    if (this.composer) return this.composer
+
+    const { renderer, scene } = this.options
+    const pixelRatio = renderer.getPixelRatio()
+    const target = new THREE.WebGLRenderTarget(this.width * pixelRatio, this.height * pixelRatio, {
+      type: THREE.HalfFloatType,
+      depthTexture: new THREE.DepthTexture(1, 1),
+    })
+    this.composer = new EffectComposer(renderer, target)
+    this.composer.setSize(this.width, this.height)
+
+    this.renderPass = new RenderPass(scene, this.camera)
+    this.composer.addPass(this.renderPass)
+    this.composer.addPass(new OutputPass())
+    return this.composer
+  }
+
+  /**
+   * 获取效果对应的 Pass，不存在时创建并按 EFFECT_ORDER 插入
+   */
+  private getPass(effect: PostEffectType) {
+    const existing = this.passes.get(effect)
+    if (existing) return existing
+
+    const composer = this.initComposer()
+    const pass = this.createPass(effect)
+    if (effect === 'fxaa') {
+      composer.addPass(pass)
+    } else {
+      const before = EFFECT_ORDER.slice(0, EFFECT_ORDER.indexOf(effect))
+      composer.insertPass(pass, 1 + before.filter((e) => this.passes.has(e)).length)
+    }
+    this.passes.set(effect, pass)
+    if (effect === 'fxaa') this.updateFXAAResolution()
+    return pass
+  }
+
+  private createPass(effect: PostEffectType): Pass {
+    const { scene } = this.options
+    switch (effect) {
+      case 'edl':
+        return new EDLPass(this.camera, this.edlOptions)
+      case 'ssao': {
+        const pass = new SSAOPass(scene, this.camera, this.width, this.height)
+        this.applySSAOOptions(pass)
+        return pass
+      }
+      case 'outline': {
+        const resolution = new THREE.Vector2(this.width, this.height)
+        const pass = new OutlinePass(resolution, scene, this.camera, this.outlineObjects)
+        this.applyOutlineOptions(pass)
+        return pass
+      }
+      case 'fxaa':
+        return new ShaderPass(FXAAShader)
+    }
+  }
+
+  private applySSAOOptions(pass: SSAOPass) {
+    const { kernelRadius, minDistance, maxDistance } = this.ssaoOptions
+    if (kernelRadius !== undefined) pass.kernelRadius = kernelRadius
+    if (minDistance !== undefined) pass.minDistance = minDistance
+    if (maxDistance !== undefined) pass.maxDistance = maxDistance
+  }
+
+  private applyOutlineOptions(pass: OutlinePass) {
+    const { color, hiddenColor, thickness, strength } = this.outlineOptions
+    if (color !== undefined) pass.visibleEdgeColor.set(color)
+    if (hiddenColor !== undefined) pass.hiddenEdgeColor.set(hiddenColor)
+    if (thickness !== undefined) pass.edgeThickness = thickness
+    if (strength !== undefined) pass.edgeStrength = strength
+  }
+
+  private updateFXAAResolution() {
+    const pixelRatio = this.options.renderer.getPixelRatio()
+    this.setFXAAResolution(this.width * pixelRatio, this.height * pixelRatio)
+  }
+
+  /**
+   * 设置 FXAA 的采样间隔，width / height 为缓冲的像素尺寸
+   */
+  private setFXAAResolution(width: number, height: number) {
+    const pass = this.passes.get('fxaa') as ShaderPass | undefined
+    if (pass) pass.material.uniforms.resolution.value.set(1 / width, 1 / height)
+  }
+}
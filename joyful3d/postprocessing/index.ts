@@ -0,0 +1,23 @@
+import PostProcessing from './PostProcessing'
+import EDLPass from './EDLPass'
+import type {
+  PostEffectType,
+  PostEffectsType,
+  SSAOOptionsType,
+  OutlineOptionsType,
+  PostProcessingOptionsType,
+  PostProcessingEventMap,
+} from './PostProcessing'
+import type { EDLOptionsType } from './EDLPass'
+
+export { PostProcessing, EDLPass }
+
+export type {
+  PostEffectType,
+  PostEffectsType,
+  SSAOOptionsType,
+  OutlineOptionsType,
+  PostProcessingOptionsType,
+  PostProcessingEventMap,
+  EDLOptionsType,
+}
@@ -0,0 +1,47 @@
+import type * as THREE from 'three'
+
+/**
+ * 按需渲染时会被 Viewer 自动检查的对象（如 Points、PointAccumulator）
+ *
+ * 图层中的对象，以及通过 bindRenderSource 关联到场景中三维对象的渲染源都会被检查。
+ * Viewer 空闲时不会逐帧检查，版本号变化或开始动画后需要调用 invalidateRenderSources 唤醒
+ *
+ * @param getVersion   数据或显示状态的版本号，变化时渲染一帧
+ * @param isAnimating  显示内容是否正在随时间变化，为 true 时持续渲染
+ */
+export interface RenderSourceType {
+  getVersion?(): number
+  isAnimating?(): boolean
+}
+
+// 三维对象到渲染源的映射，用于找到未加入图层、通过 scene 参数直接加入场景的对象
+const sources = new WeakMap<THREE.Object3D, RenderSourceType>()
+const listeners = new Set<() => void>()
+
+/**
+ * 把三维对象关联到渲染源，对象位于 Viewer 的场景中时即参与按需渲染的检查
+ */
+export function bindRenderSource(object: THREE.Object3D, source: RenderSourceType) {
+  sources.set(object, source)
+}
+
+export function getRenderSource(object: THREE.Object3D) {
+  return sources.get(object)
+}
+
+/**
+ * 通知所有 Viewer 有渲染源发生了变化，Viewer 会在下一帧检查版本号与动画状态
+ */
+export function invalidateRenderSources() {
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * 监听 invalidateRenderSources，返回取消监听的函数
+ */
+export function onRenderSourcesInvalidate(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
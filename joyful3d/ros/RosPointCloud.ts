@@ -0,0 +1,142 @@
+import * as THREE from 'three'
+import Points from '../Points'
+import PointCloudPipeline from '../stream/PointCloudPipeline'
+import { getPointCloud2Bytes, getPointCloud2Layout } from './pointcloud2'
+import type RosbridgeClient from './RosbridgeClient'
+import type Viewer from '../Viewer'
+import type { PointsOptionsType } from '../Points'
+import type { PointCloudData } from '../loaders'
+import type { FrameColorizeType } from '../stream/types'
+import type { PointCloud2MessageType, RosHeaderType } from './types'
+
+export interface RosPointCloudOptionsType {
+  client: RosbridgeClient
+  topic: string
+  viewer: Viewer
+  maxPoints?: number
+  mode?: 'replace' | 'append'
+  zUp?: boolean
+  throttleRate?: number
+  workers?: number
+  colorize?: FrameColorizeType
+  pointsOptions?: Omit<PointsOptionsType, 'scene' | 'maxPoints'>
+}
+
+export interface RosPointCloudEventMap {
+  frame: { data: PointCloudData; header: RosHeaderType }
+  error: { error: Error }
+}
+
+/**
+ * RosPointCloud ROS 点云话题
+ *
+ * 订阅 sensor_msgs/PointCloud2 话题，在 Worker 中解码后写入 Points 并显示在 Viewer 中。
+ *
+ * 主要功能：
+ * - 按消息中的 fields / point_step / row_step / is_bigendian / is_dense 解码
+ * - ROS 坐标系为 z 轴向上，默认把点云绕 x 轴旋转为 three.js 的 y 轴向上
+ * - 解码跟不上时自动丢帧，见 PointCloudPipeline
+ * - 不处理 TF，header.frame_id 随 frame 事件传出，由调用方决定变换
+ *
+ * 构造参数 RosPointCloudOptionsType:
+ * @param client         RosbridgeClient 实例
+ * @param topic          话题名，如 /velodyne_points
+ * @param viewer         Viewer 实例
+ * @param maxPoints      最大点数，默认 200000
+ * @param mode           写入方式：replace 每帧替换，append 累积，默认 replace
+ * @param zUp            是否把 ROS 的 z 轴向上转换为 y 轴向上，默认 true
+ * @param throttleRate   rosbridge 服务端的最小发送间隔（毫秒），默认 0
+ * @param workers        解码 Worker 数量，默认 1
+ * @param colorize       在 Worker 中着色（可选）
+ * @param pointsOptions  Points 的配置，如 colorMode、colormap
+ */
+export default class RosPointCloud extends THREE.EventDispatcher<RosPointCloudEventMap> {
+  private points: Points
+  private pipeline: PointCloudPipeline
+  private subscription: string
+  private headers = new Map<number, RosHeaderType>()
+  private sequence = 0
+
+  constructor(private options: RosPointCloudOptionsType) {
+    super()
+    const zUp = this.options.zUp ?? true
+    // 色带按顶点的局部坐标计算，z 轴向上时高度取 z 分量
+    this.points = new Points({
+      colorMode: 'height',
+      colorAxis: zUp ? 'z' : 'y',
+      colormap: 'turbo',
+      ...this.options.pointsOptions,
+      maxPoints: this.options.maxPoints ?? 200000,
+    })
+    if (zUp) this.points.getPoint().rotation.x = -Math.PI / 2
+    this.options.viewer.add(this.points.getPoint())
+
+    this.pipeline = new PointCloudPipeline({
+      format: 'xyz',
+      points: this.points,
+      viewer: this.options.viewer,
+      mode: this.options.mode,
+      workers: this.options.workers,
+      colorize: this.options.colorize,
+    })
+    this.pipeline.addEventListener('frame', this.onFrame)
+    this.pipeline.addEventListener('drop', this.onDrop)
+    this.pipeline.addEventListener('error', this.onError)
+
+    this.subscription = this.options.client.subscribe<PointCloud2MessageType>(
+      this.options.topic,
+      'sensor_msgs/PointCloud2',
+      this.onMessage,
+      { throttleRate: this.options.throttleRate },
+    )
+  }
+
+  private onMessage = (message: PointCloud2MessageType) => {
+    let bytes: Uint8Array
+    try {
+      bytes = getPointCloud2Bytes(message)
+    } catch (error) {
+      this.onError({ error: error instanceof Error ? error : new Error(String(error)) })
+      return
+    }
+
+    // 帧序号与 PointCloudPipeline 内部一致，用于在 frame 事件中找回消息头
+    this.headers.set(this.sequence++, message.header)
+    const buffer =
+      bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+        ? (bytes.buffer as ArrayBuffer)
+        : (bytes.slice().buffer as ArrayBuffer)
+    this.pipeline.push(buffer, { format: getPointCloud2Layout(message) })
+  }
+
+  private onFrame = ({ data, sequence }: { data: PointCloudData; sequence: number }) => {
+    const header = this.headers.get(sequence)
+    this.headers.delete(sequence)
+    if (header) this.dispatchEvent({ type: 'frame', data, header })
+  }
+
+  private onDrop = ({ sequence }: { sequence: number }) => {
+    this.headers.delete(sequence)
+  }
+
+  private onError = ({ sequence, error }: { sequence?: number; error: Error }) => {
+    if (sequence !== undefined) this.headers.delete(sequence)
+    this.dispatchEvent({ type: 'error', error })
+  }
+
+  public getPoints() {
+    return this.points
+  }
+
+  public getPipeline() {
+    return this.pipeline
+  }
+
+  public dispose() {
+    this.options.client.unsubscribe(this.subscription)
+    this.pipeline.dispose()
+    this.options.viewer.remove(this.points.getPoint())
+    this.points.dispose()
+    this.headers.clear()
+  }
+}
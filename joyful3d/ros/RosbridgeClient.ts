@@ -0,0 +1,200 @@
+import * as THREE from 'three'
+import WebSocketSource from '../stream/WebSocketSource'
+import type { WebSocketSourceOptionsType } from '../stream/WebSocketSource'
+import type { StreamSourceEventMap, StreamStateType } from '../stream/types'
+import type { RosbridgeMessageType } from './types'
+
+export interface RosbridgeClientOptionsType extends Omit<WebSocketSourceOptionsType, 'url'> {
+  url: string
+  autoConnect?: boolean
+}
+
+export interface RosbridgeClientEventMap {
+  state: { state: StreamStateType }
+  status: { level: string; message: string }
+  error: { error: Error }
+}
+
+export interface RosSubscribeOptionsType {
+  throttleRate?: number // 最小发送间隔（毫秒），由 rosbridge 服务端节流
+  queueLength?: number
+}
+
+type RosCallbackType<T> = (message: T) => void
+
+interface SubscriptionType {
+  id: string
+  topic: string
+  type: string
+  options: RosSubscribeOptionsType
+  callback: RosCallbackType<unknown>
+}
+
+/**
+ * RosbridgeClient rosbridge v2 协议客户端
+ *
+ * 通过 WebSocket 连接 rosbridge_server，订阅、发布 ROS 话题。
+ *
+ * 主要功能：
+ * - subscribe / unsubscribe 订阅话题，同一话题的多个回调各自独立
+ * - advertise / unadvertise / publish 发布话题
+ * - 断线自动重连（指数退避），重连后自动恢复订阅与发布
+ * - 通过 addEventListener 监听 state / status / error 事件
+ *
+ * 构造参数 RosbridgeClientOptionsType:
+ * @param url          rosbridge 地址，如 ws://localhost:9090
+ * @param autoConnect  是否立即连接，默认 true
+ * 其余参数同 WebSocketSource，如 reconnect、reconnectDelay
+ */
+export default class RosbridgeClient extends THREE.EventDispatcher<RosbridgeClientEventMap> {
+  private source: WebSocketSource
+  private subscriptions = new Map<string, SubscriptionType>()
+  private advertisements = new Map<string, string>() // topic -> type
+  private counter = 0
+
+  constructor(private options: RosbridgeClientOptionsType) {
+    super()
+    this.source = new WebSocketSource(this.options)
+    this.source.addEventListener('message', this.onMessage)
+    this.source.addEventListener('state', this.onState)
+    this.source.addEventListener('error', this.onError)
+
+    if (this.options.autoConnect ?? true) this.connect()
+  }
+
+  private onMessage = ({ data }: StreamSourceEventMap['message']) => {
+    if (typeof data !== 'string') return
+
+    let message: RosbridgeMessageType
+    try {
+      message = JSON.parse(data)
+    } catch {
+      this.dispatchEvent({ type: 'error', error: new Error('Rosbridge: invalid JSON message') })
+      return
+    }
+
+    if (message.op === 'publish') {
+      this.subscriptions.forEach((subscription) => {
+        if (subscription.topic === message.topic) subscription.callback(message.msg)
+      })
+    } else if (message.op === 'status') {
+      this.dispatchEvent({
+        type: 'status',
+        level: message.level ?? 'info',
+        message: String(message.msg ?? ''),
+      })
+    }
+  }
+
+  private onState = ({ state }: StreamSourceEventMap['state']) => {
+    // 重连成功后恢复发布与订阅
+    if (state === 'open') {
+      this.advertisements.forEach((type, topic) => this.send({ op: 'advertise', topic, type }))
+      this.subscriptions.forEach((subscription) => this.sendSubscribe(subscription))
+    }
+    this.dispatchEvent({ type: 'state', state })
+  }
+
+  private onError = ({ error }: StreamSourceEventMap['error']) => {
+    this.dispatchEvent({ type: 'error', error })
+  }
+
+  public connect() {
+    this.source.connect()
+  }
+
+  public disconnect() {
+    this.source.disconnect()
+  }
+
+  public getState() {
+    return this.source.getState()
+  }
+
+  public isConnected() {
+    return this.source.getState() === 'open'
+  }
+
+  /**
+   * 订阅话题，返回订阅 id，用于 unsubscribe
+   *
+   * @param topic     话题名，如 /velodyne_points
+   * @param type      消息类型，如 sensor_msgs/PointCloud2
+   * @param callback  收到消息时的回调
+   * @param options   节流与队列配置（可选）
+   */
+  public subscribe<T = unknown>(
+    topic: string,
+    type: string,
+    callback: RosCallbackType<T>,
+    options: RosSubscribeOptionsType = {},
+  ) {
+    const subscription: SubscriptionType = {
+      id: `subscribe:${topic}:${++this.counter}`,
+      topic,
+      type,
+      options,
+      callback: callback as RosCallbackType<unknown>,
+    }
+    this.subscriptions.set(subscription.id, subscription)
+    this.sendSubscribe(subscription)
+    return subscription.id
+  }
+
+  /**
+   * 取消订阅，传入订阅 id 时只取消该订阅，传入话题名时取消该话题的所有订阅
+   */
+  public unsubscribe(idOrTopic: string) {
+    this.subscriptions.forEach((subscription) => {
+      if (subscription.id !== idOrTopic && subscription.topic !== idOrTopic) return
+
+      this.subscriptions.delete(subscription.id)
+      this.send({ op: 'unsubscribe', id: subscription.id, topic: subscription.topic })
+    })
+  }
+
+  public advertise(topic: string, type: string) {
+    this.advertisements.set(topic, type)
+    this.send({ op: 'advertise', topic, type })
+  }
+
+  public unadvertise(topic: string) {
+    if (!this.advertisements.delete(topic)) return
+    this.send({ op: 'unadvertise', topic })
+  }
+
+  /**
+   * 发布消息，未 advertise 的话题会先自动 advertise
+   */
+  public publish(topic: string, type: string, msg: unknown) {
+    if (!this.advertisements.has(topic)) this.advertise(topic, type)
+    return this.send({ op: 'publish', topic, msg })
+  }
+
+  public dispose() {
+    this.subscriptions.forEach((subscription) => this.unsubscribe(subscription.id))
+    this.advertisements.forEach((_type, topic) => this.unadvertise(topic))
+    this.source.removeEventListener('message', this.onMessage)
+    this.source.removeEventListener('state', this.onState)
+    this.source.removeEventListener('error', this.onError)
+    this.source.disconnect()
+  }
+
+  private sendSubscribe(subscription: SubscriptionType) {
+    this.send({
+      op: 'subscribe',
+      id: subscription.id,
+      topic: subscription.topic,
+      type: subscription.type,
+      throttle_rate: subscription.options.throttleRate ?? 0,
+      queue_length: subscription.options.queueLength ?? 1,
+    })
+  }
+
+  /**
+   * 发送协议消息，未连接时返回 false（连接后会自动恢复订阅与发布）
+   */
+  private send(message: RosbridgeMessageType) {
+    return this.source.send(JSON.stringify(message))
+  }
+}
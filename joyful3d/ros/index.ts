@@ -0,0 +1,35 @@
+import RosbridgeClient from './RosbridgeClient'
+import RosPointCloud from './RosPointCloud'
+import { decodePointCloud2, getPointCloud2Bytes, getPointCloud2Layout } from './pointcloud2'
+import type {
+  RosbridgeClientOptionsType,
+  RosbridgeClientEventMap,
+  RosSubscribeOptionsType,
+} from './RosbridgeClient'
+import type { RosPointCloudOptionsType, RosPointCloudEventMap } from './RosPointCloud'
+import type {
+  RosHeaderType,
+  RosPointFieldType,
+  PointCloud2MessageType,
+  RosbridgeMessageType,
+} from './types'
+
+export {
+  RosbridgeClient,
+  RosPointCloud,
+  decodePointCloud2,
+  getPointCloud2Bytes,
+  getPointCloud2Layout,
+}
+
+export type {
+  RosbridgeClientOptionsType,
+  RosbridgeClientEventMap,
+  RosSubscribeOptionsType,
+  RosPointCloudOptionsType,
+  RosPointCloudEventMap,
+  RosHeaderType,
+  RosPointFieldType,
+  PointCloud2MessageType,
+  RosbridgeMessageType,
+}
@@ -0,0 +1,49 @@
+import { decodeFields } from '../stream/fields'
+import type { PointCloudData } from '../loaders'
+import type { FieldLayoutType, PointFieldDataType } from '../stream/fields'
+import type { PointCloud2MessageType } from './types'
+
+/**
+ * 把 PointCloud2 的 data 字段转换为字节数组，base64 字符串会被解码
+ */
+export function getPointCloud2Bytes(message: Pick<PointCloud2MessageType, 'data'>) {
+  const { data } = message
+  if (data instanceof Uint8Array) return data
+  if (Array.isArray(data)) return Uint8Array.from(data)
+
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * 由 PointCloud2 消息生成字段布局，可交给 PointCloudPipeline 在 Worker 中解码
+ */
+export function getPointCloud2Layout(message: PointCloud2MessageType): FieldLayoutType {
+  return {
+    type: 'fields',
+    fields: message.fields.map((field) => ({
+      name: field.name,
+      offset: field.offset,
+      datatype: field.datatype as PointFieldDataType,
+      count: field.count,
+    })),
+    pointStep: message.point_step,
+    rowStep: message.row_step,
+    width: message.width,
+    height: message.height,
+    bigEndian: message.is_bigendian,
+    dense: message.is_dense,
+  }
+}
+
+/**
+ * 解码 ROS sensor_msgs/PointCloud2 消息
+ *
+ * 按 fields、point_step、row_step、is_bigendian 读取 x/y/z、rgb/rgba、intensity 与 label 字段；
+ * is_dense 为 false 时坐标非法（NaN）的点会被丢弃
+ */
+export function decodePointCloud2(message: PointCloud2MessageType): PointCloudData {
+  return decodeFields(getPointCloud2Bytes(message), getPointCloud2Layout(message))
+}
@@ -0,0 +1,48 @@
+/**
+ * ROS std_msgs/Header
+ */
+export interface RosHeaderType {
+  seq?: number // ROS 1
+  stamp: { sec?: number; nsec?: number; secs?: number; nsecs?: number; nanosec?: number }
+  frame_id: string
+}
+
+/**
+ * ROS sensor_msgs/PointField
+ */
+export interface RosPointFieldType {
+  name: string
+  offset: number
+  datatype: number
+  count: number
+}
+
+/**
+ * ROS sensor_msgs/PointCloud2
+ *
+ * rosbridge 以 JSON 传输时 data 为 base64 字符串，也兼容数字数组与二进制数组
+ */
+export interface PointCloud2MessageType {
+  header: RosHeaderType
+  height: number
+  width: number
+  fields: RosPointFieldType[]
+  is_bigendian: boolean
+  point_step: number
+  row_step: number
+  data: string | number[] | Uint8Array
+  is_dense: boolean
+}
+
+/**
+ * rosbridge v2 协议中的消息
+ */
+export interface RosbridgeMessageType {
+  op: string
+  id?: string
+  topic?: string
+  type?: string
+  msg?: unknown
+  level?: string // op 为 status 时的级别
+  [key: string]: unknown
+}
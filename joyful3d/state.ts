@@ -0,0 +1,41 @@
+import { VIEWER_STATE_VERSION, type ViewerStateType } from './Viewer'
+
+/**
+ * 保留的小数位数，相机位置等浮点数截断后可以明显缩短链接长度
+ */
+const PRECISION = 1e4
+
+function round(_key: string, value: unknown) {
+  return typeof value === 'number' && !Number.isInteger(value)
+    ? Math.round(value * PRECISION) / PRECISION
+    : value
+}
+
+/**
+ * 把 Viewer 状态编码为可放入 URL 的字符串（JSON + base64url）
+ */
+export function encodeViewerState(state: ViewerStateType) {
+  const bytes = new TextEncoder().encode(JSON.stringify(state, round))
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * 解码 encodeViewerState 生成的字符串
+ */
+export function decodeViewerState(text: string): ViewerStateType {
+  let state: ViewerStateType
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    state = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new Error('ViewerState: invalid encoded state')
+  }
+
+  if (!state || typeof state !== 'object' || state.version !== VIEWER_STATE_VERSION) {
+    throw new Error('ViewerState: unsupported state version')
+  }
+  return state
+}
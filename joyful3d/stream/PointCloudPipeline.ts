@@ -0,0 +1,286 @@
+import * as THREE from 'three'
+import { prepareFrame, processFrame } from './decoder'
+import type Points from '../Points'
+import type Viewer from '../Viewer'
+import type { PointCloudData } from '../loaders'
+import type { FrameProcessOptionsType } from './types'
+
+export interface PointCloudPipelineOptionsType extends FrameProcessOptionsType {
+  points?: Points
+  viewer?: Viewer
+  mode?: 'replace' | 'append'
+  workers?: number
+  maxInFlight?: number
+  maxQueue?: number
+}
+
+export interface PointCloudPipelineEventMap {
+  frame: { data: PointCloudData; sequence: number }
+  drop: { sequence: number; reason: 'backpressure' | 'stale' | 'queue' }
+  error: { sequence: number; error: Error }
+}
+
+export interface PointCloudPipelineStatsType {
+  received: number // 收到的帧数
+  decoded: number // 解码完成的帧数
+  rendered: number // 写入 Points 的帧数
+  dropped: number // 丢弃的帧数
+  inFlight: number // 正在解码的帧数
+  queued: number // 等待渲染的帧数
+}
+
+interface WorkerItemType {
+  worker: Worker
+  inFlight: Set<number> // 正在该 Worker 中解码的帧序号
+}
+
+interface FrameItemType {
+  sequence: number
+  buffer: ArrayBuffer
+  options: FrameProcessOptionsType
+}
+
+/**
+ * PointCloudPipeline 点云帧处理管线
+ *
+ * 在 Worker 中把原始二进制帧解码、变换、着色为类型化数组，以 transferable 的方式传回主线程并写入 Points。
+ *
+ * 主要功能：
+ * - 支持 xyz / xyzi / xyzrgb 紧密排列的 float32 帧，以及 pcd / ply / las 文件
+ * - 可在 Worker 中按 4x4 矩阵变换坐标、按高度或强度查色带着色
+ * - 背压：正在解码的帧达到 maxInFlight 时，新帧只保留最新的一帧，更早的等待帧被丢弃
+ * - 丢帧：渲染跟不上时，等待渲染的帧超过 maxQueue 则丢弃最旧的帧；多个 Worker 乱序返回的旧帧也会被丢弃
+ * - 传入 points 与 viewer 时每帧渲染前自动写入，新帧解码完成时会请求渲染；否则可通过 take 手动取出解码结果
+ * - 通过 addEventListener 监听 frame / drop / error 事件
+ * - Worker 出错时被移除，其正在解码的帧以 error 事件报告；所有 Worker 都被移除后改为在主线程处理
+ *
+ * 注意：push 会把帧的 ArrayBuffer 转移给 Worker，调用后原缓冲区不可再使用
+ *
+ * 构造参数 PointCloudPipelineOptionsType:
+ * @param format       帧格式
+ * @param colorize     着色配置（可选），在 Worker 中生成顶点颜色
+ * @param transform    4x4 变换矩阵（可选），列主序
+ * @param points       写入的 Points 实例（可选）
+ * @param viewer       Viewer 实例（可选），每帧渲染前调用 flush
+ * @param mode         写入方式：replace 每帧替换所有点，append 追加，默认 replace
+ * @param workers      Worker 数量，默认 1；为 0 时在主线程同步处理
+ * @param maxInFlight  同时解码的最大帧数，默认为 Worker 数量的 2 倍
+ * @param maxQueue     等待渲染的最大帧数，默认 2
+ */
+export default class PointCloudPipeline extends THREE.EventDispatcher<PointCloudPipelineEventMap> {
+  private workers: WorkerItemType[] = []
+  private pending: FrameItemType | null = null
+  private ready: { data: PointCloudData; sequence: number }[] = []
+  private sequence = 0
+  private lastSequence = -1 // 最近一个解码完成并进入队列的帧序号
+  private inFlight = 0
+  private disposed = false
+
+  private mode: 'replace' | 'append'
+  private maxInFlight: number
+  private maxQueue: number
+  private stats = { received: 0, decoded: 0, rendered: 0, dropped: 0 }
+
+  constructor(private options: PointCloudPipelineOptionsType) {
+    super()
+    this.mode = this.options.mode ?? 'replace'
+    this.maxQueue = Math.max(this.options.maxQueue ?? 2, 1)
+
+    const count = typeof Worker === 'undefined' ? 0 : (this.options.workers ?? 1)
+    for (let i = 0; i < count; i++) {
+      const worker = new Worker(new URL('./decoder.worker.ts', import.meta.url), {
+        type: 'module',
+      })
+      const item: WorkerItemType = { worker, inFlight: new Set() }
+      worker.onmessage = (event) => this.onMessage(item, event)
+      worker.onerror = (event) => this.onWorkerError(item, event)
+      this.workers.push(item)
+    }
+    this.maxInFlight = Math.max(this.options.maxInFlight ?? this.workers.length * 2, 1)
+
+    this.options.viewer?.addEventListener('beforeRender', this.onBeforeRender)
+  }
+
+  private onBeforeRender = () => {
+    this.flush()
+  }
+
+  /**
+   * 提交一帧原始数据
+   *
+   * @param buffer   帧数据，会被转移给 Worker
+   * @param options  覆盖构造参数中的 format / colorize / transform（可选）
+   */
+  public push(buffer: ArrayBuffer, options: Partial<FrameProcessOptionsType> = {}) {
+    if (this.disposed) return
+
+    const frame: FrameItemType = {
+      sequence: this.sequence++,
+      buffer,
+      options: {
+        format: options.format ?? this.options.format,
+        colorize: options.colorize ?? this.options.colorize,
+        transform: options.transform ?? this.options.transform,
+      },
+    }
+    this.stats.received++
+
+    if (this.inFlight < this.maxInFlight) {
+      this.dispatch(frame)
+      return
+    }
+
+    // 解码跟不上时只保留最新的一帧
+    if (this.pending) this.drop(this.pending.sequence, 'backpressure')
+    this.pending = frame
+  }
+
+  /**
+   * 提交一帧已在主线程解码的点云（如 JSON 消息），在主线程做变换与着色后进入渲染队列
+   */
+  public pushData(data: PointCloudData) {
+    if (this.disposed) return
+
+    const sequence = this.sequence++
+    this.stats.received++
+    this.inFlight++
+    this.receive(sequence, prepareFrame(data, this.options))
+  }
+
+  /**
+   * 取出最早一帧解码完成的数据，没有时返回 null
+   */
+  public take() {
+    return this.ready.shift()?.data ?? null
+  }
+
+  /**
+   * 把等待渲染的帧写入 Points：replace 模式只写入最新的一帧，append 模式依次追加
+   */
+  public flush() {
+    const points = this.options.points
+    if (!points || this.ready.length === 0) return
+
+    if (this.mode === 'replace') {
+      while (this.ready.length > 1) this.drop(this.ready.shift()!.sequence, 'queue')
+      points.setPointCloud(this.ready.shift()!.data)
+      this.stats.rendered++
+      return
+    }
+
+    while (this.ready.length) {
+      points.appendPointCloud(this.ready.shift()!.data)
+      this.stats.rendered++
+    }
+  }
+
+  public setTransform(transform: ArrayLike<number> | undefined) {
+    this.options.transform = transform
+  }
+
+  public setColorize(colorize: FrameProcessOptionsType['colorize']) {
+    this.options.colorize = colorize
+  }
+
+  public getStats(): PointCloudPipelineStatsType {
+    return { ...this.stats, inFlight: this.inFlight, queued: this.ready.length }
+  }
+
+  public dispose() {
+    this.disposed = true
+    this.options.viewer?.removeEventListener('beforeRender', this.onBeforeRender)
+    this.workers.forEach((item) => item.worker.terminate())
+    this.workers = []
+    this.pending = null
+    this.ready = []
+  }
+
+  private dispatch(frame: FrameItemType) {
+    this.inFlight++
+
+    if (this.workers.length === 0) {
+      try {
+        this.receive(frame.sequence, processFrame(frame.buffer, frame.options))
+      } catch (error) {
+        this.fail(frame.sequence, error instanceof Error ? error : new Error(String(error)))
+      }
+      return
+    }
+
+    const item = this.workers.reduce((a, b) => (b.inFlight.size < a.inFlight.size ? b : a))
+    item.inFlight.add(frame.sequence)
+    item.worker.postMessage(
+      { id: frame.sequence, buffer: frame.buffer, options: frame.options },
+      { transfer: [frame.buffer] },
+    )
+  }
+
+  private onMessage(
+    item: WorkerItemType,
+    event: MessageEvent<{ id: number; data?: PointCloudData; error?: string }>,
+  ) {
+    const { id, data, error } = event.data
+    item.inFlight.delete(id)
+    if (this.disposed) return
+
+    if (data) this.receive(id, data)
+    else this.fail(id, new Error(`Stream: ${error}`))
+  }
+
+  /**
+   * Worker 脚本加载失败或未捕获的异常：移除该 Worker，并让其正在解码的帧失败，
+   * 帧数据已转移给 Worker，无法重新解码
+   */
+  private onWorkerError(item: WorkerItemType, event: ErrorEvent) {
+    item.worker.terminate()
+    this.workers = this.workers.filter((w) => w !== item)
+    if (this.disposed) return
+
+    const error = new Error(`Stream: ${event.message}`)
+    const sequences = [...item.inFlight]
+    item.inFlight.clear()
+
+    if (sequences.length === 0) this.dispatchEvent({ type: 'error', sequence: -1, error })
+    sequences.forEach((sequence) => this.fail(sequence, error))
+  }
+
+  private receive(sequence: number, data: PointCloudData) {
+    this.inFlight--
+    this.stats.decoded++
+
+    // 多个 Worker 乱序返回时，比已入队的帧更早的帧直接丢弃
+    if (sequence < this.lastSequence) {
+      this.drop(sequence, 'stale')
+    } else {
+      this.lastSequence = sequence
+      this.ready.push({ data, sequence })
+      this.dispatchEvent({ type: 'frame', data, sequence })
+
+      // 渲染跟不上时丢弃最旧的帧
+      while (this.ready.length > this.maxQueue) this.drop(this.ready.shift()!.sequence, 'queue')
+      // 按需渲染时 Viewer 可能处于空闲，请求一帧以便在 beforeRender 中写入 Points
+      this.options.viewer?.requestRender()
+    }
+
+    this.next()
+  }
+
+  private fail(sequence: number, error: Error) {
+    this.inFlight--
+    this.dispatchEvent({ type: 'error', sequence, error })
+    this.next()
+  }
+
+  private next() {
+    if (!this.pending || this.inFlight >= this.maxInFlight) return
+
+    const frame = this.pending
+    this.pending = null
+    this.dispatch(frame)
+  }
+
+  private drop(sequence: number, reason: PointCloudPipelineEventMap['drop']['reason']) {
+    this.stats.dropped++
+    this.dispatchEvent({ type: 'drop', sequence, reason })
+  }
+}
@@ -0,0 +1,202 @@
+import * as THREE from 'three'
+import PointCloudPipeline from './PointCloudPipeline'
+import WebSocketSource from './WebSocketSource'
+import { createBinarySchema, createJSONSchema } from './schemas'
+import type { PointCloudData } from '../loaders'
+import type { PointCloudPipelineOptionsType } from './PointCloudPipeline'
+import type { WebSocketSourceOptionsType } from './WebSocketSource'
+import type {
+  MessageSchemaType,
+  StreamSourceEventMap,
+  StreamSourceType,
+  StreamStateType,
+} from './types'
+
+export interface PointCloudStreamOptionsType
+  extends Omit<PointCloudPipelineOptionsType, 'format'>,
+    Partial<Pick<PointCloudPipelineOptionsType, 'format'>> {
+  source: StreamSourceType | string | WebSocketSourceOptionsType
+  schema?: MessageSchemaType
+  autoConnect?: boolean
+}
+
+export interface PointCloudStreamEventMap {
+  frame: { data: PointCloudData }
+  state: { state: StreamStateType }
+  error: { error: Error }
+}
+
+export interface PointCloudStreamStatsType {
+  state: StreamStateType
+  fps: number // 最近 1 秒解码完成的帧率
+  messageRate: number // 最近 1 秒收到的消息数
+  bytesPerSecond: number // 最近 1 秒收到的字节数
+  messages: number // 收到的消息总数
+  frames: number // 解码完成的帧总数
+  rendered: number // 写入 Points 的帧总数
+  dropped: number // 丢弃的帧总数
+}
+
+// 统计帧率的时间窗口（毫秒）
+const STATS_WINDOW = 1000
+
+/**
+ * PointCloudStream 实时点云流
+ *
+ * 把数据源收到的消息按消息格式解码为点云帧，经 PointCloudPipeline 送入 Points，可用于接入实时的激光雷达数据。
+ *
+ * 主要功能：
+ * - 数据源可替换，传入地址时使用 WebSocketSource（断线指数退避重连）
+ * - 消息格式可替换，默认文本消息按 JSON 解码，二进制消息交给 Worker 按 format 解码
+ * - 提供连接状态与帧率、带宽等统计
+ * - 通过 addEventListener 监听 frame / state / error 事件
+ *
+ * 构造参数 PointCloudStreamOptionsType:
+ * @param source       数据源：StreamSourceType 实例、WebSocket 地址或 WebSocketSource 配置
+ * @param schema       消息格式（可选），见 createJSONSchema / createBinarySchema
+ * @param autoConnect  是否立即连接，默认 true
+ * @param format       二进制消息的帧格式，默认 xyz
+ * 其余参数同 PointCloudPipeline，如 points、viewer、mode、colorize、transform
+ */
+export default class PointCloudStream extends THREE.EventDispatcher<PointCloudStreamEventMap> {
+  private source: StreamSourceType
+  private schema: MessageSchemaType
+  private pipeline: PointCloudPipeline
+
+  private messages = 0
+  private frames = 0
+  private messageTimes: { time: number; bytes: number }[] = []
+  private frameTimes: number[] = []
+
+  constructor(private options: PointCloudStreamOptionsType) {
+    super()
+    const format = this.options.format ?? 'xyz'
+    this.pipeline = new PointCloudPipeline({ ...this.options, format })
+
+    const source = this.options.source
+    this.source =
+      typeof source === 'string'
+        ? new WebSocketSource({ url: source })
+        : 'url' in source
+          ? new WebSocketSource(source)
+          : source
+
+    if (this.options.schema) {
+      this.schema = this.options.schema
+    } else {
+      const json = createJSONSchema()
+      const binary = createBinarySchema(format)
+      this.schema = {
+        decode: (message) =>
+          typeof message === 'string' ? json.decode(message) : binary.decode(message),
+      }
+    }
+
+    this.source.addEventListener('message', this.onMessage)
+    this.source.addEventListener('state', this.onState)
+    this.source.addEventListener('error', this.onError)
+    this.pipeline.addEventListener('frame', this.onFrame)
+    this.pipeline.addEventListener('error', this.onError)
+
+    if (this.options.autoConnect ?? true) this.connect()
+  }
+
+  private onMessage = ({ data }: StreamSourceEventMap['message']) => {
+    this.messages++
+    this.messageTimes.push({
+      time: performance.now(),
+      bytes: typeof data === 'string' ? data.length : data.byteLength,
+    })
+    this.prune()
+
+    let frame
+    try {
+      frame = this.schema.decode(data)
+    } catch (error) {
+      this.onError({ error: error instanceof Error ? error : new Error(String(error)) })
+      return
+    }
+
+    if (!frame) return
+    if ('positions' in frame) this.pipeline.pushData(frame)
+    else this.pipeline.push(frame.buffer, frame.format ? { format: frame.format } : {})
+  }
+
+  private onState = ({ state }: StreamSourceEventMap['state']) => {
+    this.dispatchEvent({ type: 'state', state })
+  }
+
+  private onError = ({ error }: { error: Error }) => {
+    this.dispatchEvent({ type: 'error', error })
+  }
+
+  private onFrame = ({ data }: { data: PointCloudData }) => {
+    this.frames++
+    this.frameTimes.push(performance.now())
+    this.prune()
+    this.dispatchEvent({ type: 'frame', data })
+  }
+
+  public connect() {
+    this.source.connect()
+  }
+
+  public disconnect() {
+    this.source.disconnect()
+  }
+
+  public getState() {
+    return this.source.getState()
+  }
+
+  public getSource() {
+    return this.source
+  }
+
+  public getPipeline() {
+    return this.pipeline
+  }
+
+  /**
+   * 取出最早一帧解码完成的数据，未传入 points 时用于手动消费
+   */
+  public take() {
+    return this.pipeline.take()
+  }
+
+  public getStats(): PointCloudStreamStatsType {
+    this.prune()
+    const { rendered, dropped } = this.pipeline.getStats()
+    return {
+      state: this.getState(),
+      fps: (this.frameTimes.length * 1000) / STATS_WINDOW,
+      messageRate: (this.messageTimes.length * 1000) / STATS_WINDOW,
+      bytesPerSecond: this.messageTimes.reduce((sum, item) => sum + item.bytes, 0),
+      messages: this.messages,
+      frames: this.frames,
+      rendered,
+      dropped,
+    }
+  }
+
+  /**
+   * 移除统计窗口之外的记录
+   */
+  private prune() {
+    const now = performance.now()
+    while (this.messageTimes.length && now - this.messageTimes[0].time > STATS_WINDOW) {
+      this.messageTimes.shift()
+    }
+    while (this.frameTimes.length && now - this.frameTimes[0] > STATS_WINDOW) {
+      this.frameTimes.shift()
+    }
+  }
+
+  public dispose() {
+    this.source.removeEventListener('message', this.onMessage)
+    this.source.removeEventListener('state', this.onState)
+    this.source.removeEventListener('error', this.onError)
+    this.source.disconnect()
+    this.pipeline.dispose()
+  }
+}
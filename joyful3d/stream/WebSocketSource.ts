@@ -0,0 +1,118 @@
+import * as THREE from 'three'
+import type { StreamSourceEventMap, StreamSourceType, StreamStateType } from './types'
+
+export interface WebSocketSourceOptionsType {
+  url: string
+  protocols?: string | string[]
+  reconnect?: boolean
+  reconnectDelay?: number
+  maxReconnectDelay?: number
+  maxRetries?: number
+}
+
+/**
+ * WebSocketSource WebSocket 数据源
+ *
+ * 主要功能：
+ * - 以 arraybuffer 接收二进制消息，文本消息按字符串传出
+ * - 连接意外断开时按指数退避自动重连（带随机抖动），连接成功后重置退避
+ * - 通过 addEventListener 监听 message / state / error 事件
+ *
+ * 构造参数 WebSocketSourceOptionsType:
+ * @param url                WebSocket 地址
+ * @param protocols          子协议（可选）
+ * @param reconnect          是否自动重连，默认 true
+ * @param reconnectDelay     首次重连的等待时间（毫秒），默认 1000，之后每次翻倍
+ * @param maxReconnectDelay  重连等待时间上限（毫秒），默认 30000
+ * @param maxRetries         连续重连的最大次数，默认不限
+ */
+export default class WebSocketSource
+  extends THREE.EventDispatcher<StreamSourceEventMap>
+  implements StreamSourceType
+{
+  private socket: WebSocket | null = null
+  private state: StreamStateType = 'idle'
+  private retries = 0
+  private timer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(private options: WebSocketSourceOptionsType) {
+    super()
+  }
+
+  public getState() {
+    return this.state
+  }
+
+  public connect() {
+    if (this.socket) return
+
+    clearTimeout(this.timer)
+    this.setState(this.retries > 0 ? 'reconnecting' : 'connecting')
+
+    const socket = new WebSocket(this.options.url, this.options.protocols)
+    socket.binaryType = 'arraybuffer'
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.retries = 0
+      this.setState('open')
+    }
+    socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => {
+      this.dispatchEvent({ type: 'message', data: event.data })
+    }
+    socket.onerror = () => {
+      this.dispatchEvent({
+        type: 'error',
+        error: new Error(`Stream: WebSocket error on ${this.options.url}`),
+      })
+    }
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.scheduleReconnect()
+    }
+  }
+
+  /**
+   * 主动断开连接，不再重连
+   */
+  public disconnect() {
+    clearTimeout(this.timer)
+    this.retries = 0
+
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+    this.setState('closed')
+  }
+
+  public send(data: string | ArrayBufferLike | ArrayBufferView | Blob) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false
+
+    this.socket.send(data)
+    return true
+  }
+
+  private scheduleReconnect() {
+    const { reconnect = true, maxRetries = Infinity } = this.options
+    if (!reconnect || this.retries >= maxRetries) {
+      this.setState('closed')
+      return
+    }
+
+    const base = this.options.reconnectDelay ?? 1000
+    const max = this.options.maxReconnectDelay ?? 30000
+    const delay = Math.min(base * 2 ** this.retries, max) * (0.5 + Math.random() * 0.5)
+
+    this.retries++
+    this.setState('reconnecting')
+    this.timer = setTimeout(() => this.connect(), delay)
+  }
+
+  private setState(state: StreamStateType) {
+    if (this.state === state) return
+
+    this.state = state
+    this.dispatchEvent({ type: 'state', state })
+  }
+}
@@ -0,0 +1,42 @@
+import { processFrame } from '../decoder'
+import type { FrameProcessOptionsType } from '../types'
+
+interface WorkerMessageType {
+  id: number
+  buffer: ArrayBuffer
+  options: FrameProcessOptionsType
+}
+
+/**
+ * 在测试中代替 decoder.worker 的 Worker，消息先保存起来，调用 respond 时才在主线程解码并回复
+ */
+export default class FakeWorker {
+  static instances: FakeWorker[] = []
+
+  messages: WorkerMessageType[] = []
+  terminated = false
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(message: WorkerMessageType) {
+    this.messages.push(message)
+  }
+
+  /**
+   * 按收到的顺序解码并回复 count 条消息
+   */
+  respond(count = this.messages.length) {
+    for (const { id, buffer, options } of this.messages.splice(0, count)) {
+      const data = processFrame(buffer, options)
+      this.onmessage?.({ data: { id, data } } as MessageEvent)
+    }
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
+import PointCloudPipeline from '../PointCloudPipeline'
+import Points from '../../Points'
+import type Viewer from '../../Viewer'
+import FakeWorker from './FakeWorker'
+
+const frame = (...values: number[]) => new Float32Array(values).buffer as ArrayBuffer
+
+describe('PointCloudPipeline', () => {
+  afterEach(() => {
+    FakeWorker.instances = []
+    vi.unstubAllGlobals()
+  })
+
+  it('fails in-flight frames and decodes on the main thread after a worker error', () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const pipeline = new PointCloudPipeline({ format: 'xyz', workers: 1, maxInFlight: 2 })
+    const errors: number[] = []
+    const frames: number[] = []
+    pipeline.addEventListener('error', ({ sequence }) => errors.push(sequence))
+    pipeline.addEventListener('frame', ({ sequence }) => frames.push(sequence))
+
+    pipeline.push(frame(0, 0, 0))
+    pipeline.push(frame(1, 1, 1))
+    pipeline.push(frame(2, 2, 2)) // 等待中的帧
+
+    const [worker] = FakeWorker.instances
+    expect(worker.messages.map((m) => m.id)).toEqual([0, 1])
+
+    worker.onerror!({ message: 'script error' } as ErrorEvent)
+
+    expect(worker.terminated).toBe(true)
+    expect(errors).toEqual([0, 1])
+    expect(frames).toEqual([2])
+    expect(pipeline.getStats().inFlight).toBe(0)
+
+    pipeline.push(frame(3, 3, 3))
+    expect(frames).toEqual([2, 3])
+    expect(pipeline.take()!.positions).toEqual(new Float32Array([2, 2, 2]))
+  })
+
+  it('requests a render from an idle on-demand viewer after pushData', () => {
+    // 只模拟 Viewer 的按需渲染：requestRender 时安排一帧，渲染前触发 beforeRender
+    const frames: (() => void)[] = []
+    const viewer = new THREE.EventDispatcher() as unknown as Viewer
+    viewer.requestRender = vi.fn(() => {
+      frames.push(() => viewer.dispatchEvent({ type: 'beforeRender', time: 0 }))
+    })
+    const points = new Points({ maxPoints: 10 })
+    const pipeline = new PointCloudPipeline({ format: 'xyz', workers: 0, points, viewer })
+
+    pipeline.pushData({ positions: new Float32Array([1, 2, 3]), count: 1 })
+
+    expect(viewer.requestRender).toHaveBeenCalledTimes(1)
+    frames.forEach((frame) => frame())
+    expect(points.getCount()).toBe(1)
+  })
+})
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import PointCloudStream from '../PointCloudStream'
+import type { PointCloudData } from '../../loaders'
+import type { FieldLayoutType } from '../fields'
+import FakeWorker from './FakeWorker'
+import { createServer, WebSocket } from './server'
+
+describe('PointCloudStream', () => {
+  let mock: Awaited<ReturnType<typeof createServer>>
+  let stream: PointCloudStream | undefined
+
+  beforeEach(async () => {
+    vi.stubGlobal('WebSocket', WebSocket)
+    mock = await createServer()
+  })
+
+  afterEach(async () => {
+    stream?.dispose()
+    stream = undefined
+    FakeWorker.instances = []
+    await mock.close()
+    vi.unstubAllGlobals()
+  })
+
+  const open = async (options: Partial<ConstructorParameters<typeof PointCloudStream>[0]> = {}) => {
+    const connection = mock.accept()
+    stream = new PointCloudStream({ source: mock.url, ...options })
+    const frames: PointCloudData[] = []
+    stream.addEventListener('frame', ({ data }) => frames.push(data))
+    return { client: await connection, frames }
+  }
+
+  it('decodes JSON text messages and binary frames with the default schema', async () => {
+    const { client, frames } = await open({ format: 'xyzi' })
+
+    client.send(JSON.stringify({ points: [{ x: 1, y: 2, z: 3, r: 255, g: 0, b: 0 }] }))
+    client.send(new Float32Array([4, 5, 6, 0.5, 7, 8, 9, 1]))
+
+    await vi.waitFor(() => expect(frames).toHaveLength(2))
+    expect(frames[0].positions).toEqual(new Float32Array([1, 2, 3]))
+    expect(frames[0].colors).toEqual(new Float32Array([1, 0, 0]))
+    expect(frames[1].positions).toEqual(new Float32Array([4, 5, 6, 7, 8, 9]))
+    expect(frames[1].intensity).toEqual(new Float32Array([0.5, 1]))
+  })
+
+  it('decodes binary frames with a field layout spanning several rows', async () => {
+    // 2 行 × 1 列，每个点 16 字节（x y z + 4 字节填充），未指定 width 与 rowStep
+    const layout: FieldLayoutType = {
+      type: 'fields',
+      fields: [
+        { name: 'x', offset: 0, datatype: 7 },
+        { name: 'y', offset: 4, datatype: 7 },
+        { name: 'z', offset: 8, datatype: 7 },
+        { name: 'intensity', offset: 12, datatype: 'float32' },
+      ],
+      pointStep: 16,
+      height: 2,
+    }
+    const { client, frames } = await open({ format: layout })
+
+    client.send(new Float32Array([1, 2, 3, 10, 4, 5, 6, 20]))
+
+    await vi.waitFor(() => expect(frames).toHaveLength(1))
+    expect(frames[0].positions).toEqual(new Float32Array([1, 2, 3, 4, 5, 6]))
+    expect(frames[0].intensity).toEqual(new Float32Array([10, 20]))
+  })
+
+  it('reports messages the schema cannot decode as errors', async () => {
+    const { client } = await open()
+    const errors: Error[] = []
+    stream!.addEventListener('error', ({ error }) => errors.push(error))
+
+    client.send('not json')
+
+    await vi.waitFor(() => expect(errors).toHaveLength(1))
+    expect(errors[0]).toBeInstanceOf(SyntaxError)
+  })
+
+  it('keeps only the newest pending frame while decoding falls behind', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const { client, frames } = await open({ workers: 1, maxInFlight: 1 })
+    const drops: [number, string][] = []
+    stream!
+      .getPipeline()
+      .addEventListener('drop', ({ sequence, reason }) => drops.push([sequence, reason]))
+
+    for (let i = 0; i < 4; i++) client.send(new Float32Array([i, i, i]))
+    await vi.waitFor(() => expect(stream!.getStats().messages).toBe(4))
+
+    // 第 0 帧正在解码，第 1、2 帧被更新的帧替换
+    expect(drops).toEqual([
+      [1, 'backpressure'],
+      [2, 'backpressure'],
+    ])
+
+    const [worker] = FakeWorker.instances
+    worker.respond()
+    worker.respond()
+    expect(frames.map((frame) => frame.positions[0])).toEqual([0, 3])
+    expect(stream!.getStats()).toMatchObject({ frames: 2, dropped: 2 })
+  })
+})
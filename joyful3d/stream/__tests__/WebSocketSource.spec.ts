@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import WebSocketSource from '../WebSocketSource'
+import type { StreamStateType } from '../types'
+import { createServer, WebSocket } from './server'
+
+describe('WebSocketSource', () => {
+  let mock: Awaited<ReturnType<typeof createServer>>
+  let source: WebSocketSource | undefined
+
+  beforeEach(async () => {
+    vi.stubGlobal('WebSocket', WebSocket)
+    mock = await createServer()
+  })
+
+  afterEach(async () => {
+    source?.disconnect()
+    source = undefined
+    await mock.close()
+    vi.unstubAllGlobals()
+  })
+
+  const track = (target: WebSocketSource) => {
+    const states: StreamStateType[] = []
+    target.addEventListener('state', ({ state }) => states.push(state))
+    return states
+  }
+
+  it('receives binary messages as ArrayBuffer and text as string', async () => {
+    source = new WebSocketSource({ url: mock.url })
+    const messages: (string | ArrayBuffer)[] = []
+    source.addEventListener('message', ({ data }) => messages.push(data))
+
+    const connection = mock.accept()
+    source.connect()
+    const client = await connection
+    client.send(new Float32Array([1, 2, 3]))
+    client.send('{"positions":[]}')
+
+    await vi.waitFor(() => expect(messages).toHaveLength(2))
+    expect(messages[0]).toBeInstanceOf(ArrayBuffer)
+    expect(new Float32Array(messages[0] as ArrayBuffer)).toEqual(new Float32Array([1, 2, 3]))
+    expect(messages[1]).toBe('{"positions":[]}')
+  })
+
+  it('reconnects after the connection drops', async () => {
+    source = new WebSocketSource({ url: mock.url, reconnectDelay: 10 })
+    const states = track(source)
+
+    let connection = mock.accept()
+    source.connect()
+    const first = await connection
+    await vi.waitFor(() => expect(source!.getState()).toBe('open'))
+
+    connection = mock.accept()
+    first.terminate()
+    await connection
+    await vi.waitFor(() => expect(source!.getState()).toBe('open'))
+
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open'])
+  })
+
+  it('stops after maxRetries failed attempts', async () => {
+    source = new WebSocketSource({ url: mock.url, reconnectDelay: 10, maxRetries: 2 })
+    const states = track(source)
+    await mock.close()
+
+    source.connect()
+    await vi.waitFor(() => expect(source!.getState()).toBe('closed'))
+    expect(states).toEqual(['connecting', 'reconnecting', 'closed'])
+  })
+
+  it('does not reconnect after disconnect', async () => {
+    source = new WebSocketSource({ url: mock.url, reconnectDelay: 10 })
+    const states = track(source)
+
+    const connection = mock.accept()
+    source.connect()
+    await connection
+    await vi.waitFor(() => expect(source!.getState()).toBe('open'))
+
+    source.disconnect()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(states).toEqual(['connecting', 'open', 'closed'])
+    expect(mock.server.clients.size).toBe(0)
+  })
+})
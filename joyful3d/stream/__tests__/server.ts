@@ -0,0 +1,25 @@
+import { WebSocket, WebSocketServer } from 'ws'
+
+/**
+ * 在随机端口上启动用于测试的 WebSocket 服务器
+ */
+export async function createServer() {
+  const server = new WebSocketServer({ host: '127.0.0.1', port: 0 })
+  await new Promise<void>((resolve) => server.once('listening', resolve))
+
+  const { port } = server.address() as { port: number }
+  return {
+    server,
+    url: `ws://127.0.0.1:${port}`,
+    /**
+     * 等待下一个客户端连接
+     */
+    accept: () => new Promise<WebSocket>((resolve) => server.once('connection', resolve)),
+    close: () => {
+      server.clients.forEach((client) => client.terminate())
+      return new Promise<void>((resolve) => server.close(() => resolve()))
+    },
+  }
+}
+
+export { WebSocket }
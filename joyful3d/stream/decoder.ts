@@ -0,0 +1,142 @@
+import { createColormapLUT } from '../Colormap'
+import { parseLAS, parsePCD, parsePLY } from '../loaders'
+import { decodeFields } from './fields'
+import type { PointCloudData } from '../loaders'
+import type { FrameColorizeType, FrameFormatType, FrameProcessOptionsType } from './types'
+
+// 紧密排列的 float32 格式，每个点的分量数
+const FLOAT_STRIDE: Record<'xyz' | 'xyzi' | 'xyzrgb', number> = {
+  xyz: 3,
+  xyzi: 4,
+  xyzrgb: 6,
+}
+
+// 按名称缓存色带查找表，避免每帧重新生成
+const lutCache = new Map<string, Uint8Array>()
+
+/**
+ * 把原始帧解码为点云数据
+ *
+ * xyz 格式直接复用帧的缓冲区，不做复制
+ */
+export function decodeFrame(buffer: ArrayBuffer, format: FrameFormatType): PointCloudData {
+  if (typeof format === 'object') return decodeFields(buffer, format)
+
+  switch (format) {
+    case 'pcd':
+      return parsePCD(buffer)
+    case 'ply':
+      return parsePLY(buffer)
+    case 'las':
+      return parseLAS(buffer)
+  }
+
+  const stride = FLOAT_STRIDE[format]
+  if (buffer.byteLength % (stride * 4) !== 0) {
+    throw new Error(
+      `Stream: ${format} frame length ${buffer.byteLength} is not a multiple of ${stride * 4}`,
+    )
+  }
+
+  const source = new Float32Array(buffer)
+  const count = source.length / stride
+  if (format === 'xyz') return { count, positions: source }
+
+  const positions = new Float32Array(count * 3)
+  const intensity = format === 'xyzi' ? new Float32Array(count) : undefined
+  const colors = format === 'xyzrgb' ? new Float32Array(count * 3) : undefined
+
+  for (let i = 0; i < count; i++) {
+    const s = i * stride
+    positions[i * 3] = source[s]
+    positions[i * 3 + 1] = source[s + 1]
+    positions[i * 3 + 2] = source[s + 2]
+    if (intensity) intensity[i] = source[s + 3]
+    if (colors) {
+      colors[i * 3] = source[s + 3]
+      colors[i * 3 + 1] = source[s + 4]
+      colors[i * 3 + 2] = source[s + 5]
+    }
+  }
+
+  return { count, positions, intensity, colors }
+}
+
+/**
+ * 用 4x4 矩阵（列主序）原地变换坐标
+ */
+export function transformPositions(positions: Float32Array, count: number, m: ArrayLike<number>) {
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3]
+    const y = positions[i * 3 + 1]
+    const z = positions[i * 3 + 2]
+    const w = 1 / (m[3] * x + m[7] * y + m[11] * z + m[15] || 1)
+
+    positions[i * 3] = (m[0] * x + m[4] * y + m[8] * z + m[12]) * w
+    positions[i * 3 + 1] = (m[1] * x + m[5] * y + m[9] * z + m[13]) * w
+    positions[i * 3 + 2] = (m[2] * x + m[6] * y + m[10] * z + m[14]) * w
+  }
+}
+
+/**
+ * 按高度或强度查色带生成顶点颜色（线性空间 rgb），没有强度时返回 undefined
+ */
+export function colorizePoints(data: PointCloudData, colorize: FrameColorizeType) {
+  const values = colorize.mode === 'intensity' ? data.intensity : data.positions
+  if (!values) return undefined
+
+  const colormap = colorize.colormap ?? 'viridis'
+  let lut = typeof colormap === 'string' ? lutCache.get(colormap) : undefined
+  if (!lut) {
+    lut = createColormapLUT(colormap)
+    if (typeof colormap === 'string') lutCache.set(colormap, lut)
+  }
+  const size = lut.length / 4
+  const stride = colorize.mode === 'intensity' ? 1 : 3
+  const offset = colorize.mode === 'intensity' ? 0 : { x: 0, y: 1, z: 2 }[colorize.axis ?? 'y']
+  const [min, max] = colorize.range
+  const scale = max > min ? (size - 1) / (max - min) : 0
+
+  const colors = new Float32Array(data.count * 3)
+  for (let i = 0; i < data.count; i++) {
+    const index = Math.min(
+      Math.max(Math.round((values[i * stride + offset] - min) * scale), 0),
+      size - 1,
+    )
+    colors[i * 3] = lut[index * 4] / 255
+    colors[i * 3 + 1] = lut[index * 4 + 1] / 255
+    colors[i * 3 + 2] = lut[index * 4 + 2] / 255
+  }
+  return colors
+}
+
+/**
+ * 解码、变换并着色一帧，Worker 与主线程共用
+ */
+export function processFrame(buffer: ArrayBuffer, options: FrameProcessOptionsType) {
+  return prepareFrame(decodeFrame(buffer, options.format), options)
+}
+
+/**
+ * 对已解码的点云原地做坐标变换与着色
+ */
+export function prepareFrame(
+  data: PointCloudData,
+  options: Pick<FrameProcessOptionsType, 'colorize' | 'transform'>,
+) {
+  if (options.transform) transformPositions(data.positions, data.count, options.transform)
+  if (options.colorize) data.colors = colorizePoints(data, options.colorize) ?? data.colors
+
+  return data
+}
+
+/**
+ * 点云数据中可转移（transferable）的缓冲区
+ */
+export function getTransferables(data: PointCloudData) {
+  const buffers = new Set<ArrayBuffer>()
+  for (const array of [data.positions, data.colors, data.intensity, data.classification]) {
+    if (array) buffers.add(array.buffer as ArrayBuffer)
+  }
+  return [...buffers]
+}
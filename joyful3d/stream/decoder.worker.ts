@@ -0,0 +1,17 @@
+import { getTransferables, processFrame } from './decoder'
+import type { FrameProcessOptionsType } from './types'
+
+/**
+ * 点云帧解码 Worker，由 PointCloudPipeline 创建
+ */
+self.onmessage = (
+  event: MessageEvent<{ id: number; buffer: ArrayBuffer; options: FrameProcessOptionsType }>,
+) => {
+  const { id, buffer, options } = event.data
+  try {
+    const data = processFrame(buffer, options)
+    self.postMessage({ id, data }, { transfer: getTransferables(data) })
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) })
+  }
+}
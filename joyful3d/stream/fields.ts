@@ -0,0 +1,148 @@
+import {
+  type ScalarType,
+  SCALAR_SIZE,
+  allocatePointCloud,
+  normalizeColor,
+  readScalar,
+  truncatePointCloud,
+  unpackRGB,
+} from '../loaders/utils'
+import type { PointCloudData } from '../loaders'
+
+/**
+ * 字段的数据类型，数字取值与 ROS sensor_msgs/PointField 一致：
+ * 1 int8，2 uint8，3 int16，4 uint16，5 int32，6 uint32，7 float32，8 float64
+ */
+export type PointFieldDataType = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | ScalarType
+
+export interface PointFieldType {
+  name: string
+  offset: number // 字段在单个点内的字节偏移
+  datatype: PointFieldDataType
+  count?: number // 分量个数，默认 1
+}
+
+/**
+ * 按字段描述的二进制点云布局（类似 ROS PointCloud2）
+ */
+export interface FieldLayoutType {
+  type: 'fields'
+  fields: PointFieldType[]
+  pointStep: number // 单个点占用的字节数
+  rowStep?: number // 一行占用的字节数，默认 pointStep * width
+  width?: number // 每行点数，默认按数据长度计算
+  height?: number // 行数，默认 1
+  bigEndian?: boolean
+  dense?: boolean // 为 true 时不检查坐标是否有效
+}
+
+const DATATYPES: ScalarType[] = [
+  'int8',
+  'uint8',
+  'int16',
+  'uint16',
+  'int32',
+  'uint32',
+  'float32',
+  'float64',
+]
+
+function toScalarType(datatype: PointFieldDataType): ScalarType {
+  if (typeof datatype === 'string') return datatype
+
+  const type = DATATYPES[datatype - 1]
+  if (!type) throw new Error(`Stream: unknown field datatype ${datatype}`)
+  return type
+}
+
+/**
+ * 按字段布局解码二进制点云
+ *
+ * 读取 x/y/z、rgb（或 rgba，按 0x00RRGGBB 打包）或单独的 r/g/b、intensity（或 i）以及 label/classification 字段；
+ * 非 dense 的点云中坐标非法（NaN）的点会被丢弃
+ */
+export function decodeFields(
+  source: ArrayBuffer | ArrayBufferView,
+  layout: FieldLayoutType,
+): PointCloudData {
+  const view = ArrayBuffer.isView(source)
+    ? new DataView(source.buffer, source.byteOffset, source.byteLength)
+    : new DataView(source)
+  const littleEndian = !layout.bigEndian
+  const { pointStep } = layout
+  if (pointStep <= 0) throw new Error('Stream: pointStep must be positive')
+
+  const fields = layout.fields.map((field) => ({ ...field, type: toScalarType(field.datatype) }))
+  for (const field of fields) {
+    if (field.offset + SCALAR_SIZE[field.type] * (field.count ?? 1) > pointStep) {
+      throw new Error(`Stream: field "${field.name}" exceeds pointStep ${pointStep}`)
+    }
+  }
+
+  const find = (...names: string[]) => fields.find((field) => names.includes(field.name))
+  const x = find('x')
+  const y = find('y')
+  const z = find('z')
+  if (!x || !y || !z) throw new Error('Stream: fields x, y and z are required')
+
+  const rgb = find('rgb', 'rgba')
+  const channels = rgb ? [] : [find('r'), find('g'), find('b')]
+  const hasChannels = channels.length === 3 && channels.every((field) => field)
+  const intensity = find('intensity', 'i')
+  const classification = find('label', 'classification')
+
+  const height = layout.height ?? 1
+  const width = layout.width ?? Math.floor(view.byteLength / height / pointStep)
+  const rowStep = layout.rowStep ?? width * pointStep
+  const rowSize = height > 1 ? rowStep : width * pointStep
+  if ((height - 1) * rowSize + width * pointStep > view.byteLength) {
+    throw new Error(`Stream: data is truncated, expected ${width * height} points`)
+  }
+
+  const data = allocatePointCloud(width * height, {
+    color: !!rgb || hasChannels,
+    intensity: !!intensity,
+    classification: !!classification,
+  })
+
+  let n = 0
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const base = row * rowSize + col * pointStep
+      const px = readScalar(view, base + x.offset, x.type, littleEndian)
+      const py = readScalar(view, base + y.offset, y.type, littleEndian)
+      const pz = readScalar(view, base + z.offset, z.type, littleEndian)
+      if (!layout.dense && !(Number.isFinite(px) && Number.isFinite(py) && Number.isFinite(pz))) {
+        continue
+      }
+
+      data.positions[n * 3] = px
+      data.positions[n * 3 + 1] = py
+      data.positions[n * 3 + 2] = pz
+
+      if (rgb) {
+        unpackRGB(view.getUint32(base + rgb.offset, littleEndian), data.colors!, n)
+      } else if (hasChannels) {
+        channels.forEach((field, k) => {
+          const value = readScalar(view, base + field!.offset, field!.type, littleEndian)
+          data.colors![n * 3 + k] = normalizeColor(value, field!.type)
+        })
+      }
+      if (intensity) {
+        data.intensity![n] = readScalar(view, base + intensity.offset, intensity.type, littleEndian)
+      }
+      if (classification) {
+        data.classification![n] = readScalar(
+          view,
+          base + classification.offset,
+          classification.type,
+          littleEndian,
+        )
+      }
+
+      n++
+    }
+  }
+
+  return truncatePointCloud(data, n)
+}
@@ -0,0 +1,62 @@
+import PointCloudPipeline from './PointCloudPipeline'
+import PointCloudStream from './PointCloudStream'
+import WebSocketSource from './WebSocketSource'
+import { decodeFrame, transformPositions, colorizePoints, processFrame } from './decoder'
+import { decodeFields } from './fields'
+import { createJSONSchema, createBinarySchema } from './schemas'
+import type {
+  PointCloudPipelineOptionsType,
+  PointCloudPipelineEventMap,
+  PointCloudPipelineStatsType,
+} from './PointCloudPipeline'
+import type {
+  PointCloudStreamOptionsType,
+  PointCloudStreamEventMap,
+  PointCloudStreamStatsType,
+} from './PointCloudStream'
+import type { WebSocketSourceOptionsType } from './WebSocketSource'
+import type { PointFieldType, PointFieldDataType, FieldLayoutType } from './fields'
+import type {
+  FrameFormatType,
+  FrameColorizeType,
+  FrameProcessOptionsType,
+  StreamStateType,
+  StreamSourceEventMap,
+  StreamSourceType,
+  StreamMessageType,
+  MessageSchemaType,
+} from './types'
+
+export {
+  PointCloudPipeline,
+  PointCloudStream,
+  WebSocketSource,
+  decodeFrame,
+  decodeFields,
+  transformPositions,
+  colorizePoints,
+  processFrame,
+  createJSONSchema,
+  createBinarySchema,
+}
+
+export type {
+  PointCloudPipelineOptionsType,
+  PointCloudPipelineEventMap,
+  PointCloudPipelineStatsType,
+  FrameFormatType,
+  FrameColorizeType,
+  FrameProcessOptionsType,
+  PointCloudStreamOptionsType,
+  PointCloudStreamEventMap,
+  PointCloudStreamStatsType,
+  WebSocketSourceOptionsType,
+  PointFieldType,
+  PointFieldDataType,
+  FieldLayoutType,
+  StreamStateType,
+  StreamSourceEventMap,
+  StreamSourceType,
+  StreamMessageType,
+  MessageSchemaType,
+}
@@ -0,0 +1,82 @@
+import { allocatePointCloud } from '../loaders/utils'
+import type { PointCloudData } from '../loaders'
+import type { FrameFormatType, MessageSchemaType } from './types'
+
+type JSONPointType =
+  | number[]
+  | { x: number; y: number; z: number; intensity?: number; r?: number; g?: number; b?: number }
+
+interface JSONFrameType {
+  points?: JSONPointType[]
+  positions?: number[]
+  colors?: number[]
+  intensity?: number[]
+}
+
+/**
+ * JSON 消息格式，支持两种写法：
+ *
+ * - { positions: [x, y, z, ...], colors?: [r, g, b, ...], intensity?: [...] }，颜色取值 0-1
+ * - { points: [[x, y, z, intensity?], ...] } 或 { points: [{ x, y, z, intensity?, r?, g?, b? }, ...] }，
+ *   对象写法中的 r/g/b 取值 0-255
+ *
+ * 二进制消息会被忽略
+ */
+export function createJSONSchema(): MessageSchemaType {
+  return {
+    decode(message) {
+      if (typeof message !== 'string') return null
+
+      const json: JSONFrameType = JSON.parse(message)
+      if (json.positions) {
+        const count = Math.floor(json.positions.length / 3)
+        return {
+          count,
+          positions: Float32Array.from(json.positions),
+          colors: json.colors ? Float32Array.from(json.colors) : undefined,
+          intensity: json.intensity ? Float32Array.from(json.intensity) : undefined,
+        }
+      }
+      if (json.points) return decodeJSONPoints(json.points)
+      return null
+    },
+  }
+}
+
+/**
+ * 二进制消息格式，消息交给 Worker 按 format 解码，文本消息会被忽略
+ */
+export function createBinarySchema(format: FrameFormatType = 'xyz'): MessageSchemaType {
+  return {
+    decode(message) {
+      return typeof message === 'string' ? null : { buffer: message, format }
+    },
+  }
+}
+
+function decodeJSONPoints(points: JSONPointType[]): PointCloudData {
+  const first = points[0]
+  const hasIntensity = Array.isArray(first) ? first.length > 3 : first?.intensity !== undefined
+  const hasColor = !Array.isArray(first) && first?.r !== undefined
+  const data = allocatePointCloud(points.length, { intensity: hasIntensity, color: hasColor })
+
+  points.forEach((point, i) => {
+    if (Array.isArray(point)) {
+      data.positions.set(point.slice(0, 3), i * 3)
+      if (data.intensity) data.intensity[i] = point[3] ?? 0
+      return
+    }
+
+    data.positions[i * 3] = point.x
+    data.positions[i * 3 + 1] = point.y
+    data.positions[i * 3 + 2] = point.z
+    if (data.intensity) data.intensity[i] = point.intensity ?? 0
+    if (data.colors) {
+      data.colors[i * 3] = (point.r ?? 255) / 255
+      data.colors[i * 3 + 1] = (point.g ?? 255) / 255
+      data.colors[i * 3 + 2] = (point.b ?? 255) / 255
+    }
+  })
+
+  return data
+}
@@ -0,0 +1,64 @@
+import type * as THREE from 'three'
+import type { ColormapStops, ColormapType } from '../Colormap'
+import type { PointCloudData, PointCloudFormat } from '../loaders'
+import type { FieldLayoutType } from './fields'
+
+/**
+ * 原始帧的格式
+ *
+ * - xyz / xyzi / xyzrgb：紧密排列的 float32，每个点 3 / 4 / 6 个分量，rgb 取值 0-1
+ * - pcd / ply / las：完整的点云文件
+ * - FieldLayoutType：按字段描述的二进制布局（类似 ROS PointCloud2）
+ */
+export type FrameFormatType = 'xyz' | 'xyzi' | 'xyzrgb' | PointCloudFormat | FieldLayoutType
+
+/**
+ * 在 Worker 中按高度或强度生成顶点颜色
+ */
+export interface FrameColorizeType {
+  mode: 'height' | 'intensity'
+  axis?: 'x' | 'y' | 'z' // 高度着色的坐标轴，默认 y
+  range: [number, number]
+  colormap?: ColormapType | ColormapStops // 默认 viridis
+}
+
+export interface FrameProcessOptionsType {
+  format: FrameFormatType
+  colorize?: FrameColorizeType
+  transform?: ArrayLike<number> // 4x4 变换矩阵，列主序，与 THREE.Matrix4.elements 一致
+}
+
+/**
+ * 流的连接状态
+ */
+export type StreamStateType = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+export interface StreamSourceEventMap {
+  message: { data: string | ArrayBuffer }
+  state: { state: StreamStateType }
+  error: { error: Error }
+}
+
+/**
+ * 流数据源，负责连接与收发原始消息，WebSocketSource 为默认实现
+ */
+export interface StreamSourceType extends THREE.EventDispatcher<StreamSourceEventMap> {
+  connect(): void
+  disconnect(): void
+  getState(): StreamStateType
+}
+
+/**
+ * 消息解码结果：已解码的点云、交给 Worker 解码的二进制帧，或忽略该消息（null）
+ */
+export type StreamMessageType =
+  | PointCloudData
+  | { buffer: ArrayBuffer; format?: FrameFormatType }
+  | null
+
+/**
+ * 消息格式，把原始消息转换为点云帧
+ */
+export interface MessageSchemaType {
+  decode(message: string | ArrayBuffer): StreamMessageType
+}
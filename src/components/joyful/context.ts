@@ -0,0 +1,62 @@
+import { inject, onUnmounted, type InjectionKey, type ShallowRef } from 'vue'
+import type * as THREE from 'three'
+import * as JOYFUL3D from '@joyful3d'
+
+/**
+ * <JoyfulViewer> 向子组件提供的 Viewer，Viewer 在挂载后才创建
+ */
+export const VIEWER_KEY: InjectionKey<ShallowRef<JOYFUL3D.Viewer | undefined>> =
+  Symbol('joyful-viewer')
+
+/**
+ * 获取外层 <JoyfulViewer> 的 Viewer 实例
+ *
+ * <JoyfulViewer> 在 Viewer 创建之后才渲染默认插槽，因此插槽内的组件在 setup 中即可直接使用
+ */
+export function useViewer() {
+  const viewer = inject(VIEWER_KEY, undefined)?.value
+  if (!viewer) throw new Error('JoyfulViewer: component must be placed inside <JoyfulViewer>')
+  return viewer
+}
+
+/**
+ * 把 Viewer 的 click / hover 事件转发为组件事件，只转发拾取到 getObject 返回的对象的事件
+ *
+ * hover 在鼠标离开该对象时再触发一次，此时 pick 为 null；组件卸载时自动移除监听
+ *
+ * @param viewer     Viewer 实例，需开启 picking
+ * @param getObject  组件当前对应的三维对象
+ * @param emit       组件的 emit
+ */
+export function usePickEvents(
+  viewer: JOYFUL3D.Viewer,
+  getObject: () => THREE.Object3D | undefined,
+  emit: {
+    (type: 'click', event: JOYFUL3D.PickEventType): void
+    (type: 'hover', event: JOYFUL3D.PickEventType): void
+  },
+) {
+  let hovered = false
+
+  const onClick = ({ pick, originalEvent }: JOYFUL3D.PickEventType) => {
+    if (pick && pick.object === getObject()) emit('click', { pick, originalEvent })
+  }
+
+  const onHover = ({ pick, originalEvent }: JOYFUL3D.PickEventType) => {
+    if (pick && pick.object === getObject()) {
+      hovered = true
+      emit('hover', { pick, originalEvent })
+    } else if (hovered) {
+      hovered = false
+      emit('hover', { pick: null, originalEvent })
+    }
+  }
+
+  viewer.addEventListener('click', onClick)
+  viewer.addEventListener('hover', onHover)
+
+  onUnmounted(() => {
+    viewer.removeEventListener('click', onClick)
+    viewer.removeEventListener('hover', onHover)
+  })
+}
@@ -0,0 +1,6 @@
+import JoyfulViewer from './JoyfulViewer.vue'
+import JoyfulPoints from './JoyfulPoints.vue'
+import JoyfulLabel from './JoyfulLabel.vue'
+
+export { JoyfulViewer, JoyfulPoints, JoyfulLabel }
+export { VIEWER_KEY, useViewer, usePickEvents } from './context'
@@ -1 +1,6 @@
 export * from './use-point-cloud'
+export * from './use-point-cloud-stream'
+export * from './use-ros-point-cloud'
+export * from './use-viewer-state'
+export * from './use-layers'
+export * from './use-transform-controls'
@@ -0,0 +1,71 @@
+import { onUnmounted, shallowRef, watch, type Ref } from 'vue'
+import * as JOYFUL3D from '@joyful3d'
+
+/**
+ * 图层树中的一个对象
+ */
+export interface LayerTreeItemType {
+  name: string
+  type: string
+  visible: boolean
+}
+
+/**
+ * 图层树中的一个图层
+ */
+export interface LayerTreeNodeType extends JOYFUL3D.LayerStateType {
+  items: LayerTreeItemType[]
+}
+
+/**
+ * 把 Viewer 的图层同步为响应式图层树的自定义 Hook，用于渲染图层侧边栏。
+ *
+ * 功能说明：
+ * - 监听 LayerManager 的 add / remove / change 事件，图层变化时重新生成图层树。
+ * - 图层树按从上到下排列（最后渲染的图层在最前），便于直接渲染列表。
+ * - 提供显示隐藏、透明度、点大小、排序、删除等操作。
+ *
+ * @param viewer  Viewer 实例的 Ref，可以在 onMounted 中才赋值
+ */
+export function useLayers({ viewer }: { viewer: Ref<JOYFUL3D.Viewer | undefined> }) {
+  const layers = shallowRef<LayerTreeNodeType[]>([])
+
+  let manager: JOYFUL3D.LayerManager | null = null
+
+  const refresh = () => {
+    layers.value = (manager?.getLayers() ?? [])
+      .map((layer) => ({
+        ...layer.toJSON(),
+        items: layer.getItems().map((item) => {
+          const object = JOYFUL3D.getLayerItemObject(item)
+          return { name: object.name || object.type, type: object.type, visible: object.visible }
+        }),
+      }))
+      .reverse()
+  }
+
+  const bind = (target: JOYFUL3D.LayerManager | null) => {
+    manager?.removeEventListener('add', refresh)
+    manager?.removeEventListener('remove', refresh)
+    manager?.removeEventListener('change', refresh)
+    manager = target
+    manager?.addEventListener('add', refresh)
+    manager?.addEventListener('remove', refresh)
+    manager?.addEventListener('change', refresh)
+    refresh()
+  }
+
+  watch(viewer, (target) => bind(target?.getLayers() ?? null), { immediate: true })
+
+  onUnmounted(() => bind(null))
+
+  const setVisible = (name: string, visible: boolean) => manager?.get(name)?.setVisible(visible)
+  const setOpacity = (name: string, opacity: number) => manager?.get(name)?.setOpacity(opacity)
+  const setPointSize = (name: string, size: number) => manager?.get(name)?.setPointSize(size)
+  // index 为图层树中的位置（0 为最上层），换算为渲染顺序中的位置
+  const moveLayer = (name: string, index: number) =>
+    manager?.moveLayer(name, layers.value.length - 1 - index)
+  const removeLayer = (name: string) => manager?.remove(name)
+
+  return { layers, setVisible, setOpacity, setPointSize, moveLayer, removeLayer }
+}
@@ -0,0 +1,86 @@
+import { onMounted, onUnmounted, ref, shallowRef, type Ref } from 'vue'
+import * as JOYFUL3D from '@joyful3d'
+
+/**
+ * 订阅实时点云流的自定义 Hook。
+ *
+ * 功能说明：
+ * - 自动初始化 JOYFUL3D.Viewer 与 JOYFUL3D.Points，并连接到指定的数据源。
+ * - 默认通过 WebSocket 接收消息，断线后按指数退避自动重连。
+ * - 文本消息按 JSON 解码，二进制消息在 Worker 中按 format 解码。
+ * - 暴露连接状态与帧率统计，组件卸载时自动断开并释放资源。
+ *
+ * @param el         绑定的 DOM 元素 Ref
+ * @param source     WebSocket 地址或自定义数据源
+ * @param schema     消息格式（可选）
+ * @param format     二进制消息的帧格式，默认 xyz
+ * @param mode       写入方式：replace 每帧替换，append 累积，默认 replace
+ * @param maxPoints  最大点数，默认 200000
+ * @param statsRate  统计信息的刷新间隔（毫秒），默认 500
+ */
+export function usePointCloudStream({
+  el,
+  source,
+  schema,
+  format = 'xyz',
+  mode = 'replace',
+  maxPoints = 200000,
+  statsRate = 500,
+}: {
+  el: Ref
+  source: JOYFUL3D.StreamSourceType | string
+  schema?: JOYFUL3D.MessageSchemaType
+  format?: JOYFUL3D.FrameFormatType
+  mode?: 'replace' | 'append'
+  maxPoints?: number
+  statsRate?: number
+}) {
+  const state = ref<JOYFUL3D.StreamStateType>('idle')
+  const stats = shallowRef<JOYFUL3D.PointCloudStreamStatsType | null>(null)
+
+  let viewer: JOYFUL3D.Viewer
+  let points: JOYFUL3D.Points
+  let stream: JOYFUL3D.PointCloudStream | null = null
+  let timer = 0
+
+  onMounted(() => {
+    viewer = new JOYFUL3D.Viewer({ el: el.value, stats: true, axis: true, grid: true })
+    points = new JOYFUL3D.Points({
+      scene: viewer.getScene(),
+      maxPoints,
+      colorMode: 'height',
+      colorAxis: 'z',
+      colormap: 'turbo',
+    })
+
+    stream = new JOYFUL3D.PointCloudStream({
+      source,
+      schema,
+      format,
+      mode,
+      points,
+      viewer,
+    })
+    state.value = stream.getState()
+    stream.addEventListener('state', (event) => (state.value = event.state))
+
+    timer = window.setInterval(() => {
+      if (stream) stats.value = stream.getStats()
+    }, statsRate)
+  })
+
+  onUnmounted(() => {
+    window.clearInterval(timer)
+    stream?.dispose()
+    stream = null
+    points.dispose()
+    viewer.dispose()
+  })
+
+  return {
+    state,
+    stats,
+    connect: () => stream?.connect(),
+    disconnect: () => stream?.disconnect(),
+  }
+}
@@ -1,21 +1,15 @@
-import * as THREE from 'three'
-import { onMounted, onUnmounted, type Ref } from 'vue'
+import { onMounted, onUnmounted, shallowRef, type Ref } from 'vue'
 import * as JOYFUL3D from '@joyful3d'
 
-interface pointType {
-  x: number
-  y: number
-  z: number
-}
-
 /**
  * 使用点云可视化的自定义 Hook。
  *
  * 功能说明：
  * - 自动初始化 JOYFUL3D.Viewer，并将点云渲染到指定的 DOM 元素上。
- * - 按指定速率（throttleRate）批量生成点云数据，并加入渲染队列。
- * - 点云数据会在指定衰减时间（decayTime）后自动销毁，避免内存泄漏。
+ * - 按指定速率（throttleRate）批量生成点云数据，在 Worker 中解码后加入渲染队列。
+ * - 点云写入同一个多帧累积缓冲区，并在指定衰减时间（decayTime）内逐渐淡出，不会为每批次创建对象。
  * - 支持最大点数限制（maxPoints），防止渲染压力过大。
+ * - 返回 viewer 的 Ref，可配合 useViewerState 分享当前视图。
  *
  * @param el           绑定的 DOM 元素 Ref
  * @param throttleRate 点云渲染的节流间隔（毫秒），默认 100
@@ -39,20 +33,32 @@ export function usePointCloud2({
 
   const max = 20000
 
-  const pointCloudQueue: pointType[][] = []
-  const pointInstanceArray: { instance: JOYFUL3D.Points; timestamps: number }[] = []
+  let pipeline: JOYFUL3D.PointCloudPipeline
+  let accumulator: JOYFUL3D.PointAccumulator
 
-  let viewer: JOYFUL3D.Viewer
-  let scene: THREE.Scene | undefined
+  const viewer = shallowRef<JOYFUL3D.Viewer>()
 
   onMounted(() => {
-    viewer = new JOYFUL3D.Viewer({ el: el.value, stats: true, axis: true, grid: true })
-    scene = viewer.getScene()
+    viewer.value = new JOYFUL3D.Viewer({ el: el.value, stats: true, axis: true, grid: true })
+    accumulator = new JOYFUL3D.PointAccumulator({
+      scene: viewer.value.getScene(),
+      frames: Math.ceil(decayTime / throttleRate) + 1,
+      pointsPerFrame: maxPoints,
+      maxAge: decayTime,
+      colorMode: 'height',
+      colorAxis: 'y',
+      colorRange: [-10, 10],
+      colormap: 'jet',
+    })
+    pipeline = new JOYFUL3D.PointCloudPipeline({ format: 'xyz' })
     subscribe()
   })
 
   onUnmounted(() => {
-    viewer.dispose()
+    cancelAnimationFrame(requestAnimationFrameId)
+    pipeline.dispose()
+    accumulator.dispose()
+    viewer.value?.dispose()
   })
 
   const subscribe = () => {
@@ -62,18 +68,16 @@ export function usePointCloud2({
   const processMessage = () => {
     if (index >= max) return
 
-    const currentPoint: pointType[] = []
-    // 一次message，处理2000个点位
+    // 一次message，处理2000个点位，模拟收到的二进制帧（xyz float32）
+    const frame = new Float32Array(2000 * 3)
     for (let i = 0; i < 2000; i++) {
       const base = Math.random() * 1000
 
-      const x = base * Math.random() - base / 2
-      const y = base * Math.random() - base / 2
-      const z = base * Math.random() - base / 2
-
-      currentPoint.push({ x, y, z })
+      frame[i * 3] = base * Math.random() - base / 2
+      frame[i * 3 + 1] = base * Math.random() - base / 2
+      frame[i * 3 + 2] = base * Math.random() - base / 2
     }
-    pointCloudQueue.push(currentPoint)
+    pipeline.push(frame.buffer)
 
     index++
 
@@ -89,43 +93,20 @@ export function usePointCloud2({
   const processQueue = () => {
     requestAnimationFrameId = requestAnimationFrame(processQueue)
 
-    if (pointInstanceArray.length === 0 && pointCloudQueue.length === 0) {
+    const { inFlight, queued } = pipeline.getStats()
+    if (index >= max && inFlight === 0 && queued === 0) {
       cancelAnimationFrame(requestAnimationFrameId)
       return
     }
 
     const now = Date.now()
-    const MAX = 10
-    const MIN = -10
-
-    if (pointInstanceArray.length) {
-      if (now - pointInstanceArray[0].timestamps > decayTime) {
-        const item = pointInstanceArray.shift()
-        if (item) item.instance.dispose()
-      }
-    }
-
-    if (pointCloudQueue.length) {
+    if (queued) {
       if (now - lastRenderTime < throttleRate) return
 
-      const points: pointType[] = pointCloudQueue.shift()!
-      const instance = new JOYFUL3D.Points({ scene, maxPoints: maxPoints })
-      pointInstanceArray.push({ instance, timestamps: Date.now() })
-
-      // const r = Math.floor(Math.random() * 256) / 255;
-      // const g = Math.floor(Math.random() * 256) / 255;
-      // const b = Math.floor(Math.random() * 256) / 255;
-
-      for (let i = 0; i < points.length; i++) {
-        const { x, y, z } = points[i]
-
-        const t = (y - MIN) / (MAX - MIN)
-        const color = new THREE.Color()
-        color.setHSL((1 - t) * 0.7, 1.0, 0.5)
-
-        instance.addPoint(x, y, z, color.r, color.g, color.b)
-      }
+      accumulator.addPointCloud(pipeline.take()!)
       lastRenderTime = now
     }
   }
+
+  return { viewer }
 }
@@ -0,0 +1,59 @@
+import { onMounted, onUnmounted, ref, type Ref } from 'vue'
+import * as JOYFUL3D from '@joyful3d'
+
+/**
+ * 订阅 ROS 点云话题的自定义 Hook。
+ *
+ * 功能说明：
+ * - 自动初始化 JOYFUL3D.Viewer，并通过 rosbridge 连接到机器人。
+ * - 订阅 sensor_msgs/PointCloud2 话题，在 Worker 中解码后渲染。
+ * - 暴露连接状态与最近一帧的 frame_id、点数，组件卸载时自动取消订阅并释放资源。
+ *
+ * @param el            绑定的 DOM 元素 Ref
+ * @param url           rosbridge 地址，默认 ws://localhost:9090
+ * @param topic         点云话题名
+ * @param maxPoints     最大点数，默认 200000
+ * @param throttleRate  rosbridge 服务端的最小发送间隔（毫秒），默认 0
+ */
+export function useRosPointCloud({
+  el,
+  url = 'ws://localhost:9090',
+  topic,
+  maxPoints = 200000,
+  throttleRate = 0,
+}: {
+  el: Ref
+  url?: string
+  topic: string
+  maxPoints?: number
+  throttleRate?: number
+}) {
+  const state = ref<JOYFUL3D.StreamStateType>('idle')
+  const frameId = ref('')
+  const count = ref(0)
+
+  let viewer: JOYFUL3D.Viewer
+  let client: JOYFUL3D.RosbridgeClient
+  let cloud: JOYFUL3D.RosPointCloud
+
+  onMounted(() => {
+    viewer = new JOYFUL3D.Viewer({ el: el.value, stats: true, axis: true, grid: true })
+    client = new JOYFUL3D.RosbridgeClient({ url })
+    state.value = client.getState()
+    client.addEventListener('state', (event) => (state.value = event.state))
+
+    cloud = new JOYFUL3D.RosPointCloud({ client, topic, viewer, maxPoints, throttleRate })
+    cloud.addEventListener('frame', ({ data, header }) => {
+      frameId.value = header.frame_id
+      count.value = data.count
+    })
+  })
+
+  onUnmounted(() => {
+    cloud.dispose()
+    client.dispose()
+    viewer.dispose()
+  })
+
+  return { state, frameId, count }
+}
@@ -1,12 +1,318 @@
-// import * as THREEo9 from 'three'
-// import { TransformControls } from 'three/addons/controls/TransformControls.js';
-// import { onMounted } from 'vue'
+import { onUnmounted, ref, shallowRef, watch, type Ref } from 'vue'
+import * as THREE from 'three'
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js'
+import * as JOYFUL3D from '@joyful3d'
 
-// export function useTransformControls({
-//   camera,
-//   domElement
-// }) {
+export type TransformModeType = 'translate' | 'rotate' | 'scale'
 
-// }
+export type TransformSpaceType = 'world' | 'local'
 
+/**
+ * 吸附步长，null 表示不吸附
+ *
+ * @param translate  平移步长
+ * @param rotate     旋转步长（角度）
+ * @param scale      缩放步长
+ */
+export interface TransformSnapType {
+  translate?: number | null
+  rotate?: number | null
+  scale?: number | null
+}
 
+/**
+ * 对象的变换，rotation 为欧拉角（弧度）
+ */
+export interface TransformValueType {
+  position: THREE.Vector3Like
+  rotation: THREE.Vector3Like
+  scale: THREE.Vector3Like
+}
+
+interface TransformRecordType {
+  object: THREE.Object3D
+  before: TransformValueType
+  after: TransformValueType
+}
+
+function getTransform(object: THREE.Object3D): TransformValueType {
+  const { position, rotation, scale } = object
+  return {
+    position: { x: position.x, y: position.y, z: position.z },
+    rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+    scale: { x: scale.x, y: scale.y, z: scale.z },
+  }
+}
+
+function applyTransform(object: THREE.Object3D, transform: Partial<TransformValueType>) {
+  if (transform.position) object.position.copy(transform.position)
+  if (transform.rotation) {
+    object.rotation.set(transform.rotation.x, transform.rotation.y, transform.rotation.z)
+  }
+  if (transform.scale) object.scale.copy(transform.scale)
+}
+
+function isSameTransform(a: TransformValueType, b: TransformValueType) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * 在 Viewer 中拖动、旋转、缩放对象的自定义 Hook。
+ *
+ * 功能说明：
+ * - 使用 Viewer 的相机与画布创建 TransformControls，切换投影方式后自动跟随新相机。
+ * - 支持 translate / rotate / scale 三种操作方式、world / local 坐标系以及吸附步长，
+ *   返回的 mode / space / snap 可直接修改（如 v-model），修改后立即应用到手柄。
+ * - 拖动手柄时暂停相机控制器（OrbitControls 等），松开后恢复。
+ * - 选中对象的位置、旋转、缩放同步为响应式数据，也可通过 setTransform 修改。
+ * - 每次拖动或 setTransform 记录一条历史，支持撤销 / 重做。
+ * - setTransform、撤销 / 重做与选中对象的变化都会请求 Viewer 渲染，按需渲染时立即可见。
+ * - 可直接操作裁剪盒：attach(viewer.addClipBox().getObject())，translate 移动、scale 调整尺寸、rotate 旋转。
+ *
+ * @param viewer        Viewer 实例的 Ref，可以在 onMounted 中才赋值
+ * @param mode          初始操作方式，默认 translate
+ * @param space         初始坐标系，默认 world
+ * @param snap          初始吸附步长，默认不吸附
+ * @param historyLimit  最多保留的历史记录条数，默认 100
+ */
+export function useTransformControls({
+  viewer,
+  mode: initialMode = 'translate',
+  space: initialSpace = 'world',
+  snap: initialSnap = {},
+  historyLimit = 100,
+}: {
+  viewer: Ref<JOYFUL3D.Viewer | undefined>
+  mode?: TransformModeType
+  space?: TransformSpaceType
+  snap?: TransformSnapType
+  historyLimit?: number
+}) {
+  const object = shallowRef<THREE.Object3D | null>(null)
+  const mode = ref<TransformModeType>(initialMode)
+  const space = ref<TransformSpaceType>(initialSpace)
+  const snap = ref<Required<TransformSnapType>>({
+    translate: null,
+    rotate: null,
+    scale: null,
+    ...initialSnap,
+  })
+  const dragging = ref(false)
+
+  // 选中对象的变换，未选中时为 null
+  const position = ref<THREE.Vector3Like | null>(null)
+  const rotation = ref<THREE.Vector3Like | null>(null)
+  const scale = ref<THREE.Vector3Like | null>(null)
+
+  const canUndo = ref(false)
+  const canRedo = ref(false)
+
+  let controls: TransformControls | null = null
+  let cameraController: JOYFUL3D.CameraController | null = null
+
+  const undoStack: TransformRecordType[] = []
+  const redoStack: TransformRecordType[] = []
+  let dragStart: TransformValueType | null = null // 拖动开始时的变换
+
+  const sync = () => {
+    const transform = object.value ? getTransform(object.value) : null
+    position.value = transform?.position ?? null
+    rotation.value = transform?.rotation ?? null
+    scale.value = transform?.scale ?? null
+  }
+
+  const syncHistory = () => {
+    canUndo.value = undoStack.length > 0
+    canRedo.value = redoStack.length > 0
+  }
+
+  const record = (target: THREE.Object3D, before: TransformValueType) => {
+    const after = getTransform(target)
+    if (isSameTransform(before, after)) return
+
+    undoStack.push({ object: target, before, after })
+    if (undoStack.length > historyLimit) undoStack.shift()
+    redoStack.length = 0
+    syncHistory()
+  }
+
+  // 拖动时暂停相机控制器，避免同时旋转视角
+  const onDraggingChanged = (event: { value: unknown }) => {
+    dragging.value = Boolean(event.value)
+    const cameraControls = viewer.value?.getControls()
+    if (cameraControls) cameraControls.enabled = !event.value
+  }
+
+  const onMouseDown = () => {
+    if (object.value) dragStart = getTransform(object.value)
+  }
+
+  const onMouseUp = () => {
+    if (object.value && dragStart) record(object.value, dragStart)
+    dragStart = null
+  }
+
+  // 手柄高亮与拖拽都会改变画面，按需渲染时需要请求渲染
+  const onChange = () => viewer.value?.requestRender()
+
+  const onCameraChange = ({ camera }: JOYFUL3D.CameraControllerEventMap['change']) => {
+    if (controls) controls.camera = camera
+  }
+
+  const applySnap = () => {
+    if (!controls) return
+    const { translate, rotate, scale } = snap.value
+    controls.setTranslationSnap(translate)
+    controls.setRotationSnap(rotate === null ? null : THREE.MathUtils.degToRad(rotate))
+    controls.setScaleSnap(scale)
+  }
+
+  const unbind = () => {
+    cameraController?.removeEventListener('change', onCameraChange)
+    cameraController = null
+    if (!controls) return
+
+    controls.removeEventListener('dragging-changed', onDraggingChanged)
+    controls.removeEventListener('mouseDown', onMouseDown)
+    controls.removeEventListener('mouseUp', onMouseUp)
+    controls.removeEventListener('objectChange', sync)
+    controls.removeEventListener('change', onChange)
+    controls.detach()
+    controls.getHelper().removeFromParent()
+    controls.dispose()
+    controls = null
+  }
+
+  const bind = (target: JOYFUL3D.Viewer | undefined) => {
+    unbind()
+    const camera = target?.getCamera()
+    const renderer = target?.getRenderer()
+    const scene = target?.getScene()
+    if (!target || !camera || !renderer || !scene) return
+
+    controls = new TransformControls(camera, renderer.domElement)
+    controls.setMode(mode.value)
+    controls.setSpace(space.value)
+    applySnap()
+    controls.addEventListener('dragging-changed', onDraggingChanged)
+    controls.addEventListener('mouseDown', onMouseDown)
+    controls.addEventListener('mouseUp', onMouseUp)
+    controls.addEventListener('objectChange', sync)
+    controls.addEventListener('change', onChange)
+    scene.add(controls.getHelper())
+
+    cameraController = target.getCameraController()
+    cameraController?.addEventListener('change', onCameraChange)
+
+    if (object.value) controls.attach(object.value)
+  }
+
+  watch(viewer, bind, { immediate: true })
+
+  // 同步应用，setMode 等调用返回后 getControls() 即为新的状态
+  watch(mode, (value) => controls?.setMode(value), { flush: 'sync' })
+  watch(space, (value) => controls?.setSpace(value), { flush: 'sync' })
+  watch(snap, applySnap, { deep: true, flush: 'sync' })
+
+  onUnmounted(unbind)
+
+  /**
+   * 选中对象并显示手柄，对象需要已经在场景中
+   */
+  const attach = (target: THREE.Object3D) => {
+    object.value = target
+    controls?.attach(target)
+    sync()
+    onChange()
+  }
+
+  const detach = () => {
+    object.value = null
+    controls?.detach()
+    sync()
+    onChange()
+  }
+
+  const setMode = (value: TransformModeType) => {
+    mode.value = value
+  }
+
+  const setSpace = (value: TransformSpaceType) => {
+    space.value = value
+  }
+
+  /**
+   * 设置吸附步长，未传入的字段保持不变
+   */
+  const setSnap = (value: TransformSnapType) => {
+    snap.value = { ...snap.value, ...value }
+  }
+
+  /**
+   * 修改选中对象的变换，记录一条历史
+   */
+  const setTransform = (transform: Partial<TransformValueType>) => {
+    const target = object.value
+    if (!target) return
+
+    const before = getTransform(target)
+    applyTransform(target, transform)
+    record(target, before)
+    sync()
+    onChange()
+  }
+
+  /**
+   * 撤销最近一次变换，会选中被撤销的对象
+   */
+  const undo = () => {
+    const item = undoStack.pop()
+    if (!item) return
+
+    applyTransform(item.object, item.before)
+    redoStack.push(item)
+    syncHistory()
+    attach(item.object)
+  }
+
+  const redo = () => {
+    const item = redoStack.pop()
+    if (!item) return
+
+    applyTransform(item.object, item.after)
+    undoStack.push(item)
+    syncHistory()
+    attach(item.object)
+  }
+
+  const clearHistory = () => {
+    undoStack.length = 0
+    redoStack.length = 0
+    syncHistory()
+  }
+
+  const getControls = () => controls
+
+  return {
+    object,
+    mode,
+    space,
+    snap,
+    dragging,
+    position,
+    rotation,
+    scale,
+    canUndo,
+    canRedo,
+    attach,
+    detach,
+    setMode,
+    setSpace,
+    setSnap,
+    setTransform,
+    undo,
+    redo,
+    clearHistory,
+    getControls,
+  }
+}
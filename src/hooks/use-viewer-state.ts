@@ -0,0 +1,123 @@
+import { onUnmounted, ref, watch, type Ref } from 'vue'
+import { useRoute, useRouter } from 'vue-router'
+import * as JOYFUL3D from '@joyful3d'
+
+/**
+ * 把 Viewer 状态同步到路由 query 的自定义 Hook，用于分享当前视图。
+ *
+ * 功能说明：
+ * - viewer 就绪后，如果 URL 中带有状态，则恢复相机、辅助线、背景以及已注册对象的状态。
+ * - 开启 sync 时，交互结束（拖拽、滚轮、按键、相机动画结束）后延迟写入 URL（router.replace，不产生历史记录）。
+ * - 浏览器前进、后退导致 query 变化时重新恢复。
+ * - 提供 save 手动写入、getShareUrl 生成分享链接。
+ *
+ * @param viewer  Viewer 实例的 Ref，可以在 onMounted 中才赋值
+ * @param key     query 参数名，默认 view
+ * @param sync    是否在交互后自动写入 URL，默认 true
+ * @param delay   自动写入的延迟（毫秒），默认 500
+ */
+export function useViewerState({
+  viewer,
+  key = 'view',
+  sync = true,
+  delay = 500,
+}: {
+  viewer: Ref<JOYFUL3D.Viewer | undefined>
+  key?: string
+  sync?: boolean
+  delay?: number
+}) {
+  const route = useRoute()
+  const router = useRouter()
+  const error = ref<Error | null>(null)
+
+  let timer = 0
+  let lastEncoded = '' // 最近一次写入或恢复的状态，用于忽略自身触发的路由变化
+  let unbind: (() => void) | null = null
+
+  const encode = () => (viewer.value ? JOYFUL3D.encodeViewerState(viewer.value.serialize()) : '')
+
+  /**
+   * 从 URL 恢复状态，URL 中没有状态时返回 false
+   */
+  const restore = () => {
+    const encoded = route.query[key]
+    if (!viewer.value || typeof encoded !== 'string' || !encoded) return false
+
+    try {
+      viewer.value.restore(JOYFUL3D.decodeViewerState(encoded))
+      lastEncoded = encoded
+      error.value = null
+      return true
+    } catch (e) {
+      error.value = e instanceof Error ? e : new Error(String(e))
+      return false
+    }
+  }
+
+  /**
+   * 把当前状态写入 URL
+   */
+  const save = () => {
+    const encoded = encode()
+    if (!encoded || encoded === lastEncoded) return
+    lastEncoded = encoded
+    router.replace({ query: { ...route.query, [key]: encoded } })
+  }
+
+  /**
+   * 生成包含当前状态的完整链接
+   */
+  const getShareUrl = () => {
+    const href = router.resolve({ query: { ...route.query, [key]: encode() } }).href
+    return new URL(href, window.location.href).href
+  }
+
+  const schedule = () => {
+    window.clearTimeout(timer)
+    timer = window.setTimeout(save, delay)
+  }
+
+  const bind = (target: JOYFUL3D.Viewer) => {
+    const canvas = target.getRenderer()?.domElement
+    const controller = target.getCameraController()
+    canvas?.addEventListener('pointerup', schedule)
+    canvas?.addEventListener('wheel', schedule)
+    window.addEventListener('keyup', schedule)
+    controller?.addEventListener('transitionend', schedule)
+
+    unbind = () => {
+      canvas?.removeEventListener('pointerup', schedule)
+      canvas?.removeEventListener('wheel', schedule)
+      window.removeEventListener('keyup', schedule)
+      controller?.removeEventListener('transitionend', schedule)
+    }
+  }
+
+  watch(
+    viewer,
+    (target) => {
+      unbind?.()
+      unbind = null
+      if (!target) return
+
+      restore()
+      if (sync) bind(target)
+    },
+    { immediate: true },
+  )
+
+  watch(
+    () => route.query[key],
+    (encoded) => {
+      if (typeof encoded === 'string' && encoded !== lastEncoded) restore()
+    },
+  )
+
+  onUnmounted(() => {
+    window.clearTimeout(timer)
+    unbind?.()
+  })
+
+  return { error, save, restore, getShareUrl }
+}